@@ -7,6 +7,20 @@ import "./globals.css"
   // subsets: ["latin"],
 // })
 
+// Test script workers are created from blob: URLs and inherit this policy, which is what keeps
+// them off the network: connect-src covers fetch, WebSocket and WebTransport, and script-src
+// covers dynamic import(). The packaged app loads from file://, the dev server over http (where
+// 'self' also allows its hot-reload socket). Next.js inlines its bootstrap scripts and test
+// scripts are compiled with new AsyncFunction, hence the unsafe-inline and unsafe-eval.
+const CONTENT_SECURITY_POLICY = [
+  "default-src 'self' file:",
+  "script-src 'self' file: 'unsafe-inline' 'unsafe-eval'",
+  "style-src 'self' file: 'unsafe-inline'",
+  "img-src 'self' file: data: blob:",
+  "worker-src blob:",
+  "connect-src 'self'",
+].join("; ")
+
 export const metadata: Metadata = {
   title: "Mini TFD Control",
   description: "Desktop application for controlling mini TFD devices",
@@ -19,6 +33,9 @@ export default function RootLayout({
 }) {
   return (
     <html lang="en" className="dark">
+      <head>
+        <meta httpEquiv="Content-Security-Policy" content={CONTENT_SECURITY_POLICY} />
+      </head>
       {/* <body className={`${inter.className} font-sans`}>{children}</body> */}
       <body className="sans-serif">{children}</body>
     </html>
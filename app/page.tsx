@@ -1,7 +1,7 @@
 "use client"
 
-import { MiniTFDControl } from "@/components/mini-tfd-control"
+import { DeviceWorkspace } from "@/components/device-workspace"
 
 export default function Page() {
-  return <MiniTFDControl />
+  return <DeviceWorkspace />
 }
@@ -0,0 +1,27 @@
+#!/usr/bin/env node
+// Launcher for the compiled CLI (npm run cli:build). The shared lib modules import each other
+// as "@/...", the app's path alias, which is resolved here against the build output.
+const Module = require("module")
+const path = require("path")
+
+const buildRoot = path.join(__dirname, "..", "dist-cli")
+const resolveFilename = Module._resolveFilename
+Module._resolveFilename = function (request, ...rest) {
+  const aliased = request.startsWith("@/") ? path.join(buildRoot, request.slice(2)) : request
+  return resolveFilename.call(this, aliased, ...rest)
+}
+
+const entry = path.join(buildRoot, "cli", "knobctl.js")
+let cli
+try {
+  cli = require(entry)
+} catch (error) {
+  // Only the entry point itself missing means there is no build; a module the built CLI needs
+  // going missing is a real error (the entry point then shows up in the require stack instead)
+  const isEntryMissing =
+    error.code === "MODULE_NOT_FOUND" && error.message.includes(entry) && !(error.requireStack ?? []).includes(entry)
+  if (!isEntryMissing) throw error
+  console.error('knobctl: the CLI is not built; run "npm run cli:build" first')
+  process.exit(1)
+}
+cli.run()
@@ -0,0 +1,114 @@
+// Device connection for the CLI: the main process's device manager opens the port (real or
+// simulated), and the app's command queue and line decoder run on top of it
+import { EventEmitter } from "events"
+import { DeviceManager } from "../public/device-manager"
+import { CommandError, CommandQueue } from "@/lib/command-queue"
+import { decodeLine, encodeCommand, type DeviceIdentity, type TFDCommand } from "@/lib/protocol"
+import type { TelemetryPoint } from "@/lib/telemetry-buffer"
+
+// Emits "telemetry" (TelemetryPoint), "command" (the line sent) and "disconnected"
+export class DeviceSession extends EventEmitter {
+  identity: DeviceIdentity | null = null
+  private manager = new DeviceManager()
+  private deviceId: string | null = null
+  // Reported before writing, as the reply can arrive while the write is still draining
+  private queue = new CommandQueue((line) => {
+    this.emit("command", line.trim())
+    return this.manager.write(this.deviceId, line)
+  })
+  private pollTimer: ReturnType<typeof setTimeout> | null = null
+  private isStreaming = false
+
+  constructor() {
+    super()
+    this.manager.on("data", (_deviceId: string, line: string) => {
+      const message = decodeLine(line)
+      if (this.queue.handleMessage(message)) return
+      // Streamed samples arrive without a command waiting for them
+      if (message.type === "telemetry") {
+        this.emitTelemetry(message)
+      }
+    })
+    this.manager.on("disconnected", () => {
+      this.queue.cancelAll("Device disconnected")
+      this.deviceId = null
+      this.emit("disconnected")
+    })
+  }
+
+  // Opens the port and asks the device what it is; older firmware without "get id" leaves identity null
+  async open(portPath: string, baudRate: number) {
+    this.deviceId = await this.manager.connect(portPath, String(baudRate))
+    try {
+      const reply = await this.queue.send({ type: "identify" })
+      this.identity = reply.type === "identity" ? reply.identity : null
+    } catch (err) {
+      const isUnanswered = err instanceof CommandError && (err.reason === "device" || err.reason === "timeout")
+      if (!isUnanswered) throw err
+      this.identity = null
+    }
+  }
+
+  send(command: TFDCommand) {
+    return this.queue.send(command)
+  }
+
+  // Streams at rateHz where the firmware can, otherwise polls "get all" at the same rate
+  async startTelemetry(rateHz: number) {
+    const canStream = !this.identity || this.identity.effects.length === 0 || this.identity.effects.includes("stream")
+    if (canStream) {
+      try {
+        await this.queue.send({ type: "stream", rateHz })
+        this.isStreaming = true
+        return
+      } catch (err) {
+        if (!(err instanceof CommandError) || err.reason !== "device") throw err
+      }
+    }
+
+    const intervalMs = 1000 / rateHz
+    const poll = async () => {
+      try {
+        const reply = await this.queue.send({ type: "get-all" })
+        if (reply.type === "telemetry") this.emitTelemetry(reply)
+      } catch (err) {
+        // A missed sample isn't fatal; a lost device is reported through "disconnected"
+        if (err instanceof CommandError && err.reason === "cancelled") return
+      }
+      if (this.pollTimer) this.pollTimer = setTimeout(poll, intervalMs)
+    }
+    this.pollTimer = setTimeout(poll, 0)
+  }
+
+  async stopTelemetry() {
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer)
+      this.pollTimer = null
+    }
+    if (this.isStreaming && this.deviceId) {
+      this.isStreaming = false
+      await this.manager.write(this.deviceId, encodeCommand({ type: "stream", rateHz: 0 }))
+    }
+  }
+
+  async close() {
+    await this.stopTelemetry().catch(() => {})
+    this.queue.cancelAll("Closing")
+    if (this.deviceId) {
+      const deviceId = this.deviceId
+      this.deviceId = null
+      this.manager.removeAllListeners("disconnected")
+      await this.manager.disconnect(deviceId)
+    }
+  }
+
+  private emitTelemetry(message: { angle: number; velocity: number; torque: number }) {
+    const point: TelemetryPoint = {
+      time: Date.now(),
+      angle: message.angle,
+      velocity: message.velocity,
+      torque: message.torque,
+    }
+    this.emit("telemetry", point)
+  }
+}
@@ -0,0 +1,378 @@
+// knobctl: headless control of a Mini TFD for bench automation and CI. Results go to stdout as
+// JSON (one object per line for streams); progress and errors go to stderr.
+import { createSocket } from "dgram"
+import { readFile, writeFile } from "fs/promises"
+import { DEFAULT_OSC_CONFIG, decodePacket, encodeMessage } from "../public/osc-bridge"
+import { listSerialPorts } from "../public/port-watcher"
+import { SIMULATOR_PORT_INFO, SIMULATOR_PORT_PATH } from "../public/simulator"
+import { DeviceSession } from "./device-session"
+import {
+  ENDSTOP_MODES,
+  HAPTIC_MODES,
+  commandsForSettings,
+  encodeCommand,
+  isModeSupported,
+  pickHapticSettings,
+  supportsEndstopOffset,
+  type HapticSettings,
+  type TFDCommand,
+} from "@/lib/protocol"
+import { DEFAULT_HAPTIC_CONFIG, createValidators } from "@/lib/haptic-config"
+import { SequenceRunner, parseSequence, type SequenceStatus } from "@/lib/sequencer"
+import { TelemetryBuffer, type TelemetryPoint } from "@/lib/telemetry-buffer"
+import { TelemetryRecorder } from "@/lib/telemetry-recorder"
+
+const USAGE = `Usage: knobctl <command> [options]
+
+Commands:
+  list                          List serial ports (the simulator is always included)
+  connect                       Connect, identify the device and disconnect
+  set-mode <mode>               Apply a haptic mode; parameters default to the app's defaults
+      --torque <nm>  --stiffness <n>  --target-angle <deg>
+      --turns <n>  --center <deg>  --endstop-mode <${ENDSTOP_MODES.join("|")}>  --sticky
+  get-all                       Print one telemetry sample
+      --stream                  Print samples until interrupted (or --duration)
+  record                        Record telemetry until interrupted (or --duration)
+      --csv                     CSV instead of the app's JSON recording format
+      --out <file>              Write to a file instead of stdout
+  run-sequence <file.json>      Run a sequence file from the app's sequencer
+  osc-listen                    Print the OSC messages arriving on a UDP port, e.g. the app's telemetry
+      --osc-port <port>         Port to listen on (default ${DEFAULT_OSC_CONFIG.targetPort})
+  osc-send <address> [args...]  Send one OSC message; numbers go as floats, anything else as strings
+      --host <host>  --osc-port <port>   Destination (default 127.0.0.1:${DEFAULT_OSC_CONFIG.listenPort})
+
+Options:
+  --port <path|sim>             Serial port; defaults to the only attached device, else the simulator
+  --baud <rate>                 Baud rate (default ${DEFAULT_HAPTIC_CONFIG.baudRate})
+  --rate <hz>                   Telemetry rate (default ${DEFAULT_HAPTIC_CONFIG.telemetry.streamRateHz})
+  --duration <s>                Stop streaming or recording after this many seconds
+  --help                        Show this help`
+
+const FLAGS = new Set(["stream", "csv", "sticky", "help"])
+
+// Command-line mistakes; reported with the usage hint and exit code 2
+class UsageError extends Error {}
+
+interface ParsedArgs {
+  positional: string[]
+  options: Record<string, string | true>
+}
+
+function parseArgs(argv: string[]): ParsedArgs {
+  const positional: string[] = []
+  const options: Record<string, string | true> = {}
+  for (let index = 0; index < argv.length; index++) {
+    const arg = argv[index]
+    if (!arg.startsWith("--")) {
+      positional.push(arg)
+      continue
+    }
+    const [name, inlineValue] = arg.slice(2).split("=", 2)
+    if (FLAGS.has(name)) {
+      options[name] = true
+    } else if (inlineValue !== undefined) {
+      options[name] = inlineValue
+    } else if (index + 1 < argv.length) {
+      options[name] = argv[++index]
+    } else {
+      throw new UsageError(`--${name} needs a value`)
+    }
+  }
+  return { positional, options }
+}
+
+// Set once the reader of stdout has gone away (e.g. "| head"), after which output is dropped
+let isStdoutClosed = false
+const print = (value: unknown) => {
+  if (!isStdoutClosed) process.stdout.write(JSON.stringify(value) + "\n")
+}
+const note = (message: string) => process.stderr.write(`knobctl: ${message}\n`)
+
+function numberOption(options: ParsedArgs["options"], name: string, fallback: number): number
+function numberOption(options: ParsedArgs["options"], name: string): number | undefined
+function numberOption(options: ParsedArgs["options"], name: string, fallback?: number) {
+  const value = options[name]
+  if (value === undefined) return fallback
+  const parsed = Number(value)
+  if (value === true || !Number.isFinite(parsed)) throw new UsageError(`--${name} must be a number`)
+  return parsed
+}
+
+// Resolves when interrupted (Ctrl+C) or after durationMs
+function untilStopped(durationMs?: number) {
+  return new Promise<void>((resolve) => {
+    const timer = durationMs === undefined ? null : setTimeout(done, durationMs)
+    function done() {
+      if (timer) clearTimeout(timer)
+      process.off("SIGINT", done)
+      resolve()
+    }
+    process.on("SIGINT", done)
+  })
+}
+
+async function listPorts() {
+  try {
+    return await listSerialPorts()
+  } catch (err) {
+    note(`serial port support unavailable: ${err instanceof Error ? err.message : err}`)
+    return [SIMULATOR_PORT_INFO]
+  }
+}
+
+async function resolvePort(requested: string | true | undefined): Promise<string> {
+  if (requested === true) throw new UsageError("--port needs a value")
+  if (requested === "sim" || requested === "simulator") return SIMULATOR_PORT_PATH
+  if (requested) return requested
+
+  const devices = (await listPorts()).filter((port) => port.path !== SIMULATOR_PORT_PATH)
+  if (devices.length > 1) {
+    throw new UsageError(`several serial ports found (${devices.map((port) => port.path).join(", ")}); pick one with --port`)
+  }
+  if (devices.length === 0) {
+    note("no serial device attached; using the simulator")
+    return SIMULATOR_PORT_PATH
+  }
+  return devices[0].path
+}
+
+// The device session the command has open, closed when stdout goes away mid-command
+let openedSession: DeviceSession | null = null
+
+async function openSession(options: ParsedArgs["options"]) {
+  const port = await resolvePort(options.port)
+  const baudRate = numberOption(options, "baud", DEFAULT_HAPTIC_CONFIG.baudRate)
+  const session = new DeviceSession()
+  await session.open(port, baudRate)
+  openedSession = session
+  session.on("disconnected", () => {
+    note("device disconnected")
+    process.exit(1)
+  })
+  return { session, port, baudRate }
+}
+
+// Firmware without offset support gets the span centred on 0°, as in the app
+function adaptForFirmware(session: DeviceSession, command: TFDCommand): TFDCommand {
+  const identity = session.identity
+  if (command.type === "endstops" && identity && !supportsEndstopOffset(identity)) {
+    return { ...command, center: 0 }
+  }
+  return command
+}
+
+function settingsFromOptions(mode: string | undefined, options: ParsedArgs["options"]): HapticSettings {
+  if (!mode) throw new UsageError(`set-mode needs a mode: ${HAPTIC_MODES.join(", ")}`)
+  const problems: string[] = []
+  const { settings } = createValidators(problems, "")
+  const defaults = pickHapticSettings(DEFAULT_HAPTIC_CONFIG)
+  const result = settings({
+    ...defaults,
+    mode,
+    torque: numberOption(options, "torque", defaults.torque),
+    stiffness: numberOption(options, "stiffness", defaults.stiffness),
+    targetAngle: numberOption(options, "target-angle", defaults.targetAngle),
+    endstopTurns: numberOption(options, "turns", defaults.endstopTurns),
+    endstopCenter: numberOption(options, "center", defaults.endstopCenter),
+    endstopMode: options["endstop-mode"] ?? defaults.endstopMode,
+    isSticky: options.sticky === true,
+  })
+  if (problems.length > 0) throw new UsageError(problems.join("; "))
+  return result
+}
+
+const commands: Record<string, (args: ParsedArgs) => Promise<number>> = {
+  async list() {
+    print(await listPorts())
+    return 0
+  },
+
+  async connect({ options }) {
+    const { session, port, baudRate } = await openSession(options)
+    print({ port, baudRate, identity: session.identity })
+    await session.close()
+    return 0
+  },
+
+  async "set-mode"({ positional, options }) {
+    const settings = settingsFromOptions(positional[0], options)
+    const { session, port } = await openSession(options)
+    if (!isModeSupported(settings.mode, session.identity)) {
+      note(
+        session.identity
+          ? `firmware ${session.identity.firmwareVersion} does not list the effect for ${settings.mode}`
+          : `the device did not identify itself, so it may not support ${settings.mode}`,
+      )
+    }
+    const sent: string[] = []
+    for (const command of commandsForSettings(settings)) {
+      const adapted = adaptForFirmware(session, command)
+      await session.send(adapted)
+      sent.push(encodeCommand(adapted).trim())
+    }
+    print({ port, mode: settings.mode, sent })
+    await session.close()
+    return 0
+  },
+
+  async "get-all"({ options }) {
+    const { session } = await openSession(options)
+    if (!options.stream) {
+      const reply = await session.send({ type: "get-all" })
+      if (reply.type === "telemetry") {
+        print({ time: Date.now(), angle: reply.angle, velocity: reply.velocity, torque: reply.torque })
+      }
+      await session.close()
+      return 0
+    }
+
+    session.on("telemetry", (point: TelemetryPoint) => print(point))
+    await session.startTelemetry(numberOption(options, "rate", DEFAULT_HAPTIC_CONFIG.telemetry.streamRateHz))
+    const duration = numberOption(options, "duration")
+    await untilStopped(duration === undefined ? undefined : duration * 1000)
+    await session.close()
+    return 0
+  },
+
+  async record({ options }) {
+    const { session, port } = await openSession(options)
+    const recorder = new TelemetryRecorder()
+    const rateHz = numberOption(options, "rate", DEFAULT_HAPTIC_CONFIG.telemetry.streamRateHz)
+    recorder.start({ source: "knobctl", port, identity: session.identity, rateHz })
+    session.on("telemetry", ({ time, ...sample }: TelemetryPoint) => recorder.addSample(sample, time))
+    session.on("command", (line: string) => recorder.addCommand(line))
+
+    await session.startTelemetry(rateHz)
+    note("recording; press Ctrl+C to stop")
+    const duration = numberOption(options, "duration")
+    await untilStopped(duration === undefined ? undefined : duration * 1000)
+    recorder.stop()
+    await session.close()
+
+    const output = options.csv ? recorder.toCSV() : JSON.stringify(recorder.toRecording(), null, 2) + "\n"
+    if (typeof options.out === "string") {
+      await writeFile(options.out, output)
+      print({ file: options.out, ...recorder.status() })
+    } else {
+      process.stdout.write(output)
+    }
+    return 0
+  },
+
+  // The OSC commands don't open a device; they stand in for the software on the other end of the app's OSC link
+  async "osc-listen"({ options }) {
+    const port = numberOption(options, "osc-port", DEFAULT_OSC_CONFIG.targetPort)
+    const socket = createSocket("udp4")
+    socket.on("message", (packet, remote) => {
+      try {
+        for (const message of decodePacket(packet)) {
+          print({ time: Date.now(), from: `${remote.address}:${remote.port}`, ...message })
+        }
+      } catch (err) {
+        note(`malformed packet from ${remote.address}: ${err instanceof Error ? err.message : err}`)
+      }
+    })
+    await new Promise<void>((resolve, reject) => {
+      socket.once("error", reject)
+      socket.bind(port, () => resolve())
+    })
+    note(`listening for OSC on port ${port}; press Ctrl+C to stop`)
+    const duration = numberOption(options, "duration")
+    await untilStopped(duration === undefined ? undefined : duration * 1000)
+    socket.close()
+    return 0
+  },
+
+  async "osc-send"({ positional, options }) {
+    const [address, ...values] = positional
+    if (!address?.startsWith("/")) throw new UsageError("osc-send needs an OSC address such as /knob/mode")
+    if (options.host === true) throw new UsageError("--host needs a value")
+    const host = options.host ?? "127.0.0.1"
+    const port = numberOption(options, "osc-port", DEFAULT_OSC_CONFIG.listenPort)
+    const args = values.map((value) =>
+      value.trim() !== "" && Number.isFinite(Number(value))
+        ? { type: "f", value: Number(value) }
+        : { type: "s", value },
+    )
+
+    const socket = createSocket("udp4")
+    await new Promise<void>((resolve, reject) =>
+      socket.send(encodeMessage(address, args), port, host, (err) => (err ? reject(err) : resolve())),
+    )
+    socket.close()
+    print({ host, port, address, args: args.map((arg) => arg.value) })
+    return 0
+  },
+
+  async "run-sequence"({ positional, options }) {
+    const file = positional[0]
+    if (!file) throw new UsageError("run-sequence needs a sequence file")
+    const sequence = parseSequence(await readFile(file, "utf8"))
+
+    const { session } = await openSession(options)
+    // Telemetry runs throughout so wait-until steps have something to check
+    const buffer = new TelemetryBuffer()
+    session.on("telemetry", (point: TelemetryPoint) => buffer.push(point))
+    await session.startTelemetry(numberOption(options, "rate", DEFAULT_HAPTIC_CONFIG.telemetry.streamRateHz))
+
+    const runner = new SequenceRunner({
+      send: (command) => session.send(adaptForFirmware(session, command)),
+      latestTelemetry: () => buffer.latest(),
+      isModeSupported: (mode) => isModeSupported(mode, session.identity),
+    })
+    // One line per step started, then the final status
+    let lastStep = ""
+    runner.subscribe((status: SequenceStatus) => {
+      const step = status.step.join(" › ")
+      if (status.state === "running" && step && step !== lastStep) {
+        lastStep = step
+        print({ event: "step", elapsedMs: Math.round(status.elapsedMs), step: status.step })
+      }
+    })
+    const stop = () => runner.abort()
+    process.once("SIGINT", stop)
+
+    const status = await runner.run(sequence, pickHapticSettings(DEFAULT_HAPTIC_CONFIG))
+    process.off("SIGINT", stop)
+    print({ event: "end", name: sequence.name, state: status.state, elapsedMs: status.elapsedMs, error: status.error })
+    await session.close()
+    return status.state === "finished" ? 0 : 1
+  },
+}
+
+async function main(argv: string[]): Promise<number> {
+  const args = parseArgs(argv)
+  const [name, ...positional] = args.positional
+  if (!name || args.options.help) {
+    process.stdout.write(USAGE + "\n")
+    return name || args.options.help ? 0 : 2
+  }
+  const command = commands[name]
+  if (!command) throw new UsageError(`unknown command "${name}"`)
+  return command({ positional, options: args.options })
+}
+
+export function run(argv = process.argv.slice(2)) {
+  // The device manager logs its progress with console.log; stdout is kept for JSON
+  console.log = console.error
+  // A reader that stops early ends the command like Ctrl+C would, not with a write error
+  process.stdout.on("error", (error: NodeJS.ErrnoException) => {
+    if (isStdoutClosed) return
+    if (error.code !== "EPIPE") throw error
+    isStdoutClosed = true
+    const closing = openedSession ? openedSession.close().catch(() => {}) : Promise.resolve()
+    closing.then(() => process.exit(0))
+  })
+  main(argv).then(
+    (code) => process.exit(code),
+    (err) => {
+      if (err instanceof UsageError) {
+        note(`${err.message}\nRun "knobctl --help" for usage.`)
+        process.exit(2)
+      }
+      const message = err instanceof Error ? err.message : String(err)
+      process.stderr.write(JSON.stringify({ error: message }) + "\n")
+      process.exit(1)
+    },
+  )
+}
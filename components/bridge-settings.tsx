@@ -0,0 +1,151 @@
+"use client"
+import { useEffect, useState } from "react"
+import { Copy, RefreshCw } from "lucide-react"
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog"
+import type { WebSocketBridgeState } from "@/hooks/use-websocket-bridge"
+import { bridgeUrl, createBridgeToken, type BridgeConfig } from "@/lib/bridge-protocol"
+
+interface BridgeSettingsProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  bridge: WebSocketBridgeState
+}
+
+const smallButtonStyle = { padding: "0.15rem 0.5rem" }
+
+// Turns the WebSocket bridge on or off, picks its port and token, and lists connected clients
+export function BridgeSettings({ open, onOpenChange, bridge }: BridgeSettingsProps) {
+  const { config, status, saveConfig } = bridge
+  const [draft, setDraft] = useState<BridgeConfig | null>(config)
+  const [message, setMessage] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (open) {
+      setDraft(config)
+      setMessage(null)
+    }
+  }, [open, config])
+
+  if (!draft) return null
+
+  const isPortValid = Number.isInteger(draft.port) && draft.port >= 1024 && draft.port <= 65535
+  const isChanged = JSON.stringify(draft) !== JSON.stringify(config)
+
+  const handleApply = async () => {
+    setIsSaving(true)
+    setMessage(null)
+    try {
+      await saveConfig(draft)
+    } catch (err) {
+      console.error("Failed to apply WebSocket bridge settings:", err)
+      setMessage(err instanceof Error ? err.message : "Failed to apply settings")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const copyUrl = async () => {
+    try {
+      await navigator.clipboard.writeText(bridgeUrl(draft))
+      setMessage("Connection URL copied")
+    } catch (err) {
+      console.error("Failed to copy the bridge URL:", err)
+      setMessage("Failed to copy the URL")
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl bg-gray-900 border border-gray-700 text-white">
+        <DialogTitle>WebSocket Bridge</DialogTitle>
+        <p className="text-sm text-gray-400">
+          Lets other applications on this computer stream telemetry and send commands to connected devices. The
+          server only accepts connections from localhost that present the token.
+        </p>
+
+        <div className="space-y-3">
+          <div className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              id="bridge-enabled"
+              checked={draft.enabled}
+              onChange={(e) => setDraft({ ...draft, enabled: e.target.checked })}
+              className="w-4 h-4"
+            />
+            <label htmlFor="bridge-enabled" className="form-label mb-0">
+              Enable WebSocket bridge
+            </label>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <label htmlFor="bridge-port" className="form-label mb-0 w-16">
+              Port
+            </label>
+            <input
+              id="bridge-port"
+              type="number"
+              className="form-input text-sm px-2 py-1 w-28"
+              min={1024}
+              max={65535}
+              value={draft.port}
+              onChange={(e) => setDraft({ ...draft, port: Number(e.target.value) })}
+            />
+            {!isPortValid && <span className="text-xs text-red-400">Use a port between 1024 and 65535</span>}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <label htmlFor="bridge-token" className="form-label mb-0 w-16">
+              Token
+            </label>
+            <input id="bridge-token" className="form-input font-mono text-xs px-2 py-1 flex-1" value={draft.token} readOnly />
+            <button
+              className="btn btn-outline btn-sm"
+              title="Generate a new token; connected clients are dropped when applied"
+              onClick={() => setDraft({ ...draft, token: createBridgeToken() })}
+              style={smallButtonStyle}
+            >
+              <RefreshCw size={12} />
+            </button>
+          </div>
+
+          <div className="flex items-center gap-2 text-xs text-gray-400">
+            <code className="flex-1 truncate text-yellow-400">{bridgeUrl(draft)}</code>
+            <button className="btn btn-outline btn-sm" onClick={copyUrl} style={smallButtonStyle}>
+              <Copy size={12} className="mr-1" />
+              Copy URL
+            </button>
+          </div>
+
+          <div className="rounded border border-gray-700 bg-black/30 px-2 py-1 text-xs">
+            <div className="text-gray-400">
+              {status.running ? `Listening on 127.0.0.1:${status.port}` : "Not running"}
+              {status.running && ` · ${status.clients.length} client${status.clients.length === 1 ? "" : "s"}`}
+            </div>
+            {status.clients.map((client) => (
+              <div key={client.id} className="font-mono">
+                {client.id}:{" "}
+                {client.devices.length === 0
+                  ? "not subscribed"
+                  : `${client.devices.join(", ")}${client.rateHz > 0 ? ` at ${client.rateHz} Hz` : ""}`}
+              </div>
+            ))}
+            {status.error && <div className="text-red-400">{status.error}</div>}
+          </div>
+
+          <div className="flex items-center justify-end gap-2">
+            {message && <span className="flex-1 text-xs text-gray-400">{message}</span>}
+            <button
+              className="btn btn-primary btn-sm"
+              onClick={handleApply}
+              disabled={!isChanged || !isPortValid || isSaving}
+              style={smallButtonStyle}
+            >
+              Apply
+            </button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
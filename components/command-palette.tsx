@@ -0,0 +1,73 @@
+"use client"
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from "@/components/ui/command"
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog"
+
+export interface PaletteAction {
+  id: string
+  label: string
+  group: string
+  run: () => unknown
+  disabled?: boolean
+  // Extra words the fuzzy search should match, e.g. "knob" for device type actions
+  keywords?: string[]
+  shortcut?: string
+}
+
+interface CommandPaletteProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  actions: PaletteAction[]
+}
+
+// Fuzzy-searchable list of every action; runs the chosen one and closes
+export function CommandPalette({ open, onOpenChange, actions }: CommandPaletteProps) {
+  // Groups keep the order in which their first action appears
+  const groups = actions.reduce<Map<string, PaletteAction[]>>((grouped, action) => {
+    grouped.set(action.group, [...(grouped.get(action.group) ?? []), action])
+    return grouped
+  }, new Map())
+
+  const runAction = (action: PaletteAction) => {
+    onOpenChange(false)
+    action.run()
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="overflow-hidden p-0 bg-gray-900 border border-gray-700 text-white">
+        <DialogTitle className="sr-only">Command palette</DialogTitle>
+        <Command className="bg-gray-900 text-white">
+          <CommandInput placeholder="Type a command or search..." className="text-white" />
+          <CommandList className="max-h-[360px] overflow-y-auto">
+            <CommandEmpty className="py-6 text-center text-sm text-gray-400">No matching commands</CommandEmpty>
+            {Array.from(groups.entries()).map(([group, groupActions]) => (
+              <CommandGroup key={group} heading={group} className="px-2 text-gray-400">
+                {groupActions.map((action) => (
+                  <CommandItem
+                    key={action.id}
+                    // cmdk filters on the value, so the group and keywords make them searchable
+                    value={[group, action.label, ...(action.keywords ?? [])].join(" ")}
+                    disabled={action.disabled}
+                    onSelect={() => runAction(action)}
+                    className="text-white data-[selected=true]:bg-gray-800"
+                  >
+                    {action.label}
+                    {action.shortcut && <CommandShortcut className="text-gray-500">{action.shortcut}</CommandShortcut>}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            ))}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  )
+}
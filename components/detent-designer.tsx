@@ -0,0 +1,209 @@
+"use client"
+import { useEffect, useState } from "react"
+import { Plus, RotateCcw, Send, Trash2, Wand2 } from "lucide-react"
+import type { CustomDetent } from "@/lib/protocol"
+import {
+  DEFAULT_DETENT_PATTERN,
+  MAX_CUSTOM_DETENTS,
+  detentOverlapWarnings,
+  detentTableProblems,
+  generateDetents,
+  largestGapAngle,
+  normalizeDetents,
+  sameDetents,
+  type DetentPattern,
+} from "@/lib/detent-design"
+
+interface DetentDesignerProps {
+  // The applied table, i.e. what the device has (or gets on connect)
+  detents: CustomDetent[]
+  // Receives the draft while it differs from the applied table, so the dial can preview it
+  onPreview: (detents: CustomDetent[] | null) => void
+  onApply: (detents: CustomDetent[]) => void
+}
+
+const smallButtonStyle = { padding: "0.15rem 0.5rem" }
+const cellInputClass = "form-input text-xs px-1 py-0.5 w-full"
+
+// Edits a draft detent table: generate an evenly spaced pattern, then tweak single detents
+export function DetentDesigner({ detents, onPreview, onApply }: DetentDesignerProps) {
+  const [pattern, setPattern] = useState<DetentPattern>(DEFAULT_DETENT_PATTERN)
+  const [draft, setDraft] = useState<CustomDetent[]>(detents)
+
+  // Applying (or loading a preset or configuration) replaces the draft
+  useEffect(() => {
+    setDraft(detents)
+  }, [detents])
+
+  const isDirty = !sameDetents(draft, detents)
+
+  useEffect(() => {
+    onPreview(isDirty ? draft : null)
+  }, [draft, isDirty, onPreview])
+
+  useEffect(() => () => onPreview(null), [onPreview])
+
+  const problems = detentTableProblems(draft)
+  const warnings = detentOverlapWarnings(draft)
+
+  const updatePattern = (updates: Partial<DetentPattern>) => setPattern((prev) => ({ ...prev, ...updates }))
+
+  const updateDetent = (index: number, field: keyof CustomDetent, value: string) => {
+    setDraft((prev) =>
+      prev.map((detent, i) => (i === index ? { ...detent, [field]: Number.parseFloat(value) || 0 } : detent)),
+    )
+  }
+
+  const addDetent = () => {
+    setDraft((prev) => [
+      ...prev,
+      { angle: largestGapAngle(prev), strength: pattern.strength, width: pattern.width },
+    ])
+  }
+
+  const patternInput = (label: string, field: keyof Omit<DetentPattern, "spacingMode">, step: number) => (
+    <div className="form-control">
+      <label className="form-label text-xs">{label}</label>
+      <input
+        type="number"
+        className="form-input text-sm px-2 py-1"
+        step={step}
+        value={pattern[field]}
+        onChange={(e) => updatePattern({ [field]: Number.parseFloat(e.target.value) || 0 })}
+      />
+    </div>
+  )
+
+  return (
+    <div className="flex flex-col space-y-3 w-full" style={{ maxWidth: 560, margin: "0 auto" }}>
+      <div className="grid grid-cols-4 gap-2 items-end">
+        <div className="form-control">
+          <select
+            className="form-select text-xs px-1 py-1"
+            value={pattern.spacingMode}
+            onChange={(e) => updatePattern({ spacingMode: e.target.value as DetentPattern["spacingMode"] })}
+          >
+            <option value="count">Count per turn</option>
+            <option value="spacing">Spacing (°)</option>
+          </select>
+          {pattern.spacingMode === "count" ? (
+            <input
+              type="number"
+              className="form-input text-sm px-2 py-1"
+              min="1"
+              max={MAX_CUSTOM_DETENTS}
+              step="1"
+              value={pattern.count}
+              onChange={(e) => updatePattern({ count: Number.parseInt(e.target.value) || 1 })}
+            />
+          ) : (
+            <input
+              type="number"
+              className="form-input text-sm px-2 py-1"
+              min="1"
+              step="1"
+              value={pattern.spacing}
+              onChange={(e) => updatePattern({ spacing: Number.parseFloat(e.target.value) || 1 })}
+            />
+          )}
+        </div>
+        {patternInput("Strength (Nm)", "strength", 0.05)}
+        {patternInput("Width (°)", "width", 1)}
+        {patternInput("First at (°)", "offset", 5)}
+        {patternInput("Heavier every", "accentEvery", 1)}
+        {patternInput("Heavy strength", "accentStrength", 0.05)}
+        {patternInput("Heavy width (°)", "accentWidth", 1)}
+        <button
+          className="btn btn-outline btn-sm"
+          onClick={() => setDraft(generateDetents(pattern))}
+          title="Replace the table with this pattern"
+          style={smallButtonStyle}
+        >
+          <Wand2 size={12} className="mr-1" />
+          Generate
+        </button>
+      </div>
+
+      <div className="max-h-48 overflow-y-auto border border-gray-700 rounded">
+        <table className="w-full text-xs">
+          <thead className="text-gray-400">
+            <tr>
+              <th className="text-left font-normal px-2 py-1">#</th>
+              <th className="text-left font-normal px-1">Angle (°)</th>
+              <th className="text-left font-normal px-1">Strength (Nm)</th>
+              <th className="text-left font-normal px-1">Width (°)</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {draft.map((detent, index) => (
+              <tr key={index}>
+                <td className="px-2 text-gray-500">{index + 1}</td>
+                {(["angle", "strength", "width"] as const).map((field) => (
+                  <td key={field} className="px-1 py-0.5">
+                    <input
+                      type="number"
+                      className={cellInputClass}
+                      step={field === "strength" ? 0.05 : 1}
+                      value={detent[field]}
+                      onChange={(e) => updateDetent(index, field, e.target.value)}
+                    />
+                  </td>
+                ))}
+                <td className="px-1">
+                  <button
+                    className="btn btn-sm"
+                    title="Remove detent"
+                    onClick={() => setDraft((prev) => prev.filter((_, i) => i !== index))}
+                    style={{ padding: "0.1rem 0.3rem" }}
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {[...problems, ...warnings].map((message) => (
+        <div key={message} className={`text-xs ${problems.includes(message) ? "text-red-400" : "text-yellow-400"}`}>
+          {message}
+        </div>
+      ))}
+
+      <div className="flex items-center gap-2">
+        <button
+          className="btn btn-outline btn-sm"
+          onClick={addDetent}
+          disabled={draft.length >= MAX_CUSTOM_DETENTS}
+          style={smallButtonStyle}
+        >
+          <Plus size={12} className="mr-1" />
+          Add detent
+        </button>
+        <span className="text-xs text-gray-400 flex-1">
+          {draft.length} detents{isDirty ? " · previewing on the dial" : ""}
+        </span>
+        <button
+          className="btn btn-outline btn-sm"
+          onClick={() => setDraft(detents)}
+          disabled={!isDirty}
+          style={smallButtonStyle}
+        >
+          <RotateCcw size={12} className="mr-1" />
+          Revert
+        </button>
+        <button
+          className="btn btn-primary btn-sm"
+          onClick={() => onApply(normalizeDetents(draft))}
+          disabled={!isDirty || problems.length > 0}
+          style={smallButtonStyle}
+        >
+          <Send size={12} className="mr-1" />
+          Apply
+        </button>
+      </div>
+    </div>
+  )
+}
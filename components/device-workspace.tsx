@@ -0,0 +1,95 @@
+"use client"
+import { useEffect, useState } from "react"
+import { Plus, X } from "lucide-react"
+import { MiniTFDControl, type ControlSurfaceStatus } from "@/components/mini-tfd-control"
+import { clearSessionState, loadSurfaceIds, saveSurfaceIds } from "@/lib/session-state"
+
+// One control surface per device; hidden surfaces stay mounted so their devices keep running
+export function DeviceWorkspace() {
+  const [surfaceIds, setSurfaceIds] = useState<string[]>(["1"])
+  const [activeId, setActiveId] = useState("1")
+  const [statuses, setStatuses] = useState<Record<string, ControlSurfaceStatus>>({})
+  const [isRestored, setIsRestored] = useState(false)
+
+  useEffect(() => {
+    const ids = loadSurfaceIds()
+    setSurfaceIds(ids)
+    setActiveId(ids[0])
+    setIsRestored(true)
+  }, [])
+
+  useEffect(() => {
+    if (isRestored) saveSurfaceIds(surfaceIds)
+  }, [surfaceIds, isRestored])
+
+  const addSurface = () => {
+    const nextId = String(Math.max(0, ...surfaceIds.map((id) => Number.parseInt(id) || 0)) + 1)
+    setSurfaceIds([...surfaceIds, nextId])
+    setActiveId(nextId)
+  }
+
+  // Unmounting the surface disconnects its device
+  const closeSurface = (id: string) => {
+    const remaining = surfaceIds.filter((surfaceId) => surfaceId !== id)
+    setSurfaceIds(remaining)
+    clearSessionState(id)
+    if (activeId === id) setActiveId(remaining[0])
+  }
+
+  const tabLabel = (id: string, index: number) => {
+    const status = statuses[id]
+    const deviceType = status?.deviceType === "steering-wheel" ? "Wheel" : "Knob"
+    return status?.selectedPort ? `${deviceType} · ${status.selectedPort}` : `Device ${index + 1}`
+  }
+
+  // Wait for the stored surface list so each surface restores its own session on mount
+  if (!isRestored) return null
+
+  return (
+    <div className="flex flex-col h-screen w-screen overflow-hidden bg-gray-900 text-white">
+      <div className="flex items-center gap-1 px-2 pt-1 border-b border-gray-800 bg-gray-950">
+        {surfaceIds.map((id, index) => (
+          <div
+            key={id}
+            className={`flex items-center gap-2 px-3 py-1 rounded-t text-xs cursor-pointer ${
+              id === activeId ? "bg-gray-900 text-yellow-400" : "text-gray-400 hover:text-white"
+            }`}
+            onClick={() => setActiveId(id)}
+          >
+            <span
+              className={`inline-block w-2 h-2 rounded-full ${statuses[id]?.isConnected ? "bg-green-500" : "bg-gray-600"}`}
+            />
+            <span>{tabLabel(id, index)}</span>
+            {surfaceIds.length > 1 && (
+              <button
+                className="text-gray-500 hover:text-white"
+                title="Close (disconnects this device)"
+                onClick={(e) => {
+                  e.stopPropagation()
+                  closeSurface(id)
+                }}
+              >
+                <X size={12} />
+              </button>
+            )}
+          </div>
+        ))}
+        <button className="px-2 py-1 text-gray-400 hover:text-white" title="Add device" onClick={addSurface}>
+          <Plus size={14} />
+        </button>
+      </div>
+
+      <div className="flex-1 min-h-0">
+        {surfaceIds.map((id) => (
+          <div key={id} className={id === activeId ? "h-full" : "hidden"}>
+            <MiniTFDControl
+              surfaceId={id}
+              isActive={id === activeId}
+              onStatusChange={(status) => setStatuses((prev) => ({ ...prev, [id]: status }))}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,201 @@
+"use client"
+import { useState } from "react"
+import type { HapticMode } from "@/lib/protocol"
+import { SETTING_RANGES } from "@/lib/haptic-config"
+import {
+  MIN_ENDSTOP_SPAN_DEGREES,
+  clamp,
+  dialPoint,
+  pointerAngle,
+  snapAngle,
+  unwrapAngle,
+} from "@/lib/dial-geometry"
+
+type DialHandle = "target" | "endstop-min" | "endstop-max"
+
+interface DialHandlesProps {
+  mode: HapticMode
+  targetAngle: number
+  endstopMinAngle: number
+  endstopMaxAngle: number
+  // Widest range the endstop markers may be dragged apart, in degrees
+  maxEndstopSpan: number
+  // Radius of the target handle; the endstop markers run outwards from the rim, with the
+  // minimum's grip on their inner end and the maximum's on the outer end so coinciding
+  // markers (a whole number of turns) can both be grabbed
+  targetRadius: number
+  rimRadius: number
+  onTargetAngleChange: (angle: number) => void
+  onEndstopRangeChange: (minAngle: number, maxAngle: number) => void
+}
+
+interface DragState {
+  handle: DialHandle
+  // Unsnapped multi-turn angle under the pointer, so slow drags don't stick to a snap step
+  rawAngle: number
+  value: number
+}
+
+const [angleMin, angleMax] = SETTING_RANGES.targetAngle
+
+const ENDSTOP_MARKER_LENGTH = 20
+
+// Draggable target and endstop handles, drawn inside the dial's SVG. Values only preview while
+// dragging; the change is handed to the parent (and so sent to the device) on release.
+export function DialHandles({
+  mode,
+  targetAngle,
+  endstopMinAngle,
+  endstopMaxAngle,
+  maxEndstopSpan,
+  targetRadius,
+  rimRadius,
+  onTargetAngleChange,
+  onEndstopRangeChange,
+}: DialHandlesProps) {
+  const [drag, setDrag] = useState<DragState | null>(null)
+
+  if (mode !== "proportional-control" && mode !== "endstops") return null
+
+  const committedValue = (handle: DialHandle) =>
+    handle === "target" ? targetAngle : handle === "endstop-min" ? endstopMinAngle : endstopMaxAngle
+
+  const constrain = (handle: DialHandle, angle: number) => {
+    const snapped = snapAngle(angle)
+    if (handle === "target") return clamp(snapped, angleMin, angleMax)
+    if (handle === "endstop-min") {
+      return clamp(
+        snapped,
+        Math.max(angleMin, endstopMaxAngle - maxEndstopSpan),
+        endstopMaxAngle - MIN_ENDSTOP_SPAN_DEGREES,
+      )
+    }
+    return clamp(
+      snapped,
+      endstopMinAngle + MIN_ENDSTOP_SPAN_DEGREES,
+      Math.min(angleMax, endstopMinAngle + maxEndstopSpan),
+    )
+  }
+
+  const handlePointerDown = (handle: DialHandle, event: React.PointerEvent<SVGElement>) => {
+    if (event.button !== 0) return
+    event.preventDefault()
+    event.currentTarget.setPointerCapture(event.pointerId)
+    const value = committedValue(handle)
+    setDrag({ handle, rawAngle: value, value })
+  }
+
+  const handlePointerMove = (event: React.PointerEvent<SVGElement>) => {
+    const svg = event.currentTarget.ownerSVGElement
+    if (!drag || !svg) return
+    const pointer = pointerAngle(svg, event.clientX, event.clientY)
+    if (pointer === null) return
+    const rawAngle = unwrapAngle(drag.rawAngle, pointer)
+    setDrag({ ...drag, rawAngle, value: constrain(drag.handle, rawAngle) })
+  }
+
+  const handlePointerUp = () => {
+    if (!drag) return
+    setDrag(null)
+    if (drag.value === committedValue(drag.handle)) return
+    if (drag.handle === "target") {
+      onTargetAngleChange(drag.value)
+    } else if (drag.handle === "endstop-min") {
+      onEndstopRangeChange(drag.value, endstopMaxAngle)
+    } else {
+      onEndstopRangeChange(endstopMinAngle, drag.value)
+    }
+  }
+
+  const handleProps = (handle: DialHandle) => ({
+    onPointerDown: (event: React.PointerEvent<SVGElement>) => handlePointerDown(handle, event),
+    onPointerMove: handlePointerMove,
+    onPointerUp: handlePointerUp,
+    // Lost capture (e.g. the window lost focus) abandons the drag without sending anything
+    onPointerCancel: () => setDrag(null),
+    style: { cursor: drag?.handle === handle ? "grabbing" : "grab", touchAction: "none" },
+  })
+
+  const valueOf = (handle: DialHandle) => (drag?.handle === handle ? drag.value : committedValue(handle))
+
+  if (mode === "proportional-control") {
+    const value = valueOf("target")
+    const handle = dialPoint(value, targetRadius)
+    const label = dialPoint(value, targetRadius - 30)
+    return (
+      <g>
+        <line
+          x1={dialPoint(value, targetRadius - 14).x}
+          y1={dialPoint(value, targetRadius - 14).y}
+          x2={dialPoint(value, 40).x}
+          y2={dialPoint(value, 40).y}
+          stroke="#eab308"
+          strokeWidth={1}
+          strokeDasharray="4 4"
+          opacity={0.5}
+        />
+        <circle
+          cx={handle.x}
+          cy={handle.y}
+          r={12}
+          fill="#eab308"
+          fillOpacity={drag ? 0.5 : 0.2}
+          stroke="#eab308"
+          strokeWidth={3}
+          {...handleProps("target")}
+        >
+          <title>Drag to set the target angle</title>
+        </circle>
+        <text x={label.x} y={label.y + 4} textAnchor="middle" fill="#eab308" fontSize="12" pointerEvents="none">
+          {value.toFixed(0)}°
+        </text>
+      </g>
+    )
+  }
+
+  const renderEndstopGrip = (handle: "endstop-min" | "endstop-max") => {
+    const value = valueOf(handle)
+    const isDragging = drag?.handle === handle
+    const grip = dialPoint(value, handle === "endstop-min" ? rimRadius : rimRadius + ENDSTOP_MARKER_LENGTH)
+    const label = dialPoint(value, rimRadius - 35)
+    return (
+      <g key={handle}>
+        {isDragging && (
+          <>
+            <line
+              x1={dialPoint(value, rimRadius - 25).x}
+              y1={dialPoint(value, rimRadius - 25).y}
+              x2={dialPoint(value, rimRadius + ENDSTOP_MARKER_LENGTH).x}
+              y2={dialPoint(value, rimRadius + ENDSTOP_MARKER_LENGTH).y}
+              stroke="red"
+              strokeWidth={4}
+              strokeDasharray="4 3"
+            />
+            <text x={label.x} y={label.y + 4} textAnchor="middle" fill="red" fontSize="13" fontWeight="bold">
+              {value.toFixed(0)}°
+            </text>
+          </>
+        )}
+        <circle
+          cx={grip.x}
+          cy={grip.y}
+          r={9}
+          fill="red"
+          fillOpacity={isDragging ? 0.9 : 0.6}
+          stroke="white"
+          strokeWidth={2}
+          {...handleProps(handle)}
+        >
+          <title>Drag to move the {handle === "endstop-min" ? "minimum" : "maximum"} endstop</title>
+        </circle>
+      </g>
+    )
+  }
+
+  return (
+    <g>
+      {renderEndstopGrip("endstop-min")}
+      {renderEndstopGrip("endstop-max")}
+    </g>
+  )
+}
@@ -0,0 +1,172 @@
+"use client"
+import { useState } from "react"
+import { RotateCcw, X } from "lucide-react"
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog"
+import type { KeymapLibrary } from "@/hooks/use-keymap"
+import {
+  KEYMAP_ACTIONS,
+  RESERVED_CHORDS,
+  chordFromEvent,
+  findConflicts,
+  formatChord,
+  type KeyChord,
+} from "@/lib/keymap"
+
+interface KeymapSettingsProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  library: KeymapLibrary
+}
+
+// A chord that is already bound elsewhere, waiting for the user to confirm taking it over
+interface PendingBinding {
+  actionId: string
+  chord: KeyChord
+  takenFrom: string
+}
+
+const actionLabel = (actionId: string) => KEYMAP_ACTIONS.find((action) => action.id === actionId)?.label ?? actionId
+
+const groups = Array.from(new Set(KEYMAP_ACTIONS.map((action) => action.group)))
+
+// Lists every bindable action; click a binding and press the new keys to rebind it
+export function KeymapSettings({ open, onOpenChange, library }: KeymapSettingsProps) {
+  const { keymap, overrides, setBinding, resetBinding, resetAll } = library
+  const [capturingId, setCapturingId] = useState<string | null>(null)
+  const [pending, setPending] = useState<PendingBinding | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const conflicts = findConflicts(keymap)
+
+  const handleCaptureKey = (actionId: string, event: React.KeyboardEvent) => {
+    event.preventDefault()
+    event.stopPropagation()
+    if (event.key === "Escape") {
+      setCapturingId(null)
+      return
+    }
+
+    const chord = chordFromEvent(event)
+    if (!chord) return
+    setCapturingId(null)
+
+    if (RESERVED_CHORDS[chord]) {
+      setMessage(`${formatChord(chord)} is used by the menu (${RESERVED_CHORDS[chord]})`)
+      return
+    }
+
+    const takenFrom = Object.keys(keymap).find((otherId) => otherId !== actionId && keymap[otherId] === chord)
+    if (takenFrom) {
+      setPending({ actionId, chord, takenFrom })
+      return
+    }
+
+    setBinding(actionId, chord)
+  }
+
+  const startCapture = (actionId: string) => {
+    setCapturingId(actionId)
+    setPending(null)
+    setMessage(null)
+  }
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setCapturingId(null)
+    setPending(null)
+    setMessage(null)
+    onOpenChange(isOpen)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-xl bg-gray-900 border border-gray-700 text-white">
+        <DialogTitle>Keyboard Shortcuts</DialogTitle>
+
+        {message && <div className="text-xs text-yellow-400">{message}</div>}
+        {pending && (
+          <div className="flex items-center gap-2 text-xs text-yellow-400">
+            <span className="flex-1">
+              {formatChord(pending.chord)} is already used by {actionLabel(pending.takenFrom)}.
+            </span>
+            <button
+              className="btn btn-primary btn-sm"
+              onClick={() => {
+                setBinding(pending.actionId, pending.chord)
+                setPending(null)
+              }}
+              style={{ padding: "0.15rem 0.5rem" }}
+            >
+              Replace
+            </button>
+            <button
+              className="btn btn-outline btn-sm"
+              onClick={() => setPending(null)}
+              style={{ padding: "0.15rem 0.5rem" }}
+            >
+              Cancel
+            </button>
+          </div>
+        )}
+
+        <div className="max-h-[60vh] overflow-y-auto space-y-3 pr-1">
+          {groups.map((group) => (
+            <div key={group}>
+              <div className="text-xs font-semibold text-gray-400 mb-1">{group}</div>
+              {KEYMAP_ACTIONS.filter((action) => action.group === group).map((action) => {
+                const chord = keymap[action.id]
+                const conflictingIds = chord ? (conflicts.get(chord) ?? []).filter((id) => id !== action.id) : []
+                const isConflicting = conflictingIds.length > 0
+                const isCapturing = capturingId === action.id
+
+                return (
+                  <div key={action.id} className="flex items-center gap-2 py-0.5 text-sm">
+                    <span className="flex-1 min-w-0 truncate">{action.label}</span>
+                    <button
+                      className={`btn btn-sm font-mono ${isCapturing ? "btn-primary" : "btn-outline"}`}
+                      onClick={() => startCapture(action.id)}
+                      onKeyDown={isCapturing ? (event) => handleCaptureKey(action.id, event) : undefined}
+                      onBlur={() => isCapturing && setCapturingId(null)}
+                      title={isConflicting ? `Also bound to ${conflictingIds.map(actionLabel).join(", ")}` : undefined}
+                      style={{
+                        minWidth: 120,
+                        padding: "0.15rem 0.5rem",
+                        color: isConflicting ? "#ef4444" : undefined,
+                      }}
+                    >
+                      {isCapturing ? "Press keys..." : chord ? formatChord(chord) : "Unbound"}
+                    </button>
+                    <button
+                      className="btn btn-sm"
+                      title="Unbind"
+                      onClick={() => setBinding(action.id, null)}
+                      disabled={chord === null}
+                      style={{ padding: "0.1rem 0.3rem" }}
+                    >
+                      <X size={12} />
+                    </button>
+                    <button
+                      className="btn btn-sm"
+                      title={`Reset to default (${action.defaultChord ? formatChord(action.defaultChord) : "unbound"})`}
+                      onClick={() => resetBinding(action.id)}
+                      disabled={!(action.id in overrides)}
+                      style={{ padding: "0.1rem 0.3rem" }}
+                    >
+                      <RotateCcw size={12} />
+                    </button>
+                  </div>
+                )
+              })}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-between items-center text-xs text-gray-500">
+          <span>Keys without Ctrl or Alt are ignored while typing in a field.</span>
+          <button className="btn btn-outline btn-sm" onClick={resetAll} style={{ padding: "0.15rem 0.5rem" }}>
+            Reset all
+          </button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
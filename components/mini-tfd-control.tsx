@@ -1,5 +1,5 @@
 "use client"
-import { useState, useEffect, useRef } from "react"
+import { useState, useEffect, useRef, useCallback } from "react"
 import {
   ArrowRight,
   Lock,
@@ -17,9 +17,101 @@ import {
   ChevronDown,
   ChevronUp,
   Link2Icon,
+  Circle,
+  Square,
+  Flag,
+  Download,
+  LineChart,
+  Terminal,
+  Keyboard,
+  SlidersHorizontal,
+  Radio,
+  Music2,
 } from "lucide-react"
 import { ScrollArea } from "@/components/ui/scroll-area"
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from "@/components/ui/resizable"
+import { TelemetryCharts } from "@/components/telemetry-charts"
+import { TorqueAnglePlot } from "@/components/torque-angle-plot"
+import { PresetsPanel } from "@/components/presets-panel"
+import { SerialConsole } from "@/components/serial-console"
+import { DialHandles } from "@/components/dial-handles"
+import { DetentDesigner } from "@/components/detent-designer"
+import { CommandPalette, type PaletteAction } from "@/components/command-palette"
+import { KeymapSettings } from "@/components/keymap-settings"
+import { SequencerPanel } from "@/components/sequencer-panel"
+import { ScriptEditor } from "@/components/script-editor"
+import { BridgeSettings } from "@/components/bridge-settings"
+import { OscSettings } from "@/components/osc-settings"
+import { usePresets } from "@/hooks/use-presets"
+import { useKeymap } from "@/hooks/use-keymap"
+import { useTestScripts } from "@/hooks/use-test-scripts"
+import { useWebSocketBridge } from "@/hooks/use-websocket-bridge"
+import { useOsc } from "@/hooks/use-osc"
 import { Switch } from "@radix-ui/react-switch";
+import {
+  LINE_TERMINATOR,
+  PROTOCOL_VERSION,
+  commandsForSettings,
+  decodeLine,
+  encodeCommand,
+  endstopRange,
+  endstopSpan,
+  isModeSupported,
+  pickHapticSettings,
+  supportsEndstopOffset,
+  type CustomDetent,
+  type DeviceIdentity,
+  type DeviceType,
+  type EndstopMode,
+  type HapticMode,
+  type HapticSettings,
+} from "@/lib/protocol"
+import { CommandError, CommandQueue } from "@/lib/command-queue"
+import { TelemetryStats, type TelemetryMode, type TelemetryStatsSnapshot } from "@/lib/telemetry-stats"
+import { TelemetryRecorder, type RecorderStatus } from "@/lib/telemetry-recorder"
+import { TelemetryBuffer } from "@/lib/telemetry-buffer"
+import { SerialConsoleLog } from "@/lib/serial-console"
+import { DIAL_DETENT_COUNTS } from "@/lib/haptic-profile"
+import { dialPoint } from "@/lib/dial-geometry"
+import { DEFAULT_CUSTOM_DETENTS } from "@/lib/detent-design"
+import {
+  EXAMPLE_SEQUENCE,
+  SequenceRunner,
+  parseSequence,
+  serializeSequence,
+  type HapticSequence,
+  type SequenceRunnerOptions,
+  type SequenceStatus,
+} from "@/lib/sequencer"
+import { ScriptRunner, type ScriptStatus, type TestScript } from "@/lib/script-runner"
+import { parseBridgeRequest } from "@/lib/bridge-protocol"
+import { settingsForOscInput } from "@/lib/osc"
+import {
+  DEFAULT_HAPTIC_CONFIG,
+  SETTING_RANGES,
+  parseConfig,
+  serializeConfig,
+  type HapticConfig,
+  type RawConfig,
+} from "@/lib/haptic-config"
+import {
+  NUDGE_STEPS,
+  actionForChord,
+  chordFromEvent,
+  chordHasCommandModifier,
+  formatChord,
+  type KeymapCommand,
+  type NudgeParameter,
+} from "@/lib/keymap"
+import { loadSessionState, saveSessionState } from "@/lib/session-state"
+import {
+  ConnectionMachine,
+  findDevicePort,
+  isPortOpen,
+  type ConnectionEvent,
+  type ConnectionState,
+  type DeviceFingerprint,
+} from "@/lib/connection-machine"
 
 // Constants for product ID persistence
 const DEFAULT_PRODUCT_ID = "1002";
@@ -36,43 +128,33 @@ const setLastProductId = (productId: string) => {
   localStorage.setItem(LAST_PRODUCT_ID_KEY, productId);
 };
 
-type HapticMode =
-  | "none"
-  | "soft-detents"
-  | "medium-detents"
-  | "rough-detents"
-  | "clockwise"
-  | "counterclockwise"
-  | "increased-torque"
-  | "lock"
-  | "endstops"
-  | "center-detent"
-  | "proportional-control"
-  | "inertial-control"
-  | "latch"
-
-type DeviceType = "knob" | "steering-wheel"
-
-type EndstopMode = "none" | "proportional" | "soft" | "medium" | "rough" | "center"
-
-interface TFDState {
-  mode: HapticMode
+// USB serial number of the last connected device, which tells identical products apart
+const LAST_SERIAL_NUMBER_KEY = "lastConnectedSerialNumber";
+
+const getLastSerialNumber = (): string | undefined => {
+  if (typeof window === 'undefined') return undefined;
+  return localStorage.getItem(LAST_SERIAL_NUMBER_KEY) || undefined;
+};
+
+const setLastSerialNumber = (serialNumber: string) => {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(LAST_SERIAL_NUMBER_KEY, serialNumber);
+};
+
+interface TFDState extends HapticSettings {
   currentAngle: number
   currentVelocity: number
   currentTorque: number
-  torque: number
-  stiffness: number
-  targetAngle: number
   selectedPort: string
   baudRate: number
   isPolling: boolean
   pollInterval: number
+  telemetryMode: TelemetryMode
+  streamRate: number
   endstopTurns: number
   endstopMinAngle: number
   endstopMaxAngle: number
   deviceType: DeviceType
-  endstopMode: EndstopMode
-  isSticky: boolean
 }
 
 interface SerialPortInfo {
@@ -100,29 +182,26 @@ const hapticModes: { id: HapticMode; label: string; icon: any; devices: DeviceTy
   { id: "proportional-control", label: "Proportional Control", icon: Settings, devices: ["knob", "steering-wheel"] },
   { id: "inertial-control", label: "Inertial Control", icon: Gauge, devices: ["steering-wheel"] },
   { id: "latch", label: "Latch", icon: Link2Icon, devices: ["knob"] },
+  { id: "custom-detents", label: "Custom Detents", icon: SlidersHorizontal, devices: ["knob", "steering-wheel"] },
 ]
 
 const baudRates = [9600, 19200, 38400, 57600, 115200, 230400, 460800, 921600]
 
-// Add type declaration for window.electronAPI
-declare global {
-  interface Window {
-    electronAPI?: {
-      serialListPorts: () => Promise<SerialPortInfo[]>
-      serialConnect: (portPath: string, baudRate: number) => Promise<{ success: boolean; error?: string }>
-      serialDisconnect: () => Promise<{ success: boolean; error?: string }>
-      serialWrite: (data: string) => Promise<{ success: boolean; error?: string }>
-      onSerialData: (callback: (event: any, data: string) => void) => void
-      onSerialError: (callback: (event: any, error: string) => void) => void
-      onSerialDisconnected: (callback: () => void) => void
-      onScanPorts: (callback: () => void) => void
-      onConnectDevice: (callback: () => void) => void
-      onDisconnectDevice: (callback: () => void) => void
-      onResetDevice: (callback: () => void) => void
-      onCalibrateDevice: (callback: () => void) => void
-      removeAllListeners?: (event: string) => void
-    }
-  }
+// Connection timing: how long a freshly opened device may take to answer, how long the device
+// may stay silent before it is probed (and stalled after a second silent spell), and how long
+// a stall lasts before reconnecting
+const GRACE_PERIOD_MS = 2000
+const STALL_TIMEOUT_MS = 2000
+const STALL_RECONNECT_MS = 3000
+
+const connectionStateLabels: Record<ConnectionState, string> = {
+  idle: "Disconnected",
+  connecting: "Connecting...",
+  grace: "Waiting for device...",
+  live: "Connected",
+  stalled: "Device not responding",
+  reconnecting: "Reconnecting...",
+  failed: "Connection failed",
 }
 
 // Add CollapsibleSection component before MiniTFDControl
@@ -130,10 +209,18 @@ interface CollapsibleSectionProps {
   title: string
   children: React.ReactNode
   defaultExpanded?: boolean
+  // Controlled mode, used to remember expanded sections across restarts
+  isExpanded?: boolean
+  onToggle?: (isExpanded: boolean) => void
 }
 
-function CollapsibleSection({ title, children, defaultExpanded = true }: CollapsibleSectionProps) {
-  const [isExpanded, setIsExpanded] = useState(defaultExpanded)
+function CollapsibleSection({ title, children, defaultExpanded = true, ...controlled }: CollapsibleSectionProps) {
+  const [isExpandedState, setIsExpandedState] = useState(defaultExpanded)
+  const isExpanded = controlled.isExpanded ?? isExpandedState
+  const setIsExpanded = (expanded: boolean) => {
+    setIsExpandedState(expanded)
+    controlled.onToggle?.(expanded)
+  }
 
   return (
     <div className="sidebar-group">
@@ -153,7 +240,21 @@ function CollapsibleSection({ title, children, defaultExpanded = true }: Collaps
   )
 }
 
-export function MiniTFDControl() {
+export interface ControlSurfaceStatus {
+  deviceType: DeviceType
+  selectedPort: string
+  isConnected: boolean
+}
+
+interface MiniTFDControlProps {
+  // Identifies this control surface when several devices are driven at once
+  surfaceId?: string
+  // Only the visible surface reacts to application menu commands
+  isActive?: boolean
+  onStatusChange?: (status: ControlSurfaceStatus) => void
+}
+
+export function MiniTFDControl({ surfaceId = "1", isActive = true, onStatusChange }: MiniTFDControlProps = {}) {
   // State
   const [state, setState] = useState<TFDState>({
     mode: "none",
@@ -167,15 +268,20 @@ export function MiniTFDControl() {
     baudRate: 115200,
     isPolling: true,
     pollInterval: 20,
+    telemetryMode: "stream",
+    streamRate: 50,
     endstopTurns: 1.0,
+    endstopCenter: 0,
     endstopMinAngle: -180,
     endstopMaxAngle: 180,
     deviceType: "knob",
     endstopMode: "none",
     isSticky: false,
+    customDetents: DEFAULT_CUSTOM_DETENTS,
   })
+  // Draft from the detent designer, drawn on the dial until it's applied or reverted
+  const [detentPreview, setDetentPreview] = useState<CustomDetent[] | null>(null)
   const [isConnected, setIsConnected] = useState(false)
-  const [isConnecting, setIsConnecting] = useState(false)
   const [isAutoConnecting, setIsAutoConnecting] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [lastResponse, setLastResponse] = useState<any>(null)
@@ -193,23 +299,144 @@ export function MiniTFDControl() {
   const ANGLE_THRESHOLD = 0.2 // Keep the small threshold for responsiveness
   const EWMA_ALPHA = 0.2 // Increased from 0.2 for more responsiveness
   const lastStableAngleRef = useRef<number>(0)
-  // Add new state variables for reconnection logic
-  const [reconnectAttempts, setReconnectAttempts] = useState(0)
-  const [isReconnecting, setIsReconnecting] = useState(false)
-  const [isInGracePeriod, setIsInGracePeriod] = useState(false)
-  const [lastPortPath, setLastPortPath] = useState<string>("")
-  const [lastBaudRate, setLastBaudRate] = useState<number>(115200)
-  const [hasAttemptedReconnect, setHasAttemptedReconnect] = useState(false)
+  // Connection lifecycle; isConnected and isDeviceResponding follow its state
+  const [connectionState, setConnectionState] = useState<ConnectionState>("idle")
+  const [connectionTimeline, setConnectionTimeline] = useState<readonly ConnectionEvent[]>([])
+  // Streaming telemetry state; older firmware rejects "set stream" and falls back to polling
+  const [isStreaming, setIsStreaming] = useState(false)
+  const [isStreamUnsupported, setIsStreamUnsupported] = useState(false)
+  const [telemetryStats, setTelemetryStats] = useState<TelemetryStatsSnapshot>({
+    sampleRate: 0,
+    receivedFrames: 0,
+    droppedFrames: 0,
+  })
+  const [recorderStatus, setRecorderStatus] = useState<RecorderStatus>({
+    isRecording: false,
+    sampleCount: 0,
+    commandCount: 0,
+    markerCount: 0,
+    durationMs: 0,
+    truncatedSamples: 0,
+    truncatedCommands: 0,
+    truncatedMarkers: 0,
+  })
+  const [showCharts, setShowCharts] = useState(true)
+  const [chartView, setChartView] = useState<"time" | "profile">("time")
+  const [showConsole, setShowConsole] = useState(false)
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false)
+  const presetLibrary = usePresets(state.deviceType)
+  const keymapLibrary = useKeymap()
+  const [isKeymapOpen, setIsKeymapOpen] = useState(false)
+  const bridge = useWebSocketBridge()
+  const [isBridgeOpen, setIsBridgeOpen] = useState(false)
+  const osc = useOsc()
+  const [isOscOpen, setIsOscOpen] = useState(false)
+  const [expandedSections, setExpandedSections] = useState<Record<string, boolean>>({})
+  const [reapplyOnConnect, setReapplyOnConnect] = useState(false)
+  const [autoConnectOnPlug, setAutoConnectOnPlug] = useState(false)
+  // Known device that was just plugged in, connected to on the next render
+  const [pluggedPortPath, setPluggedPortPath] = useState<string | null>(null)
+  // Session state is only written back once the stored session has been restored
+  const [isSessionRestored, setIsSessionRestored] = useState(false)
+  // Filled in by the identify handshake once the device responds
+  const [deviceIdentity, setDeviceIdentity] = useState<DeviceIdentity | null>(null)
+  const [firmwareWarning, setFirmwareWarning] = useState<string | null>(null)
+  const identifyRequestedRef = useRef(false)
+  const deviceIdentityRef = useRef(deviceIdentity)
+  deviceIdentityRef.current = deviceIdentity
+  const [sequenceDraft, setSequenceDraft] = useState(() => serializeSequence(EXAMPLE_SEQUENCE))
+  const [sequenceStatus, setSequenceStatus] = useState<SequenceStatus>({ state: "idle", step: [], elapsedMs: 0 })
+  const scriptLibrary = useTestScripts()
+  const [isScriptEditorOpen, setIsScriptEditorOpen] = useState(false)
+  const [selectedScriptId, setSelectedScriptId] = useState<string | null>(null)
+  const [scriptStatus, setScriptStatus] = useState<ScriptStatus>({
+    state: "idle",
+    scriptName: "",
+    logs: [],
+    elapsedMs: 0,
+  })
+  // Latest state for menu handlers, which are only re-registered when the connection changes
+  const stateRef = useRef(state)
+  stateRef.current = state
+  const isActiveRef = useRef(isActive)
+  isActiveRef.current = isActive
+  // Id the main-process device manager assigned to this surface's connection; kept across
+  // reconnects so events stay tagged the same way
+  const deviceIdRef = useRef<string | null>(null)
 
   // Refs
+  const connectionRef = useRef(new ConnectionMachine())
+  // The device to look for when reconnecting, possibly on a different port path
+  const fingerprintRef = useRef<DeviceFingerprint | null>(null)
+  // Grace period, stall escalation and reconnect backoff; only one runs at a time
+  const connectionTimerRef = useRef<NodeJS.Timeout | null>(null)
+  // Set by a successful reconnect so the configuration is sent again once the device answers
+  const hasReconnectedRef = useRef(false)
   const deviceResponseTimeoutRef = useRef<NodeJS.Timeout | null>(null)
   const pollIntervalRef = useRef<NodeJS.Timeout | null>(null)
   const isPollingActiveRef = useRef(false)
+  const pollWriteInFlightRef = useRef(false)
+  const isStreamingRef = useRef(false)
+  const telemetryStatsRef = useRef(new TelemetryStats())
   const lastCommandRef = useRef<"angle" | "velocity" | null>(null)
+  const recorderRef = useRef(new TelemetryRecorder())
+  const telemetryBufferRef = useRef(new TelemetryBuffer())
+  // Every line sent and received, for the serial console
+  const consoleLogRef = useRef(new SerialConsoleLog())
+  // Acknowledged commands go through the queue; telemetry polling writes directly
+  const commandQueueRef = useRef(
+    new CommandQueue(async (line) => {
+      const result = await writeToDevice(line)
+      if (!result.success) {
+        throw new Error(result.error || "Failed to write command")
+      }
+      recorderRef.current.addCommand(line)
+    }),
+  )
+  // Sequences and test scripts mirror their settings into the control state, but send them themselves
+  const automationOptions: SequenceRunnerOptions = {
+    send: (command) => {
+      const identity = deviceIdentityRef.current
+      const isOffsetUnsupported = command.type === "endstops" && identity && !supportsEndstopOffset(identity)
+      return commandQueueRef.current.send(isOffsetUnsupported ? { ...command, center: 0 } : command)
+    },
+    latestTelemetry: () => telemetryBufferRef.current.latest(),
+    onSettings: (settings) => updateState(settings),
+    isModeSupported: (mode) => isModeSupported(mode, deviceIdentityRef.current),
+  }
+  const sequenceRunnerRef = useRef(new SequenceRunner(automationOptions))
+  const scriptRunnerRef = useRef(new ScriptRunner(automationOptions))
+  // Settings a bridge client sent and that are only waiting to show up in the control state
+  const remoteSettingsRef = useRef<HapticSettings | null>(null)
+
+  // All writes go to this surface's device
+  function writeToDevice(data: string): Promise<{ success: boolean; error?: string }> {
+    const deviceId = deviceIdRef.current
+    if (!window.electronAPI || !deviceId) {
+      return Promise.resolve({ success: false, error: "Not connected to a device" })
+    }
+    consoleLogRef.current.push("tx", data)
+    return window.electronAPI.serialWrite(deviceId, data)
+  }
+
+  // Lines typed into the serial console go out as-is, bypassing the command queue.
+  // Stable so the memoised console doesn't re-render with every telemetry sample.
+  const sendRawCommand = useCallback(async (line: string) => {
+    try {
+      const result = await writeToDevice(line + LINE_TERMINATOR)
+      if (!result.success) {
+        throw new Error(result.error || "Failed to send command")
+      }
+    } catch (err) {
+      console.error("Failed to send console command:", err)
+      setError(err instanceof Error ? err.message : "Failed to send command")
+    }
+  }, [])
 
-  // Filter haptic modes based on device type
-  const getAvailableModes = (deviceType: DeviceType) => {
-    return hapticModes.filter((mode) => mode.devices.includes(deviceType))
+  // Filter haptic modes based on device type and what the firmware supports; before (or without)
+  // an identity, only the modes every firmware has
+  const getAvailableModes = (deviceType: DeviceType, identity = deviceIdentity) => {
+    return hapticModes.filter((mode) => mode.devices.includes(deviceType) && isModeSupported(mode.id, identity))
   }
 
   // Handle device type change
@@ -238,16 +465,32 @@ export function MiniTFDControl() {
     return () => clearTimeout(timeout)
   }, [])
 
+  // Restore the previous session before anything is sent to a device
+  useEffect(() => {
+    const session = loadSessionState(surfaceId)
+    if (session) {
+      applyConfig(session.config)
+      updateState({ selectedPort: session.selectedPort })
+      setExpandedSections(session.expandedSections)
+      setReapplyOnConnect(session.reapplyOnConnect)
+      setAutoConnectOnPlug(session.autoConnectOnPlug)
+      if (session.sequenceDraft) {
+        setSequenceDraft(session.sequenceDraft)
+      }
+    }
+    setIsSessionRestored(true)
+  }, [])
+
   // Update state helper
   const updateState = (updates: Partial<TFDState>) => {
     setState((prev) => {
       const newState = { ...prev, ...updates }
 
-      // Recalculate endstop angles when turns change
-      if (updates.endstopTurns !== undefined) {
-        const totalDegrees = updates.endstopTurns * 360
-        newState.endstopMinAngle = -totalDegrees / 2
-        newState.endstopMaxAngle = totalDegrees / 2
+      // Recalculate endstop angles when the span or centre change
+      if (updates.endstopTurns !== undefined || updates.endstopCenter !== undefined) {
+        const range = endstopRange(newState)
+        newState.endstopMinAngle = range.minAngle
+        newState.endstopMaxAngle = range.maxAngle
       }
 
       return newState
@@ -318,8 +561,12 @@ export function MiniTFDControl() {
         return;
       }
 
+      // Skip ports another control surface already has open
+      const openDevices = await window.electronAPI.serialListDevices();
+      const openPaths = new Set(openDevices.filter((device) => device.id !== deviceIdRef.current).map((device) => device.path));
+
       // Filter ports to only include those with a defined productId
-      const filteredPorts = ports.filter(port => port.productId !== undefined);
+      const filteredPorts = ports.filter(port => port.productId !== undefined && !openPaths.has(port.path));
 
       if (filteredPorts.length === 0) {
         setError("No compatible devices with Product ID found.");
@@ -360,7 +607,7 @@ export function MiniTFDControl() {
     if (!isElectron || !window.electronAPI) return false;
     
     try {
-      const result = await window.electronAPI.serialWrite("get all\n");
+      const result = await writeToDevice(encodeCommand({ type: "get-all" }));
       return result.success;
     } catch (err) {
       console.error("Error checking device responsiveness:", err);
@@ -368,63 +615,151 @@ export function MiniTFDControl() {
     }
   };
 
-  // Add new function to handle reconnection
-  const handleReconnection = async () => {
-    if (isReconnecting || reconnectAttempts >= 3 || !lastPortPath) return;
-    
-    console.log(`Attempting reconnection (attempt ${reconnectAttempts + 1}/3)...`);
-    setIsReconnecting(true);
-    
+  const clearConnectionTimers = () => {
+    if (connectionTimerRef.current) {
+      clearTimeout(connectionTimerRef.current)
+      connectionTimerRef.current = null
+    }
+    if (deviceResponseTimeoutRef.current) {
+      clearTimeout(deviceResponseTimeoutRef.current)
+      deviceResponseTimeoutRef.current = null
+    }
+  }
+
+  // Moves the connection state machine; timers belonging to the previous state are dropped.
+  // Uses refs only, so it is safe to call from timers and serial event handlers.
+  function enterState(to: ConnectionState, reason: string): boolean {
+    if (!connectionRef.current.transition(to, reason)) return false
+    clearConnectionTimers()
+    setIsConnected(isPortOpen(to))
+    setIsDeviceResponding(to === "live")
+    return true
+  }
+
+  // Port is open: probe the device and give it a moment to answer
+  function startGracePeriod(reason: string) {
+    if (!enterState("grace", reason)) return
+    checkDeviceResponsiveness()
+    connectionTimerRef.current = setTimeout(() => {
+      // A reconnect attempt that reaches a silent device moves straight on to the next attempt
+      if (connectionRef.current.attempt > 0) {
+        beginReconnect(`Device did not answer within ${GRACE_PERIOD_MS / 1000} s`)
+      } else {
+        setError("Device not responding after connection")
+        enterStalled(`Device did not answer within ${GRACE_PERIOD_MS / 1000} s`)
+      }
+    }, GRACE_PERIOD_MS)
+  }
+
+  function enterStalled(reason: string) {
+    if (!enterState("stalled", reason)) return
+    // Keep asking; the device may only have been busy
+    checkDeviceResponsiveness()
+    connectionTimerRef.current = setTimeout(
+      () => beginReconnect(`Device silent for ${(STALL_TIMEOUT_MS + STALL_RECONNECT_MS) / 1000} s`),
+      STALL_RECONNECT_MS,
+    )
+  }
+
+  // Any telemetry or acknowledgement proves the device is alive
+  function markDeviceAlive() {
+    const machine = connectionRef.current
+    if (machine.state === "grace" || machine.state === "stalled") {
+      enterState("live", machine.state === "grace" ? "Device answered" : "Device answering again")
+    }
+    if (machine.state !== "live") return
+
+    setIsDeviceResponding(true)
+    setError(null)
+    armResponseWatchdog()
+  }
+
+  // With telemetry off the device is quiet on its own, so a silent spell is probed once
+  // before it counts as a stall
+  function armResponseWatchdog(hasProbed = false) {
+    if (deviceResponseTimeoutRef.current) {
+      clearTimeout(deviceResponseTimeoutRef.current)
+    }
+    deviceResponseTimeoutRef.current = setTimeout(() => {
+      if (!hasProbed) {
+        checkDeviceResponsiveness()
+        armResponseWatchdog(true)
+        return
+      }
+      console.log("Device response timeout.")
+      setError("Device stopped responding.")
+      enterStalled(`No answer for ${(2 * STALL_TIMEOUT_MS) / 1000} s`)
+    }, STALL_TIMEOUT_MS)
+  }
+
+  // Schedules the next reconnect attempt with exponential backoff, or gives up
+  function beginReconnect(reason: string) {
+    const machine = connectionRef.current
+    if (!fingerprintRef.current || !machine.can("reconnecting")) return
+
+    commandQueueRef.current.cancelAll("Reconnecting")
+    // The device may come back with different firmware
+    identifyRequestedRef.current = false
+
+    const delay = machine.nextAttemptDelay()
+    if (delay === null) {
+      enterState("failed", `${reason}; gave up after ${machine.maxAttempts} attempts`)
+      setError("Failed to reconnect after multiple attempts")
+      if (window.electronAPI && deviceIdRef.current) {
+        window.electronAPI.serialDisconnect(deviceIdRef.current)
+      }
+      return
+    }
+
+    enterState("reconnecting", `${reason}; attempt ${machine.attempt}/${machine.maxAttempts} in ${(delay / 1000).toFixed(1)} s`)
+    connectionTimerRef.current = setTimeout(attemptReconnect, delay)
+  }
+
+  // USB re-enumeration can move the device to a new path, so look it up again before reopening
+  async function attemptReconnect() {
+    const api = window.electronAPI
+    const target = fingerprintRef.current
+    if (!api || !target || connectionRef.current.state !== "reconnecting") return
+
     try {
-      // First disconnect
-      if (isElectron && window.electronAPI) {
-        await window.electronAPI.serialDisconnect();
+      const [ports, openDevices] = await Promise.all([api.serialListPorts(), api.serialListDevices()])
+      const openPaths = new Set(openDevices.filter((device) => device.id !== deviceIdRef.current).map((device) => device.path))
+      const port = findDevicePort(
+        ports.filter((candidate) => !openPaths.has(candidate.path)),
+        target,
+      )
+      if (!port) {
+        throw new Error("Device not found")
       }
-      
-      // Wait a bit before reconnecting
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      // Attempt to reconnect
-      if (isElectron && window.electronAPI) {
-        const result = await window.electronAPI.serialConnect(lastPortPath, lastBaudRate);
-        if (result.success) {
-          setIsConnected(true);
-          setIsInGracePeriod(true);
-          
-          // Start grace period timer
-          setTimeout(async () => {
-            setIsInGracePeriod(false);
-            const isResponding = await checkDeviceResponsiveness();
-            if (!isResponding) {
-              setReconnectAttempts(prev => prev + 1);
-              if (reconnectAttempts + 1 < 3) {
-                handleReconnection();
-              } else {
-                setError("Device not responding after reconnection attempts");
-                setIsDeviceResponding(false);
-              }
-            } else {
-              setIsDeviceResponding(true);
-              setReconnectAttempts(0);
-              setHasAttemptedReconnect(false);
-            }
-          }, 2000); // 2 second grace period
-        } else {
-          throw new Error(result.error || "Reconnection failed");
-        }
+      // The user may have stopped reconnecting while the ports were listed
+      if (connectionRef.current.state !== "reconnecting") return
+
+      const result = await api.serialConnect(port.path, target.baudRate, deviceIdRef.current ?? undefined)
+      if (!result.success) {
+        throw new Error(result.error || "Reconnection failed")
       }
-    } catch (err) {
-      console.error("Reconnection failed:", err);
-      setReconnectAttempts(prev => prev + 1);
-      if (reconnectAttempts + 1 < 3) {
-        handleReconnection();
-      } else {
-        setError("Failed to reconnect after multiple attempts");
+      deviceIdRef.current = result.deviceId ?? deviceIdRef.current
+      if (connectionRef.current.state !== "reconnecting") {
+        if (deviceIdRef.current) api.serialDisconnect(deviceIdRef.current)
+        return
       }
-    } finally {
-      setIsReconnecting(false);
+
+      fingerprintRef.current = {
+        ...target,
+        path: port.path,
+        serialNumber: port.serialNumber ?? target.serialNumber,
+      }
+      setAvailablePorts(ports)
+      if (port.path !== stateRef.current.selectedPort) {
+        updateState({ selectedPort: port.path })
+      }
+      hasReconnectedRef.current = true
+      startGracePeriod(port.path === target.path ? `Reopened ${port.path}` : `Found device again on ${port.path}`)
+    } catch (err) {
+      console.error("Reconnection failed:", err)
+      beginReconnect(err instanceof Error ? err.message : "Reconnection failed")
     }
-  };
+  }
 
   // Modify connect function to store last connection details
   const connect = async (portPath?: string, baudRate?: number) => {
@@ -435,12 +770,7 @@ export function MiniTFDControl() {
       setError("Please select a port first")
       return
     }
-
-    // Store connection details for potential reconnection
-    setLastPortPath(targetPort);
-    setLastBaudRate(targetBaudRate);
-    setReconnectAttempts(0);
-    setHasAttemptedReconnect(false);
+    if (!connectionRef.current.can("connecting")) return
 
     // Find and store the productID of the port we're connecting to
     const port = availablePorts.find(p => p.path === targetPort);
@@ -448,42 +778,39 @@ export function MiniTFDControl() {
       setLastProductId(port.productId);
       console.log(`Storing product ID: ${port.productId}`);
     }
+    if (port?.serialNumber) {
+      setLastSerialNumber(port.serialNumber);
+    }
 
-    setIsConnecting(true);
+    enterState("connecting", `Opening ${targetPort} at ${targetBaudRate} baud`);
     setError(null);
-    setIsDeviceResponding(false);
-    // Clear any existing device response timeout when starting a new connection attempt
-    if (deviceResponseTimeoutRef.current) {
-      clearTimeout(deviceResponseTimeoutRef.current);
-      deviceResponseTimeoutRef.current = null;
-    }
+    resetIdentity();
+    // A different device may support streaming even if the last one didn't
+    setIsStreamUnsupported(false);
     console.log(`Connecting to ${targetPort} at ${targetBaudRate} baud...`);
 
     try {
       if (isElectron && window.electronAPI) {
         console.log("Using Electron API for connection")
-        const result = await window.electronAPI.serialConnect(targetPort, targetBaudRate)
+        const result = await window.electronAPI.serialConnect(targetPort, targetBaudRate, deviceIdRef.current ?? undefined)
         if (result.success) {
-          setIsConnected(true)
-          setIsInGracePeriod(true)
+          deviceIdRef.current = result.deviceId ?? null
+          // Remember how to recognise this device if it drops off and comes back
+          fingerprintRef.current = {
+            path: targetPort,
+            baudRate: targetBaudRate,
+            serialNumber: port?.serialNumber,
+            productId: port?.productId,
+            vendorId: port?.vendorId,
+          }
+          hasReconnectedRef.current = false
           setLastResponse({
             status: "connecting",
             port: targetPort,
             baudRate: targetBaudRate,
             timestamp: new Date().toISOString(),
           })
-          
-          // Start grace period timer
-          setTimeout(async () => {
-            setIsInGracePeriod(false);
-            const isResponding = await checkDeviceResponsiveness();
-            if (!isResponding) {
-              setError("Device not responding after connection");
-              setIsDeviceResponding(false);
-            } else {
-              setIsDeviceResponding(true);
-            }
-          }, 2000); // 2 second grace period
+          startGracePeriod(`Opened ${targetPort}`)
         } else {
           throw new Error(result.error || "Connection failed")
         }
@@ -493,25 +820,70 @@ export function MiniTFDControl() {
     } catch (err) {
       console.error("Connection failed:", err)
       setError(err instanceof Error ? err.message : "Connection failed")
-      setIsConnected(false)
-      setIsDeviceResponding(false)
-    } finally {
-      setIsConnecting(false)
+      enterState("failed", err instanceof Error ? err.message : "Connection failed")
+    }
+  }
+
+  // Identify handshake: what the device is, which effects its firmware has and how current it is
+  const resetIdentity = () => {
+    identifyRequestedRef.current = false
+    setDeviceIdentity(null)
+    setFirmwareWarning(null)
+  }
+
+  const identifyDevice = async () => {
+    try {
+      const reply = await commandQueueRef.current.send({ type: "identify" })
+      if (reply.type !== "identity") return
+      const identity = reply.identity
+      setDeviceIdentity(identity)
+      // Read by sendTFDConfig below, before the next render would update it
+      deviceIdentityRef.current = identity
+
+      if (identity.protocolVersion < PROTOCOL_VERSION) {
+        setFirmwareWarning(
+          `Firmware ${identity.firmwareVersion} uses protocol v${identity.protocolVersion}; this app expects v${PROTOCOL_VERSION}. Please update the firmware.`,
+        )
+      }
+
+      // The device knows what it is better than the Knob/Steering tabs do
+      const deviceType = identity.deviceType ?? stateRef.current.deviceType
+      const isModeAvailable = getAvailableModes(deviceType, identity).some((mode) => mode.id === stateRef.current.mode)
+      updateState({
+        deviceType,
+        mode: isModeAvailable ? stateRef.current.mode : "none",
+      })
+      // A mode that needs the identity was held back when connecting (see sendTFDConfig)
+      if (isModeAvailable && !isModeSupported(stateRef.current.mode, null)) {
+        sendTFDConfig(pickHapticSettings(stateRef.current))
+      }
+    } catch (err) {
+      if (err instanceof CommandError && err.reason === "cancelled") return
+      console.error("Device identification failed:", err)
+      // Firmware from before the handshake rejects "get id"
+      setFirmwareWarning(
+        `Device did not identify itself, so it probably predates protocol v${PROTOCOL_VERSION}. ` +
+          "All modes except custom detents are shown.",
+      )
+      if (!isModeSupported(stateRef.current.mode, null)) updateState({ mode: "none" })
     }
   }
 
   // Disconnect from serial port
   const disconnect = async () => {
     console.log("Disconnecting...")
-    stopPolling()
+    stopTelemetry()
+    commandQueueRef.current.cancelAll()
+    resetIdentity()
+    // Also stops a running reconnect
+    enterState("idle", "Disconnected by user")
+    fingerprintRef.current = null
 
     try {
-      if (isElectron && window.electronAPI) {
+      if (isElectron && window.electronAPI && deviceIdRef.current) {
         console.log("Using Electron API for disconnection")
-        const result = await window.electronAPI.serialDisconnect()
+        const result = await window.electronAPI.serialDisconnect(deviceIdRef.current)
         if (result.success) {
-          setIsConnected(false)
-          setIsDeviceResponding(false)
           setError(null)
           setLastResponse(null)
           setLastAngleUpdate(null)
@@ -520,8 +892,6 @@ export function MiniTFDControl() {
           throw new Error(result.error || "Disconnect failed")
         }
       } else {
-        setIsConnected(false)
-        setIsDeviceResponding(false)
         setLastResponse(null)
         setLastAngleUpdate(null)
       }
@@ -536,7 +906,7 @@ export function MiniTFDControl() {
     try {
       if (isElectron && window.electronAPI) {
         setPendingAngleRequest(true)
-        const result = await window.electronAPI.serialWrite("get all\n")
+        const result = await writeToDevice(encodeCommand({ type: "get-all" }))
         if (!result.success) {
           setPendingAngleRequest(false)
           setIsDeviceResponding(false)
@@ -560,7 +930,7 @@ export function MiniTFDControl() {
     try {
       if (isElectron && window.electronAPI) {
         setPendingVelocityRequest(true)
-        const result = await window.electronAPI.serialWrite("get vel\n")
+        const result = await writeToDevice(encodeCommand({ type: "get-velocity" }))
         if (!result.success) {
           setPendingVelocityRequest(false)
           setIsDeviceResponding(false)
@@ -583,7 +953,7 @@ export function MiniTFDControl() {
   const getCurrentTorque = async (): Promise<number | null> => {
     try {
       if (isElectron && window.electronAPI) {
-        const result = await window.electronAPI.serialWrite("get torque\n");
+        const result = await writeToDevice(encodeCommand({ type: "get-torque" }));
         if (!result.success) {
           setIsDeviceResponding(false);
           setError("Device not responding to torque request");
@@ -615,6 +985,7 @@ export function MiniTFDControl() {
 
     console.log(`Starting polling every ${state.pollInterval}ms`)
     isPollingActiveRef.current = true
+    telemetryStatsRef.current.setExpectedInterval(state.pollInterval)
 
     pollIntervalRef.current = setInterval(async () => {
       if (!isPollingActiveRef.current || !isConnected) {
@@ -627,10 +998,17 @@ export function MiniTFDControl() {
         return
       }
 
+      // Skip this tick rather than queue writes behind a slow port
+      if (pollWriteInFlightRef.current) return
+
       try {
         // Request all data with a single command
-        getCurrentAngle()
+        pollWriteInFlightRef.current = true
+        getCurrentAngle().finally(() => {
+          pollWriteInFlightRef.current = false
+        })
       } catch (err) {
+        pollWriteInFlightRef.current = false
         console.error("Error during polling:", err)
       }
     }, state.pollInterval)
@@ -646,9 +1024,101 @@ export function MiniTFDControl() {
     }
   }
 
+  // Ask the device to push telemetry frames; resolves false if the firmware can't
+  const startStreaming = async (): Promise<boolean> => {
+    try {
+      await commandQueueRef.current.send({ type: "stream", rateHz: state.streamRate })
+      console.log(`Streaming telemetry at ${state.streamRate} Hz`)
+      isStreamingRef.current = true
+      setIsStreaming(true)
+      telemetryStatsRef.current.setExpectedInterval(1000 / state.streamRate)
+      return true
+    } catch (err) {
+      if (err instanceof CommandError && err.reason !== "cancelled") {
+        console.warn("Streaming not supported by firmware, falling back to polling:", err.message)
+        setIsStreamUnsupported(true)
+      }
+      return false
+    }
+  }
+
+  const stopStreaming = () => {
+    if (!isStreamingRef.current) return
+    console.log("Stopping telemetry stream")
+    isStreamingRef.current = false
+    setIsStreaming(false)
+
+    // Best effort: the port may already be closing
+    writeToDevice(encodeCommand({ type: "stream", rateHz: 0 })).catch((err) => {
+      console.error("Failed to stop telemetry stream:", err)
+    })
+  }
+
+  const stopTelemetry = () => {
+    stopPolling()
+    stopStreaming()
+  }
+
+  // Telemetry recorder controls
+  const toggleRecording = () => {
+    const recorder = recorderRef.current
+    if (recorder.isRecording) {
+      recorder.stop()
+    } else {
+      recorder.start({
+        deviceType: state.deviceType,
+        port: state.selectedPort,
+        baudRate: state.baudRate,
+        settings: {
+          mode: state.mode,
+          torque: state.torque,
+          stiffness: state.stiffness,
+          targetAngle: state.targetAngle,
+          endstopTurns: state.endstopTurns,
+          endstopCenter: state.endstopCenter,
+          endstopMode: state.endstopMode,
+          isSticky: state.isSticky,
+          customDetents: state.customDetents,
+        },
+      })
+    }
+    setRecorderStatus(recorder.status())
+  }
+
+  const addRecordingMarker = () => {
+    const recorder = recorderRef.current
+    recorder.addMarker(`Marker ${recorder.status().markerCount + 1}`)
+    setRecorderStatus(recorder.status())
+  }
+
+  const exportRecording = async (format: "csv" | "json") => {
+    if (!window.electronAPI) {
+      setError("Export is only available in the desktop app")
+      return
+    }
+
+    const recorder = recorderRef.current
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-")
+
+    try {
+      const result = await window.electronAPI.saveFile({
+        title: "Export Telemetry Recording",
+        defaultPath: `telemetry-${stamp}.${format}`,
+        filters: [{ name: format === "csv" ? "CSV Files" : "JSON Files", extensions: [format] }],
+        content: format === "csv" ? recorder.toCSV() : JSON.stringify(recorder.toRecording(), null, 2),
+      })
+      if (!result.success && !result.canceled) {
+        throw new Error(result.error || "Failed to export recording")
+      }
+    } catch (err) {
+      console.error("Failed to export recording:", err)
+      setError(err instanceof Error ? err.message : "Failed to export recording")
+    }
+  }
+
   // Handle connect/disconnect button
   const handleConnect = async () => {
-    if (isConnected) {
+    if (isConnected || connectionState === "reconnecting") {
       await disconnect()
     } else {
       await connect()
@@ -656,27 +1126,26 @@ export function MiniTFDControl() {
   }
 
   // Send TFD configuration
-  const sendTFDConfig = async () => {
+  const sendTFDConfig = async (settings: HapticSettings = state) => {
     if (!isConnected) {
       setError("Not connected to device")
       return
     }
+    // Until the device has identified itself there's no telling whether it has the mode;
+    // identifyDevice sends the settings once it knows
+    if (!isModeSupported(settings.mode, deviceIdentityRef.current)) return
 
     try {
-      const command = formatTFDCommand(state)
+      // Firmware without offset support rejects the extra argument, so it gets the span centred on 0°
+      const commands = commandsForSettings(
+        deviceIdentity && !supportsEndstopOffset(deviceIdentity) ? { ...settings, endstopCenter: 0 } : settings,
+      )
+      const command = commands.map(encodeCommand).join("")
       console.log("Sending TFD config:", command)
 
-      const result = await window.electronAPI.serialWrite(command)
-      if (!result.success) {
-        throw new Error(result.error || "Failed to send config")
-      }
-
-      // Send sticky command separately if in endstop mode
-      if (state.mode === "endstops") {
-        const stickyResult = await window.electronAPI.serialWrite(`set sticky:${state.isSticky ? "on" : "off"}\n`)
-        if (!stickyResult.success) {
-          throw new Error(stickyResult.error || "Failed to set sticky mode")
-        }
+      // Wait for each acknowledgement so a rejected command stops the rest
+      for (const tfdCommand of commands) {
+        await commandQueueRef.current.send(tfdCommand)
       }
 
       setError(null)
@@ -684,14 +1153,144 @@ export function MiniTFDControl() {
         timestamp: new Date().toISOString(),
         command: "tfd_config",
         sent: command,
-        config: state,
+        config: settings,
       })
     } catch (err) {
       console.error("Failed to send TFD config:", err)
+      if (err instanceof CommandError && err.reason === "cancelled") return
       setError(err instanceof Error ? err.message : "Failed to send config")
     }
   }
 
+  const runSequence = async (sequence: HapticSequence) => {
+    if (!isConnected) {
+      setError("Not connected to device")
+      return
+    }
+    if (scriptRunnerRef.current.isRunning) {
+      setError("Stop the running test script first")
+      return
+    }
+
+    const status = await sequenceRunnerRef.current.run(sequence, pickHapticSettings(stateRef.current))
+    if (status.state === "failed") {
+      setError(`Sequence failed: ${status.error}`)
+    }
+  }
+
+  const runScript = async (script: TestScript) => {
+    if (!isConnected) {
+      setError("Not connected to device")
+      return
+    }
+    if (sequenceRunnerRef.current.isRunning) {
+      setError("Abort the running sequence first")
+      return
+    }
+
+    setSelectedScriptId(script.id)
+    setIsScriptEditorOpen(true)
+    const status = await scriptRunnerRef.current.run(script.name, script.source, pickHapticSettings(stateRef.current))
+    if (status.state === "failed") {
+      setError(`Script "${script.name}" failed: ${status.error}`)
+    }
+  }
+
+  // Runs the sequence in the editor, for the palette
+  const runSequenceDraft = () => {
+    try {
+      runSequence(parseSequence(sequenceDraft))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Invalid sequence")
+    }
+  }
+
+  // Dragging a handle on the dial; the config effect sends the change
+  const handleTargetAngleDrag = (targetAngle: number) => updateState({ targetAngle })
+
+  const handleEndstopRangeDrag = (endstopMinAngle: number, endstopMaxAngle: number) =>
+    updateState(endstopSpan(endstopMinAngle, endstopMaxAngle))
+
+  // Configuration files (File > New/Save/Load Configuration)
+  const configFromState = (current: TFDState): HapticConfig => ({
+    deviceType: current.deviceType,
+    mode: current.mode,
+    torque: current.torque,
+    stiffness: current.stiffness,
+    targetAngle: current.targetAngle,
+    endstopTurns: current.endstopTurns,
+    endstopCenter: current.endstopCenter,
+    endstopMode: current.endstopMode,
+    isSticky: current.isSticky,
+    customDetents: current.customDetents,
+    baudRate: current.baudRate,
+    telemetry: {
+      enabled: current.isPolling,
+      mode: current.telemetryMode,
+      pollIntervalMs: current.pollInterval,
+      streamRateHz: current.streamRate,
+    },
+  })
+
+  const sectionState = (title: string, defaultExpanded = true) => ({
+    isExpanded: expandedSections[title] ?? defaultExpanded,
+    onToggle: (isExpanded: boolean) => setExpandedSections((prev) => ({ ...prev, [title]: isExpanded })),
+  })
+
+  // Used by presets and config files; the config effect sends the new settings once they're rendered
+  const applySettings = (settings: HapticSettings) => {
+    updateState({
+      mode: settings.mode,
+      torque: settings.torque,
+      stiffness: settings.stiffness,
+      targetAngle: settings.targetAngle,
+      endstopTurns: settings.endstopTurns,
+      endstopCenter: settings.endstopCenter,
+      endstopMode: settings.endstopMode,
+      isSticky: settings.isSticky,
+      customDetents: settings.customDetents,
+    })
+  }
+
+  const applyConfig = (config: HapticConfig) => {
+    updateState({
+      deviceType: config.deviceType,
+      baudRate: config.baudRate,
+      isPolling: config.telemetry.enabled,
+      telemetryMode: config.telemetry.mode,
+      pollInterval: config.telemetry.pollIntervalMs,
+      streamRate: config.telemetry.streamRateHz,
+    })
+    applySettings(config)
+  }
+
+  const saveConfiguration = async (filePath: string) => {
+    try {
+      const result = await window.electronAPI!.writeConfigFile(filePath, serializeConfig(configFromState(stateRef.current)))
+      if (!result.success) {
+        throw new Error(result.error || "Failed to save configuration")
+      }
+      setError(null)
+    } catch (err) {
+      console.error("Failed to save configuration:", err)
+      setError(err instanceof Error ? err.message : "Failed to save configuration")
+    }
+  }
+
+  const loadConfiguration = async (filePath: string) => {
+    try {
+      const result = await window.electronAPI!.readConfigFile(filePath)
+      if (!result.success || result.content === undefined) {
+        throw new Error(result.error || "Failed to read configuration")
+      }
+      applyConfig(parseConfig(result.content))
+      setError(null)
+    } catch (err) {
+      console.error("Failed to load configuration:", err)
+      setError(err instanceof Error ? err.message : "Failed to load configuration")
+    }
+  }
+
   // Manual angle request
   const requestCurrentAngle = async () => {
     if (!isConnected) {
@@ -731,10 +1330,7 @@ export function MiniTFDControl() {
       console.log("Resetting device...")
 
       if (isElectron && window.electronAPI) {
-        const result = await window.electronAPI.serialWrite("set zero\n")
-        if (!result.success) {
-          throw new Error(result.error || "Failed to reset device")
-        }
+        await commandQueueRef.current.send({ type: "zero" })
         setLastResponse({ status: "reset_sent", timestamp: new Date().toISOString() })
       } else {
         setError("Serial communication not available in browser")
@@ -756,10 +1352,7 @@ export function MiniTFDControl() {
       console.log("Calibrating device...")
 
       if (isElectron && window.electronAPI) {
-        const result = await window.electronAPI.serialWrite("set zero\n")
-        if (!result.success) {
-          throw new Error(result.error || "Failed to calibrate device")
-        }
+        await commandQueueRef.current.send({ type: "zero" })
         setLastResponse({ status: "calibration_sent", timestamp: new Date().toISOString() })
       } else {
         setError("Serial communication not available in browser")
@@ -770,37 +1363,257 @@ export function MiniTFDControl() {
     }
   }
 
-  // Send TFD configuration when mode or parameters change
+  // Send TFD configuration when mode or parameters change; running sequences and scripts send their own,
+  // and so does a bridge request whose settings are being mirrored here
   useEffect(() => {
-    if (isConnected) {
+    const remote = remoteSettingsRef.current
+    if (remote && JSON.stringify(remote) === JSON.stringify(pickHapticSettings(state))) return
+    if (isConnected && !sequenceRunnerRef.current.isRunning && !scriptRunnerRef.current.isRunning) {
       sendTFDConfig()
     }
-  }, [state.mode, state.torque, state.stiffness, state.targetAngle, state.endstopTurns, isConnected])
+  }, [
+    state.mode,
+    state.torque,
+    state.stiffness,
+    state.targetAngle,
+    state.endstopTurns,
+    state.endstopCenter,
+    state.endstopMode,
+    state.isSticky,
+    state.customDetents,
+    isConnected,
+  ])
+
+  // Once rendered, the mirrored settings are the control state
+  useEffect(() => {
+    remoteSettingsRef.current = null
+  }, [state])
 
-  // Handle polling changes
+  // Handle polling and streaming changes
   useEffect(() => {
-    console.log("Polling effect triggered:", {
+    console.log("Telemetry effect triggered:", {
       isPolling: state.isPolling,
       isConnected,
+      telemetryMode: state.telemetryMode,
       pollInterval: state.pollInterval,
+      streamRate: state.streamRate,
       isPollingActive: isPollingActiveRef.current,
     })
 
     if (isConnected && state.isPolling) {
-      const timer = setTimeout(() => {
+      let isCancelled = false
+      const timer = setTimeout(async () => {
+        if (state.telemetryMode === "stream" && !isStreamUnsupported) {
+          const isStreamStarted = await startStreaming()
+          if (isStreamStarted || isCancelled) return
+        }
         startPolling()
       }, 300)
 
       return () => {
+        isCancelled = true
         clearTimeout(timer)
-        stopPolling()
+        stopTelemetry()
       }
     } else {
-      stopPolling()
+      stopTelemetry()
+    }
+
+    return () => stopTelemetry()
+  }, [state.isPolling, state.pollInterval, state.telemetryMode, state.streamRate, isStreamUnsupported, isConnected])
+
+  // Remember the session; only settings are watched, not the per-sample telemetry fields
+  useEffect(() => {
+    if (!isSessionRestored) return
+    saveSessionState(surfaceId, {
+      config: configFromState(state),
+      selectedPort: state.selectedPort,
+      expandedSections,
+      reapplyOnConnect,
+      autoConnectOnPlug,
+      sequenceDraft,
+    })
+  }, [
+    isSessionRestored,
+    state.deviceType,
+    state.mode,
+    state.torque,
+    state.stiffness,
+    state.targetAngle,
+    state.endstopTurns,
+    state.endstopCenter,
+    state.endstopMode,
+    state.isSticky,
+    state.customDetents,
+    state.baudRate,
+    state.isPolling,
+    state.telemetryMode,
+    state.pollInterval,
+    state.streamRate,
+    state.selectedPort,
+    expandedSections,
+    reapplyOnConnect,
+    autoConnectOnPlug,
+    sequenceDraft,
+  ])
+
+  useEffect(() => {
+    if (!isConnected || !isDeviceResponding || identifyRequestedRef.current) return
+    identifyRequestedRef.current = true
+    identifyDevice()
+  }, [isConnected, isDeviceResponding])
+
+  useEffect(() => {
+    onStatusChange?.({ deviceType: state.deviceType, selectedPort: state.selectedPort, isConnected })
+  }, [state.deviceType, state.selectedPort, isConnected])
+
+  // Connecting already sends the configuration, but a device that is still booting can miss it;
+  // send it again once the device is actually answering after a reconnect, or always if asked to
+  useEffect(() => {
+    if (!isConnected || !isDeviceResponding) return
+    if (reapplyOnConnect || hasReconnectedRef.current) {
+      hasReconnectedRef.current = false
+      sendTFDConfig()
+    }
+  }, [isDeviceResponding])
+
+  // Mirror the sequence runner into React state, refreshing the elapsed time while it runs
+  useEffect(() => sequenceRunnerRef.current.subscribe(setSequenceStatus), [])
+
+  useEffect(() => {
+    if (sequenceStatus.state !== "running") return
+    const timer = setInterval(() => setSequenceStatus(sequenceRunnerRef.current.status()), 250)
+    return () => clearInterval(timer)
+  }, [sequenceStatus.state])
+
+  useEffect(() => scriptRunnerRef.current.subscribe(setScriptStatus), [])
+
+  useEffect(() => {
+    if (scriptStatus.state !== "running") return
+    const timer = setInterval(() => setScriptStatus(scriptRunnerRef.current.status()), 250)
+    return () => clearInterval(timer)
+  }, [scriptStatus.state])
+
+  // Nothing can be sent once the device is gone
+  useEffect(() => {
+    if (!isConnected) {
+      sequenceRunnerRef.current.abort()
+      scriptRunnerRef.current.abort()
+    }
+  }, [isConnected])
+
+  useEffect(
+    () => () => {
+      sequenceRunnerRef.current.abort()
+      scriptRunnerRef.current.abort()
+    },
+    [],
+  )
+
+  // WebSocket bridge: telemetry goes out while some client is subscribed, and client requests for
+  // this surface's device are checked and sent like the UI's own changes
+  const hasBridgeSubscribers = bridge.status.clients.some((client) => client.devices.length > 0)
+  useEffect(() => {
+    if (!isElectron || !window.electronAPI || !hasBridgeSubscribers) return
+    const api = window.electronAPI
+    return telemetryBufferRef.current.subscribe((point) => {
+      if (deviceIdRef.current) api.bridgePublish(deviceIdRef.current, point)
+    })
+  }, [isElectron, hasBridgeSubscribers])
+
+  const handleBridgeRequestRef = useRef<(message: RawConfig) => Promise<void>>(async () => {})
+  handleBridgeRequestRef.current = async (message) => {
+    if (sequenceRunnerRef.current.isRunning || scriptRunnerRef.current.isRunning) {
+      throw new Error("A sequence or test script is controlling the device")
+    }
+    const request = parseBridgeRequest(message, deviceIdentityRef.current)
+    if (request.type === "command") {
+      await automationOptions.send(request.command)
+      return
+    }
+
+    // Later requests build on earlier ones that haven't rendered yet
+    const settings = { ...(remoteSettingsRef.current ?? pickHapticSettings(stateRef.current)), ...request.settings }
+    remoteSettingsRef.current = settings
+    updateState(request.settings)
+    for (const command of commandsForSettings(settings)) {
+      await automationOptions.send(command)
     }
+  }
+
+  useEffect(() => {
+    if (!isElectron || !window.electronAPI) return
+    const api = window.electronAPI
+    return api.onBridgeRequest(async (event, requestId, deviceId, message) => {
+      if (deviceId !== deviceIdRef.current) return
+      try {
+        await handleBridgeRequestRef.current(message)
+        api.bridgeRespond(requestId, { ok: true })
+      } catch (err) {
+        console.error("Failed to handle bridge request:", err)
+        api.bridgeRespond(requestId, { ok: false, error: err instanceof Error ? err.message : "Request failed" })
+      }
+    })
+  }, [isElectron])
+
+  // OSC follows the visible surface: its telemetry goes out, and mapped inputs change its settings
+  // the same way bridge requests do
+  useEffect(() => {
+    if (!isElectron || !window.electronAPI || !isActive || !isConnected || !osc.status.running) return
+    const api = window.electronAPI
+    return telemetryBufferRef.current.subscribe(({ angle, velocity, torque }) =>
+      api.oscPublish({ angle, velocity, torque }),
+    )
+  }, [isElectron, isActive, isConnected, osc.status.running])
+
+  useEffect(() => {
+    if (!isElectron || !window.electronAPI || !isConnected) return
+    return window.electronAPI.onOscInput(async (event, input, args) => {
+      if (!isActiveRef.current) return
+      try {
+        await handleBridgeRequestRef.current({ type: "settings", settings: settingsForOscInput(input, args, deviceIdentityRef.current) })
+      } catch (err) {
+        console.error("Failed to apply OSC input:", err)
+        setError(`OSC ${input}: ${err instanceof Error ? err.message : "failed to apply"}`)
+      }
+    })
+  }, [isElectron, isConnected])
+
+  // Mirror the connection state machine into React state
+  useEffect(() => {
+    const machine = connectionRef.current
+    const unsubscribe = machine.subscribe(() => {
+      setConnectionState(machine.state)
+      setConnectionTimeline([...machine.timeline])
+    })
+    return () => {
+      unsubscribe()
+      clearConnectionTimers()
+    }
+  }, [])
+
+  // Keep the recorder readout ticking while a recording runs
+  useEffect(() => {
+    if (!recorderStatus.isRecording) return
+
+    const interval = setInterval(() => {
+      setRecorderStatus(recorderRef.current.status())
+    }, 500)
 
-    return () => stopPolling()
-  }, [state.isPolling, state.pollInterval, isConnected])
+    return () => clearInterval(interval)
+  }, [recorderStatus.isRecording])
+
+  // Refresh the sample-rate and dropped-frame counters without rendering per sample
+  useEffect(() => {
+    if (!isConnected) return
+
+    telemetryStatsRef.current.reset()
+    const interval = setInterval(() => {
+      setTelemetryStats(telemetryStatsRef.current.snapshot())
+    }, 500)
+
+    return () => clearInterval(interval)
+  }, [isConnected])
 
   // Auto-scan ports on mount
   useEffect(() => {
@@ -809,25 +1622,37 @@ export function MiniTFDControl() {
     }, 200)
 
     if (isElectron && window.electronAPI) {
-      const handleScanPorts = () => listAvailablePorts()
-      const handleConnectDevice = () => !isConnected && handleAutoConnect()
-      const handleDisconnectDevice = () => isConnected && disconnect()
-      const handleResetDevice = () => isConnected && reset()
-      const handleCalibrateDevice = () => isConnected && calibrate()
+      // Menu commands go to whichever control surface is showing
+      const whenActive =
+        <A extends any[]>(handler: (...args: A) => unknown) =>
+        (...args: A) => {
+          if (isActiveRef.current) handler(...args)
+        }
+
+      const handleScanPorts = whenActive(() => listAvailablePorts())
+      const handleConnectDevice = whenActive(() => !isConnected && handleAutoConnect())
+      const handleDisconnectDevice = whenActive(() => isConnected && disconnect())
+      const handleResetDevice = whenActive(() => isConnected && reset())
+      const handleCalibrateDevice = whenActive(() => isConnected && calibrate())
+      const handleResetConfig = whenActive(() => applyConfig(DEFAULT_HAPTIC_CONFIG))
+      const handleSaveConfig = whenActive((_event: any, filePath: string) => saveConfiguration(filePath))
+      const handleLoadConfig = whenActive((_event: any, filePath: string) => loadConfiguration(filePath))
 
       const api = window.electronAPI as NonNullable<typeof window.electronAPI>
-      api.onScanPorts(handleScanPorts)
-      api.onConnectDevice(handleConnectDevice)
-      api.onDisconnectDevice(handleDisconnectDevice)
-      api.onResetDevice(handleResetDevice)
-      api.onCalibrateDevice(handleCalibrateDevice)
+      const unsubscribers = [
+        api.onScanPorts(handleScanPorts),
+        api.onConnectDevice(handleConnectDevice),
+        api.onDisconnectDevice(handleDisconnectDevice),
+        api.onResetDevice(handleResetDevice),
+        api.onCalibrateDevice(handleCalibrateDevice),
+        api.onResetConfig(handleResetConfig),
+        api.onSaveConfig(handleSaveConfig),
+        api.onLoadConfig(handleLoadConfig),
+      ]
 
       return () => {
         clearTimeout(timer)
-        if (api.removeAllListeners) {
-          const events = ["scan-ports", "connect-device", "disconnect-device", "reset-device", "calibrate-device"]
-          events.forEach((event) => api.removeAllListeners(event))
-        }
+        unsubscribers.forEach((unsubscribe) => unsubscribe())
       }
     }
 
@@ -836,15 +1661,15 @@ export function MiniTFDControl() {
     }
   }, [isElectron, isConnected])
 
-  // Cleanup on unmount
+  // Cleanup on unmount only; the refs hold whatever device is open at that point
   useEffect(() => {
     return () => {
       stopPolling()
-      if (isConnected && isElectron && window.electronAPI) {
-        window.electronAPI.serialDisconnect()
+      if (window.electronAPI && deviceIdRef.current && isPortOpen(connectionRef.current.state)) {
+        window.electronAPI.serialDisconnect(deviceIdRef.current)
       }
     }
-  }, [isConnected, isElectron])
+  }, [])
 
   // Set up event handlers for incoming serial data
   useEffect(() => {
@@ -856,104 +1681,46 @@ export function MiniTFDControl() {
 
     console.log("Setting up serial data handlers...");
 
-    const handleSerialData = (event: any, data: string) => {
-      console.log("Raw data received:", data); // Log raw data
+    const handleSerialData = (event: any, deviceId: string, data: string) => {
+      if (deviceId !== deviceIdRef.current) return
       const cleanData = data.trim()
-      console.log("Cleaned data:", cleanData); // Log cleaned data
+      consoleLogRef.current.push("rx", cleanData)
 
-      // Check if the response looks like valid sensor data (combined format)
-      const isSensorData = cleanData.startsWith("ANGLE:") && cleanData.includes("VEL:") && cleanData.includes("TORQUE:");
-      const isCommandResponse = cleanData === "OK";
-      
-      console.log("Data type check:", { isSensorData, isCommandResponse }); // Log data type check
+      const message = decodeLine(cleanData)
 
-      if (isSensorData || isCommandResponse) {
-          setIsDeviceResponding(true);
-          setError(null);
+      // Replies to queued commands are consumed here; errors surface where the command was sent
+      const isReply = commandQueueRef.current.handleMessage(message)
 
-          // Reset the timeout whenever a valid response is received
-          if (deviceResponseTimeoutRef.current) {
-            clearTimeout(deviceResponseTimeoutRef.current);
-          }
-          deviceResponseTimeoutRef.current = setTimeout(() => {
-            console.log("Device response timeout.");
-            setIsDeviceResponding(false);
-            setError("Device stopped responding.");
-            
-            // Trigger reconnection if we haven't already attempted it
-            if (!hasAttemptedReconnect && isConnected) {
-              setHasAttemptedReconnect(true);
-              handleReconnection();
-            }
-          }, 2000);
+      if (["telemetry", "ok", "identity", "value"].includes(message.type)) {
+        markDeviceAlive();
       }
 
-      if (isSensorData) {
-        try {
-          console.log("Starting to parse sensor data..."); // Log start of parsing
-          
-          // Parse the combined response format
-          const parts = cleanData.split(',');
-          console.log("Split parts:", parts); // Log split parts
-          
-          // Extract values using regex with proper error handling
-          const angleMatch = parts[0].match(/ANGLE:([-\d.]+)/);
-          const velMatch = parts[1].match(/VEL:([-\d.]+)/);
-          const torqueMatch = parts[2].match(/TORQUE:([-\d.]+)/);
-          
-          console.log("Regex matches:", { // Log regex matches
-            angleMatch,
-            velMatch,
-            torqueMatch
-          });
-
-          // Update angle if valid
-          if (angleMatch && angleMatch[1]) {
-            const numericAngle = parseFloat(angleMatch[1]);
-            console.log("Parsed angle:", numericAngle); // Log parsed angle
-            if (!isNaN(numericAngle)) {
-              const clampedAngle = clampAngle(numericAngle);
-              updateState({ currentAngle: clampedAngle });
-              setLastAngleUpdate(new Date());
-              setPendingAngleRequest(false);
-            } else {
-              console.warn("Invalid angle value:", angleMatch[1]);
-            }
-          }
-
-          // Update velocity if valid
-          if (velMatch && velMatch[1]) {
-            const numericVelocity = parseFloat(velMatch[1]);
-            console.log("Parsed velocity:", numericVelocity); // Log parsed velocity
-            if (!isNaN(numericVelocity)) {
-              updateState({ currentVelocity: numericVelocity });
-              setPendingVelocityRequest(false);
-            } else {
-              console.warn("Invalid velocity value:", velMatch[1]);
-            }
-          }
-
-          // Update torque if valid
-          if (torqueMatch && torqueMatch[1]) {
-            const numericTorque = parseFloat(torqueMatch[1]);
-            console.log("Parsed torque:", numericTorque); // Log parsed torque
-            if (!isNaN(numericTorque)) {
-              updateState({ currentTorque: numericTorque });
-            } else {
-              console.warn("Invalid torque value:", torqueMatch[1]);
-            }
-          }
-
-          // Log the parsed values for debugging
-          console.log("Final parsed values:", {
-            angle: angleMatch ? parseFloat(angleMatch[1]) : null,
-            velocity: velMatch ? parseFloat(velMatch[1]) : null,
-            torque: torqueMatch ? parseFloat(torqueMatch[1]) : null
-          });
+      if (message.type === "telemetry") {
+        telemetryStatsRef.current.recordSample();
+        recorderRef.current.addSample({
+          angle: message.angle,
+          velocity: message.velocity,
+          torque: message.torque,
+        });
+        telemetryBufferRef.current.push({
+          time: Date.now(),
+          angle: message.angle,
+          velocity: message.velocity,
+          torque: message.torque,
+        });
+        const clampedAngle = clampAngle(message.angle);
+        updateState({
+          currentAngle: clampedAngle,
+          currentVelocity: message.velocity,
+          currentTorque: message.torque,
+        });
+        setLastAngleUpdate(new Date());
+        setPendingAngleRequest(false);
+        setPendingVelocityRequest(false);
+      }
 
-        } catch (err) {
-          console.error("Error parsing sensor data:", err, "Raw data:", cleanData);
-        }
+      if (message.type === "error" && !isReply) {
+        setError(`Device error: ${message.message}`);
       }
 
       setLastResponse({
@@ -963,40 +1730,135 @@ export function MiniTFDControl() {
       })
     }
 
-    const handleSerialError = (event: any, errorMessage: string) => {
+    // Errors without a device id (e.g. port enumeration) concern every surface
+    const handleSerialError = (event: any, deviceId: string | null, errorMessage: string) => {
+      if (deviceId !== null && deviceId !== deviceIdRef.current) return
       console.error("Serial error:", errorMessage)
       setError(errorMessage)
       setIsDeviceResponding(false)
     }
 
-    const handleSerialDisconnected = () => {
+    // An unexpected close (e.g. the USB cable was pulled) starts reconnecting
+    const handleSerialDisconnected = (event: any, deviceId: string) => {
+      if (deviceId !== deviceIdRef.current || !isPortOpen(connectionRef.current.state)) return
       console.log("Serial disconnected")
-      setIsConnected(false)
-      setIsDeviceResponding(false)
+      commandQueueRef.current.cancelAll("Device disconnected")
       setError("Device disconnected")
-      if (deviceResponseTimeoutRef.current) {
-        clearTimeout(deviceResponseTimeoutRef.current)
-      }
+      beginReconnect("Port closed")
     }
 
     console.log("Registering serial event handlers...");
     const api = window.electronAPI as NonNullable<typeof window.electronAPI>
-    api.onSerialData(handleSerialData)
-    api.onSerialError(handleSerialError)
-    api.onSerialDisconnected(handleSerialDisconnected)
+    const unsubscribers = [
+      api.onSerialData(handleSerialData),
+      api.onSerialError(handleSerialError),
+      api.onSerialDisconnected(handleSerialDisconnected),
+    ]
 
     return () => {
       console.log("Cleaning up serial event handlers...");
-      if (api.removeAllListeners) {
-        api.removeAllListeners("serial-data")
-        api.removeAllListeners("serial-error")
-        api.removeAllListeners("serial-disconnected")
+      unsubscribers.forEach((unsubscribe) => unsubscribe())
+    }
+  }, [isElectron, isConnected])
+
+  // Hot-plug: keep the port list current, and react to a device arriving
+  useEffect(() => {
+    if (!isElectron || !window.electronAPI) return
+
+    const handlePortsChanged = (_event: any, change: { ports: SerialPortInfo[]; added: SerialPortInfo[] }) => {
+      setAvailablePorts(change.ports)
+
+      // A reconnect waiting out its backoff can try right away when its device reappears
+      const machine = connectionRef.current
+      if (machine.state === "reconnecting") {
+        if (connectionTimerRef.current && fingerprintRef.current && findDevicePort(change.added, fingerprintRef.current)) {
+          clearTimeout(connectionTimerRef.current)
+          connectionTimerRef.current = null
+          attemptReconnect()
+        }
+        return
       }
-      if (deviceResponseTimeoutRef.current) {
-        clearTimeout(deviceResponseTimeoutRef.current)
+
+      if (!autoConnectOnPlug || !machine.can("connecting")) return
+      const knownPort = findDevicePort(
+        change.added.filter((port) => port.productId !== undefined),
+        {
+          path: "",
+          baudRate: stateRef.current.baudRate,
+          serialNumber: getLastSerialNumber(),
+          productId: getLastProductId(),
+        },
+      )
+      if (knownPort) {
+        console.log(`Known device plugged in on ${knownPort.path}`)
+        setPluggedPortPath(knownPort.path)
       }
     }
-  }, [isElectron, isConnected, hasAttemptedReconnect])
+
+    return window.electronAPI.onPortsChanged(handlePortsChanged)
+  }, [isElectron, autoConnectOnPlug])
+
+  // Connect to a freshly plugged-in known device unless another control surface already took it
+  useEffect(() => {
+    if (!pluggedPortPath || !window.electronAPI) return
+    setPluggedPortPath(null)
+
+    window.electronAPI.serialListDevices().then((openDevices) => {
+      if (openDevices.some((device) => device.path === pluggedPortPath)) return
+      if (!connectionRef.current.can("connecting")) return
+      updateState({ selectedPort: pluggedPortPath })
+      connect(pluggedPortPath, stateRef.current.baudRate)
+    })
+  }, [pluggedPortPath])
+
+  // Keyboard shortcuts from the keymap go to the visible control surface. The listener is
+  // registered once and reads the latest keymap and handlers through refs.
+  const keymapRef = useRef(keymapLibrary.keymap)
+  keymapRef.current = keymapLibrary.keymap
+  const isDialogOpenRef = useRef(false)
+  isDialogOpenRef.current = isPaletteOpen || isKeymapOpen || isBridgeOpen || isOscOpen
+  const runKeymapCommandRef = useRef<(command: KeymapCommand) => void>(() => {})
+  runKeymapCommandRef.current = (command) => {
+    switch (command.type) {
+      case "palette":
+        setIsPaletteOpen((isOpen) => !isOpen)
+        break
+      case "mode":
+        if (getAvailableModes(stateRef.current.deviceType).some((mode) => mode.id === command.mode)) {
+          handleModeSelect(command.mode)
+        }
+        break
+      case "nudge":
+        nudgeParameter(command.parameter, command.direction)
+        break
+    }
+  }
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!isActiveRef.current || event.defaultPrevented) return
+      const chord = chordFromEvent(event)
+      const action = chord ? actionForChord(keymapRef.current, chord) : undefined
+      if (!chord || !action) return
+
+      // The palette key also closes the palette; everything else waits for dialogs to close
+      if (isDialogOpenRef.current && action.command.type !== "palette") return
+
+      // Plain keys belong to whatever text field has focus
+      const target = event.target as HTMLElement | null
+      const isTextEntry =
+        target instanceof HTMLTextAreaElement ||
+        target instanceof HTMLSelectElement ||
+        (target instanceof HTMLInputElement && !["checkbox", "radio", "button", "range"].includes(target.type)) ||
+        Boolean(target?.isContentEditable)
+      if (isTextEntry && !chordHasCommandModifier(chord)) return
+
+      event.preventDefault()
+      runKeymapCommandRef.current(action.command)
+    }
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [])
 
   // Update filtered angle using simple moving average
   useEffect(() => {
@@ -1039,15 +1901,210 @@ export function MiniTFDControl() {
     });
   }
 
+  // Step a numeric setting from a keyboard shortcut, within the range configuration files allow
+  const nudgeParameter = (parameter: NudgeParameter, direction: 1 | -1) => {
+    const step = NUDGE_STEPS[parameter]
+    const [min, max] = SETTING_RANGES[parameter]
+    const lower = parameter === "endstopTurns" ? step : min
+    const upper = parameter === "endstopTurns" ? Math.min(max, deviceIdentity?.maxTurns ?? max) : max
+    const next = Math.min(upper, Math.max(lower, stateRef.current[parameter] + direction * step))
+    // Repeated 0.1 steps drift; keep the value on the step grid
+    updateState({ [parameter]: Number((Math.round(next / step) * step).toFixed(2)) })
+  }
+
   // Update the mode selection handler to use the new function
   const handleModeSelect = (mode: HapticMode) => {
     handleModeChange(mode);
   }
 
   const availableModes = getAvailableModes(state.deviceType)
+  const isConnecting = connectionState === "connecting"
+
+  const keymapChordLabel = (actionId: string) => {
+    const chord = keymapLibrary.keymap[actionId]
+    return chord ? formatChord(chord) : undefined
+  }
+
+  // Everything the palette offers runs through the same handlers as the sidebar and menus
+  const paletteActions: PaletteAction[] = [
+    ...availableModes.map((mode) => ({
+      id: `mode:${mode.id}`,
+      label: mode.label,
+      group: "Modes",
+      run: () => handleModeSelect(mode.id),
+      shortcut: keymapChordLabel(`mode:${mode.id}`),
+    })),
+    ...presetLibrary.presets.map((preset) => ({
+      id: `preset:${preset.id}`,
+      label: preset.name,
+      group: "Presets",
+      run: () => applySettings({ ...preset.settings }),
+    })),
+    {
+      id: "device:connect",
+      label: connectionState === "reconnecting" ? "Stop reconnecting" : isConnected ? "Disconnect" : "Connect",
+      group: "Device",
+      run: handleConnect,
+      disabled: !state.selectedPort || isConnecting || isAutoConnecting,
+      shortcut: isConnected ? "Ctrl+D" : undefined,
+    },
+    {
+      id: "device:auto-connect",
+      label: "Auto-connect",
+      group: "Device",
+      run: handleAutoConnect,
+      disabled: isScanning || isConnecting || isAutoConnecting,
+      shortcut: "Ctrl+Shift+C",
+    },
+    { id: "device:scan", label: "Scan serial ports", group: "Device", run: listAvailablePorts, shortcut: "Ctrl+R" },
+    {
+      id: "device:reset",
+      label: "Reset device",
+      group: "Device",
+      run: reset,
+      disabled: !isConnected,
+      shortcut: "Ctrl+Shift+X",
+    },
+    {
+      id: "device:calibrate",
+      label: "Calibrate device",
+      group: "Device",
+      run: calibrate,
+      disabled: !isConnected,
+      shortcut: "Ctrl+Shift+A",
+    },
+    ...(["knob", "steering-wheel"] as DeviceType[]).map((deviceType) => ({
+      id: `device-type:${deviceType}`,
+      label: deviceType === "knob" ? "Switch to knob" : "Switch to steering wheel",
+      group: "Device",
+      run: () => handleDeviceTypeChange(deviceType),
+      disabled: state.deviceType === deviceType,
+      keywords: ["device type"],
+    })),
+    {
+      id: "recorder:toggle",
+      label: recorderStatus.isRecording ? "Stop recording" : "Start recording",
+      group: "Recorder",
+      run: toggleRecording,
+    },
+    {
+      id: "recorder:marker",
+      label: "Add marker",
+      group: "Recorder",
+      run: addRecordingMarker,
+      disabled: !recorderStatus.isRecording,
+    },
+    ...(["csv", "json"] as const).map((format) => ({
+      id: `recorder:export-${format}`,
+      label: `Export recording as ${format.toUpperCase()}`,
+      group: "Recorder",
+      run: () => exportRecording(format),
+      disabled: recorderStatus.isRecording || recorderStatus.sampleCount === 0,
+    })),
+    {
+      id: "sequencer:run",
+      label: "Run sequence",
+      group: "Sequencer",
+      run: runSequenceDraft,
+      disabled: !isConnected || sequenceRunnerRef.current.isRunning,
+    },
+    {
+      id: "sequencer:pause",
+      label: sequenceStatus.state === "paused" ? "Resume sequence" : "Pause sequence",
+      group: "Sequencer",
+      run: () =>
+        sequenceStatus.state === "paused" ? sequenceRunnerRef.current.resume() : sequenceRunnerRef.current.pause(),
+      disabled: !sequenceRunnerRef.current.isRunning,
+    },
+    {
+      id: "sequencer:abort",
+      label: "Abort sequence",
+      group: "Sequencer",
+      run: () => sequenceRunnerRef.current.abort(),
+      disabled: !sequenceRunnerRef.current.isRunning,
+    },
+    {
+      id: "scripts:open",
+      label: "Test scripts...",
+      group: "Scripts",
+      run: () => setIsScriptEditorOpen(true),
+      keywords: ["script", "editor", "test"],
+    },
+    ...scriptLibrary.scripts.map((script) => ({
+      id: `scripts:run:${script.id}`,
+      label: `Run ${script.name}`,
+      group: "Scripts",
+      run: () => runScript(script),
+      disabled: !isConnected || scriptRunnerRef.current.isRunning,
+      keywords: ["script", "test"],
+    })),
+    {
+      id: "scripts:abort",
+      label: "Stop script",
+      group: "Scripts",
+      run: () => scriptRunnerRef.current.abort(),
+      disabled: !scriptRunnerRef.current.isRunning,
+    },
+    {
+      id: "view:charts",
+      label: showCharts ? "Hide charts" : "Show charts",
+      group: "View",
+      run: () => setShowCharts(!showCharts),
+    },
+    {
+      id: "view:console",
+      label: showConsole ? "Hide serial console" : "Show serial console",
+      group: "View",
+      run: () => setShowConsole(!showConsole),
+    },
+    {
+      id: "view:keymap",
+      label: "Keyboard shortcuts...",
+      group: "View",
+      run: () => setIsKeymapOpen(true),
+      keywords: ["keymap", "keys", "bindings"],
+    },
+    {
+      id: "view:bridge",
+      label: "WebSocket bridge...",
+      group: "View",
+      run: () => setIsBridgeOpen(true),
+      keywords: ["websocket", "bridge", "remote", "api"],
+    },
+    {
+      id: "view:osc",
+      label: "OSC...",
+      group: "View",
+      run: () => setIsOscOpen(true),
+      keywords: ["osc", "open sound control", "udp", "mapping"],
+    },
+    {
+      id: "config:reset",
+      label: "Reset configuration to defaults",
+      group: "Configuration",
+      run: () => applyConfig(DEFAULT_HAPTIC_CONFIG),
+      shortcut: "Ctrl+N",
+    },
+  ]
 
   return (
-    <div className="flex h-screen w-screen overflow-hidden bg-gray-900 text-white">
+    <div className="flex h-full w-full overflow-hidden bg-gray-900 text-white">
+      <CommandPalette open={isPaletteOpen} onOpenChange={setIsPaletteOpen} actions={paletteActions} />
+      <KeymapSettings open={isKeymapOpen} onOpenChange={setIsKeymapOpen} library={keymapLibrary} />
+      <BridgeSettings open={isBridgeOpen} onOpenChange={setIsBridgeOpen} bridge={bridge} />
+      <OscSettings open={isOscOpen} onOpenChange={setIsOscOpen} osc={osc} />
+      <ScriptEditor
+        open={isScriptEditorOpen}
+        onOpenChange={setIsScriptEditorOpen}
+        library={scriptLibrary}
+        selectedId={selectedScriptId}
+        onSelect={setSelectedScriptId}
+        status={scriptStatus}
+        isConnected={isConnected}
+        onRun={runScript}
+        onAbort={() => scriptRunnerRef.current.abort()}
+        onError={setError}
+      />
       {/* Sidebar */}
       <ScrollArea className="sidebar flex flex-col h-full min-w-[240px] max-w-[300px] w-[260px] overflow-hidden">
         <div className="flex flex-col h-full">
@@ -1056,14 +2113,29 @@ export function MiniTFDControl() {
             <div className="flex items-center space-x-2 mt-2">
               <div
                 className={`status-indicator ${
-                  !isConnected ? "status-disconnected" : !isDeviceResponding ? "status-warning" : "status-connected"
+                  connectionState === "live" && isDeviceResponding
+                    ? "status-connected"
+                    : connectionState === "idle" || connectionState === "failed"
+                      ? "status-disconnected"
+                      : "status-warning"
                 }`}
               />
               <span className="text-xs text-gray-400">
-                {!isConnected ? "Disconnected" : !isDeviceResponding ? "Device not responding" : "Connected"}
+                {connectionState === "live" && !isDeviceResponding
+                  ? "Device not responding"
+                  : connectionStateLabels[connectionState]}
+                {connectionState === "reconnecting" &&
+                  ` (${connectionRef.current.attempt}/${connectionRef.current.maxAttempts})`}
                 {isElectron ? "" : " (Browser)"}
               </span>
             </div>
+            {deviceIdentity && (
+              <div className="text-xs text-gray-500 mt-1">
+                Firmware {deviceIdentity.firmwareVersion}
+                {deviceIdentity.serialNumber && ` · SN ${deviceIdentity.serialNumber}`}
+              </div>
+            )}
+            {firmwareWarning && <div className="text-xs text-yellow-400 mt-1">{firmwareWarning}</div>}
             
             <div className="fixed-size-vertical-div"></div>
 
@@ -1095,7 +2167,7 @@ export function MiniTFDControl() {
           </div>
 
           {/* Modes */}
-          <CollapsibleSection title="Modes">
+          <CollapsibleSection title="Modes" {...sectionState("Modes")}>
             {availableModes.map((mode) => {
               const Icon = mode.icon
               return (
@@ -1112,8 +2184,17 @@ export function MiniTFDControl() {
             })}
           </CollapsibleSection>
 
+          <CollapsibleSection title="Presets" {...sectionState("Presets")}>
+            <PresetsPanel
+              library={presetLibrary}
+              currentSettings={state}
+              onApply={applySettings}
+              onError={setError}
+            />
+          </CollapsibleSection>
+
           {/* Connection section */}
-          <CollapsibleSection title="Connection">
+          <CollapsibleSection title="Connection" {...sectionState("Connection")}>
             {/* Manual port selection */}
             <div className="flex space-x-1">
               <select
@@ -1163,6 +2244,11 @@ export function MiniTFDControl() {
             >
               {isConnecting ? (
                 "Connecting..."
+              ) : connectionState === "reconnecting" ? (
+                <>
+                  <WifiOff size={13} className="mr-2" />
+                  Stop Reconnecting
+                </>
               ) : isConnected ? (
                 <>
                   <WifiOff size={13} className="mr-2" />
@@ -1193,6 +2279,32 @@ export function MiniTFDControl() {
               )}
             </button>
 
+            <div className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                id="reapply-on-connect"
+                checked={reapplyOnConnect}
+                onChange={(e) => setReapplyOnConnect(e.target.checked)}
+                className="w-4 h-4"
+              />
+              <label htmlFor="reapply-on-connect" className="form-label mb-0">
+                Re-apply settings once device responds
+              </label>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                id="auto-connect-on-plug"
+                checked={autoConnectOnPlug}
+                onChange={(e) => setAutoConnectOnPlug(e.target.checked)}
+                className="w-4 h-4"
+              />
+              <label htmlFor="auto-connect-on-plug" className="form-label mb-0">
+                Connect when a known device is plugged in
+              </label>
+            </div>
+
             {/* Reset Device button */}
             <button
               className="btn btn-outline w-full mt-2"
@@ -1208,8 +2320,35 @@ export function MiniTFDControl() {
             )}
           </CollapsibleSection>
 
+          {/* Connection state transitions, newest first */}
+          <CollapsibleSection title="Connection Timeline" {...sectionState("Connection Timeline", false)}>
+            {connectionTimeline.length === 0 ? (
+              <div className="text-xs text-gray-500">No connection events yet</div>
+            ) : (
+              <div className="space-y-1 max-h-48 overflow-y-auto">
+                {[...connectionTimeline].reverse().map((event, index) => (
+                  <div key={`${event.time}-${index}`} className="text-xs">
+                    <span className="text-gray-500 font-mono">{new Date(event.time).toLocaleTimeString()}</span>{" "}
+                    <span className="text-gray-300">
+                      {event.from} → {event.to}
+                    </span>
+                    <div className="text-gray-500">{event.reason}</div>
+                  </div>
+                ))}
+              </div>
+            )}
+            <button
+              className="btn btn-outline btn-sm w-full"
+              onClick={() => connectionRef.current.clearTimeline()}
+              disabled={connectionTimeline.length === 0}
+              style={{ fontSize: "0.8rem" }}
+            >
+              Clear Timeline
+            </button>
+          </CollapsibleSection>
+
           {/* Monitoring section */}
-          <CollapsibleSection title="Monitoring">
+          <CollapsibleSection title="Monitoring" {...sectionState("Monitoring")}>
             <div className="form-control mb-2">
               <label className="form-label">Current Angle (°)</label>
               <div
@@ -1249,10 +2388,44 @@ export function MiniTFDControl() {
                 className="w-4 h-4"
               />
               <label htmlFor="polling" className="form-label mb-0">
-                Auto-poll angle
+                Live telemetry
               </label>
             </div>
 
+            <div className="form-control mb-2">
+              <label className="form-label">Telemetry Mode</label>
+              <select
+                className="form-select text-xs px-1 py-1"
+                value={state.telemetryMode}
+                onChange={(e) => updateState({ telemetryMode: e.target.value as TelemetryMode })}
+                disabled={!state.isPolling}
+                style={{ fontSize: "0.85rem" }}
+              >
+                <option value="stream">Stream</option>
+                <option value="poll">Poll</option>
+              </select>
+              {state.telemetryMode === "stream" && isStreamUnsupported && (
+                <div className="text-xs text-yellow-400 mt-1">Firmware can't stream, polling instead</div>
+              )}
+            </div>
+
+            {state.telemetryMode === "stream" && !isStreamUnsupported && (
+              <div className="form-control mb-2">
+                <label className="form-label">Stream Rate (Hz)</label>
+                <input
+                  type="number"
+                  className="form-input text-xs px-1 py-1"
+                  min="1"
+                  max="500"
+                  step="10"
+                  value={state.streamRate}
+                  onChange={(e) => updateState({ streamRate: Math.max(1, Number.parseInt(e.target.value) || 50) })}
+                  disabled={!state.isPolling}
+                  style={{ fontSize: "0.9rem", width: "100%", minWidth: 0, padding: "0.2rem 0.2rem" }}
+                />
+              </div>
+            )}
+
             <div className="form-control mb-2">
               <label className="form-label">Poll Interval (ms)</label>
               <input
@@ -1263,11 +2436,16 @@ export function MiniTFDControl() {
                 step="50"
                 value={state.pollInterval}
                 onChange={(e) => updateState({ pollInterval: Number.parseInt(e.target.value) || 100 })}
-                disabled={!state.isPolling}
+                disabled={!state.isPolling || isStreaming}
                 style={{ fontSize: "0.9rem", width: "100%", minWidth: 0, padding: "0.2rem 0.2rem" }}
               />
             </div>
 
+            <div className="flex justify-between text-xs text-gray-400 mb-2">
+              <span>Sample rate: {telemetryStats.sampleRate.toFixed(0)} Hz</span>
+              <span>Dropped: {telemetryStats.droppedFrames}</span>
+            </div>
+
             <div className="flex space-x-1">
               <button
                 className="btn btn-outline btn-sm flex-1"
@@ -1289,11 +2467,95 @@ export function MiniTFDControl() {
               </button>
             </div>
           </CollapsibleSection>
+
+          {/* Recorder section */}
+          <CollapsibleSection title="Recorder" {...sectionState("Recorder", false)}>
+            <div className="flex space-x-1">
+              <button
+                className={`btn ${recorderStatus.isRecording ? "btn-primary" : "btn-outline"} btn-sm flex-1`}
+                onClick={toggleRecording}
+                style={{ fontSize: "0.85rem", padding: "0.2rem 0" }}
+              >
+                {recorderStatus.isRecording ? (
+                  <>
+                    <Square size={11} className="mr-1" />
+                    Stop
+                  </>
+                ) : (
+                  <>
+                    <Circle size={11} className="mr-1 text-red-500" />
+                    Record
+                  </>
+                )}
+              </button>
+              <button
+                className="btn btn-outline btn-sm flex-1"
+                onClick={addRecordingMarker}
+                disabled={!recorderStatus.isRecording}
+                style={{ fontSize: "0.85rem", padding: "0.2rem 0" }}
+              >
+                <Flag size={11} className="mr-1" />
+                Marker
+              </button>
+            </div>
+
+            <div className="text-xs text-gray-400">
+              {recorderStatus.sampleCount} samples · {(recorderStatus.durationMs / 1000).toFixed(1)} s ·{" "}
+              {recorderStatus.commandCount} commands · {recorderStatus.markerCount} markers
+            </div>
+            {recorderStatus.truncatedSamples > 0 && (
+              <div className="text-xs text-yellow-400">
+                Oldest {recorderStatus.truncatedSamples} samples discarded
+              </div>
+            )}
+            {recorderStatus.truncatedCommands + recorderStatus.truncatedMarkers > 0 && (
+              <div className="text-xs text-yellow-400">
+                Oldest {recorderStatus.truncatedCommands} commands and {recorderStatus.truncatedMarkers} markers
+                discarded
+              </div>
+            )}
+
+            <div className="flex space-x-1">
+              <button
+                className="btn btn-outline btn-sm flex-1"
+                onClick={() => exportRecording("csv")}
+                disabled={recorderStatus.isRecording || recorderStatus.sampleCount === 0}
+                style={{ fontSize: "0.85rem", padding: "0.2rem 0" }}
+              >
+                <Download size={11} className="mr-1" />
+                CSV
+              </button>
+              <button
+                className="btn btn-outline btn-sm flex-1"
+                onClick={() => exportRecording("json")}
+                disabled={recorderStatus.isRecording || recorderStatus.sampleCount === 0}
+                style={{ fontSize: "0.85rem", padding: "0.2rem 0" }}
+              >
+                <Download size={11} className="mr-1" />
+                JSON
+              </button>
+            </div>
+          </CollapsibleSection>
+
+          {/* Sequencer section */}
+          <CollapsibleSection title="Sequencer" {...sectionState("Sequencer", false)}>
+            <SequencerPanel
+              draft={sequenceDraft}
+              onDraftChange={setSequenceDraft}
+              status={sequenceStatus}
+              isConnected={isConnected}
+              onRun={runSequence}
+              onPause={() => sequenceRunnerRef.current.pause()}
+              onResume={() => sequenceRunnerRef.current.resume()}
+              onAbort={() => sequenceRunnerRef.current.abort()}
+              onError={setError}
+            />
+          </CollapsibleSection>
         </div>
       </ScrollArea>
 
       {/* Main content */}
-      <div className="flex-1 flex flex-col min-w-0 min-h-0 overflow-auto">
+      <div className="flex-1 flex flex-col min-w-0 min-h-0 overflow-hidden">
         {/* Header */}
         <header
           className="flex h-14 items-center gap-4 border-b border-gray-700 px-6 min-w-0 bg-gray-900 w-full"
@@ -1305,7 +2567,7 @@ export function MiniTFDControl() {
           </div>
           {state.isPolling && isConnected && (
             <div className="badge badge-yellow text-xs" style={{ marginLeft: 8 }}>
-              Polling {state.pollInterval}ms
+              {isStreaming ? `Streaming ${state.streamRate} Hz` : `Polling ${state.pollInterval}ms`}
             </div>
           )}
           {isConnected && (
@@ -1313,199 +2575,335 @@ export function MiniTFDControl() {
               {state.selectedPort} @ {state.baudRate} baud
             </div>
           )}
+          {(bridge.status.running || bridge.status.error) && (
+            <button
+              className={`badge ${bridge.status.error ? "badge-yellow" : "badge-gray"} text-xs`}
+              style={{ marginLeft: 8 }}
+              onClick={() => setIsBridgeOpen(true)}
+              title={bridge.status.error ?? `WebSocket bridge on port ${bridge.status.port}`}
+            >
+              <Radio size={11} className="mr-1 inline" />
+              {bridge.status.error
+                ? "Bridge stopped"
+                : `${bridge.status.clients.length} bridge client${bridge.status.clients.length === 1 ? "" : "s"}`}
+            </button>
+          )}
+          {(osc.status.running || osc.status.error) && (
+            <button
+              className={`badge ${osc.status.error ? "badge-yellow" : "badge-gray"} text-xs`}
+              style={{ marginLeft: 8 }}
+              onClick={() => setIsOscOpen(true)}
+              title={osc.status.error ?? "OSC settings"}
+            >
+              <Music2 size={11} className="mr-1 inline" />
+              {osc.status.error ? "OSC stopped" : "OSC"}
+            </button>
+          )}
+          <button
+            className={`btn ${showCharts ? "btn-primary" : "btn-outline"} btn-sm ml-auto`}
+            onClick={() => setShowCharts(!showCharts)}
+          >
+            <LineChart size={13} className="mr-2" />
+            Charts
+          </button>
+          <button
+            className={`btn ${showConsole ? "btn-primary" : "btn-outline"} btn-sm`}
+            onClick={() => setShowConsole(!showConsole)}
+          >
+            <Terminal size={13} className="mr-2" />
+            Console
+          </button>
+          <button className="btn btn-outline btn-sm" onClick={() => setIsKeymapOpen(true)} title="Keyboard shortcuts">
+            <Keyboard size={13} />
+          </button>
         </header>
 
-        {/* Content container with vertical centering */}
-        <div className="flex-1 flex flex-col items-center justify-center p-4">
-          {/* Dial Container - side by side layout with centered main dial */}
-          <div className="flex justify-center items-center" style={{ width: "100%", maxWidth: 1200 }}>
-            {/* Torque Dial */}
-            <div className="flex-1 flex justify-end" style={{ width: 250, height: 100, marginRight: "20px" }}>
-              <TorqueDial
-                velocity={state.currentTorque}
-                isConnected={isConnected}
-                isDeviceResponding={isDeviceResponding}
-              />
-            </div>
-
-            {/* Main Dial */}
-            <div className="shrink-0" style={{ width: 400 }}>
-              {state.deviceType === "knob" ? (
-                <DialVisualization
-                  mode={state.mode}
-                  angle={filteredAngle}
-                  velocity={state.currentVelocity}
-                  torque={state.currentTorque}
-                  targetAngle={state.targetAngle}
-                  endstopMinAngle={state.endstopMinAngle}
-                  endstopMaxAngle={state.endstopMaxAngle}
-                  isConnected={isConnected}
-                  lastUpdate={lastAngleUpdate}
-                  isDeviceResponding={isDeviceResponding}
-                  deviceType="knob"
-                />
-              ) : (
-                <SteeringWheelVisualization
-                  mode={state.mode}
-                  angle={filteredAngle}
-                  velocity={state.currentVelocity}
-                  torque={state.currentTorque}
-                  targetAngle={state.targetAngle}
-                  endstopMinAngle={state.endstopMinAngle}
-                  endstopMaxAngle={state.endstopMaxAngle}
-                  isConnected={isConnected}
-                  lastUpdate={lastAngleUpdate}
-                  isDeviceResponding={isDeviceResponding}
-                  deviceType={state.deviceType}
-                />
-              )}
-            </div>
-
-            {/* Velocity Dial */}
-            <div className="flex-1 flex justify-start" style={{ width: 250, height: 100, marginLeft: "20px" }}>
-              <VelocityDial
-                velocity={state.currentVelocity}
-                isConnected={isConnected}
-                isDeviceResponding={isDeviceResponding}
-              />
-            </div>
-          </div>
+        <ResizablePanelGroup direction="vertical" className="flex-1 min-h-0">
+          <ResizablePanel
+            id="dial-panel"
+            order={1}
+            defaultSize={100 - (showCharts ? 40 : 0) - (showConsole ? 25 : 0)}
+            minSize={30}
+          >
+            {/* Content container with vertical centering */}
+            <div className="h-full overflow-auto flex flex-col items-center justify-center p-4">
+              {/* Dial Container - side by side layout with centered main dial */}
+              <div className="flex justify-center items-center" style={{ width: "100%", maxWidth: 1200 }}>
+                {/* Torque Dial */}
+                <div className="flex-1 flex justify-end" style={{ width: 250, height: 100, marginRight: "20px" }}>
+                  <TorqueDial
+                    velocity={state.currentTorque}
+                    isConnected={isConnected}
+                    isDeviceResponding={isDeviceResponding}
+                  />
+                </div>
 
-          {/* Controls below dial */}
-          <div className="w-full max-w-2xl flex flex-col items-center mt-4">
-            {state.mode === "increased-torque" && (
-              <div className="form-control" style={{ maxWidth: 220, margin: "0 auto" }}>
-                <label className="form-label">Torque (0.0 - 2.0)</label>
-                <input
-                  type="number"
-                  className="form-input text-sm px-2 py-1"
-                  min="0"
-                  max="1"
-                  step="0.1"
-                  value={state.torque}
-                  onChange={(e) => updateState({ torque: Number.parseFloat(e.target.value) || 0 })}
-                  style={{ fontSize: "1rem", width: "100%" }}
-                />
-                <div className="text-xs text-gray-400 mt-1">Current: {state.torque.toFixed(1)}</div>
-              </div>
-            )}
+                {/* Main Dial */}
+                <div className="shrink-0" style={{ width: 400 }}>
+                  {state.deviceType === "knob" ? (
+                    <DialVisualization
+                      mode={state.mode}
+                      angle={filteredAngle}
+                      velocity={state.currentVelocity}
+                      torque={state.currentTorque}
+                      targetAngle={state.targetAngle}
+                      endstopMinAngle={state.endstopMinAngle}
+                      endstopMaxAngle={state.endstopMaxAngle}
+                      customDetents={detentPreview ?? state.customDetents}
+                      isConnected={isConnected}
+                      lastUpdate={lastAngleUpdate}
+                      isDeviceResponding={isDeviceResponding}
+                      deviceType="knob"
+                      maxEndstopSpan={(deviceIdentity?.maxTurns ?? SETTING_RANGES.endstopTurns[1]) * 360}
+                      onTargetAngleChange={handleTargetAngleDrag}
+                      onEndstopRangeChange={handleEndstopRangeDrag}
+                    />
+                  ) : (
+                    <SteeringWheelVisualization
+                      mode={state.mode}
+                      angle={filteredAngle}
+                      velocity={state.currentVelocity}
+                      torque={state.currentTorque}
+                      targetAngle={state.targetAngle}
+                      endstopMinAngle={state.endstopMinAngle}
+                      endstopMaxAngle={state.endstopMaxAngle}
+                      customDetents={detentPreview ?? state.customDetents}
+                      isConnected={isConnected}
+                      lastUpdate={lastAngleUpdate}
+                      isDeviceResponding={isDeviceResponding}
+                      deviceType={state.deviceType}
+                      maxEndstopSpan={(deviceIdentity?.maxTurns ?? SETTING_RANGES.endstopTurns[1]) * 360}
+                      onTargetAngleChange={handleTargetAngleDrag}
+                      onEndstopRangeChange={handleEndstopRangeDrag}
+                    />
+                  )}
+                </div>
 
-            {state.mode === "proportional-control" && (
-              <div className="form-control" style={{ maxWidth: 220, margin: "0 auto" }}>
-                <label className="form-label">Stiffness</label>
-                <input
-                  type="number"
-                  className="form-input text-sm px-2 py-1"
-                  min="0"
-                  max="2"
-                  step="0.1"
-                  value={state.stiffness}
-                  onChange={(e) => updateState({ stiffness: Number.parseFloat(e.target.value) || 0 })}
-                  style={{ fontSize: "1rem", width: "100%" }}
-                />
-                <div className="text-xs text-gray-400 mt-1">Current: {state.stiffness.toFixed(1)}</div>
+                {/* Velocity Dial */}
+                <div className="flex-1 flex justify-start" style={{ width: 250, height: 100, marginLeft: "20px" }}>
+                  <VelocityDial
+                    velocity={state.currentVelocity}
+                    isConnected={isConnected}
+                    isDeviceResponding={isDeviceResponding}
+                  />
+                </div>
               </div>
-            )}
 
-            {state.mode === "endstops" && (
-              <div className="flex flex-col space-y-4" style={{ maxWidth: 220, margin: "0 auto" }}>
-                <div className="form-control">
-                  <label className="form-label">Endstop Mode</label>
-                  <select
-                    className="form-select text-sm px-2 py-1"
-                    value={state.endstopMode}
-                    onChange={(e) => {
-                      const newMode = e.target.value as EndstopMode
-                      updateState({ endstopMode: newMode })
-                      if (isConnected && window.electronAPI) {
-                        sendTFDConfig()
-                      }
-                    }}
-                    style={{ fontSize: "1rem", width: "100%" }}
-                  >
-                    <option value="none">None</option>
-                    <option value="proportional">Proportional</option>
-                    <option value="soft">Soft Detents</option>
-                    <option value="medium">Medium Detents</option>
-                    <option value="rough">Rough Detents</option>
-                    <option value="center">Center Detent</option>
-                  </select>
+              {/* What the last configuration change (including a drag on the dial) sent */}
+              {lastResponse?.command === "tfd_config" && (
+                <div className="text-xs text-gray-500 font-mono mt-2">
+                  Sent: {lastResponse.sent.trim().split("\n").join(" · ")}
                 </div>
+              )}
 
-                <div className="form-control">
-                  <label className="form-label">Turns Lock-to-Lock</label>
-                  <input
-                    type="number"
-                    className="form-input text-sm px-2 py-1"
-                    min="0.0"
-                    max="10"
-                    step="0.5"
-                    value={state.endstopTurns}
-                    onChange={(e) => {
-                      const newTurns = Number.parseFloat(e.target.value) || 0.5
-                      updateState({ endstopTurns: newTurns })
-                      if (isConnected && window.electronAPI) {
-                        sendTFDConfig()
-                      }
-                    }}
-                    style={{ fontSize: "1rem", width: "100%" }}
-                  />
-                  <div className="text-xs text-gray-400 mt-1">
-                    Range: {state.endstopMinAngle.toFixed(0)}° to {state.endstopMaxAngle.toFixed(0)}°
+              {/* Controls below dial */}
+              <div className="w-full max-w-2xl flex flex-col items-center mt-4">
+                {state.mode === "increased-torque" && (
+                  <div className="form-control" style={{ maxWidth: 220, margin: "0 auto" }}>
+                    <label className="form-label">Torque (0.0 - 2.0)</label>
+                    <input
+                      type="number"
+                      className="form-input text-sm px-2 py-1"
+                      min="0"
+                      max="1"
+                      step="0.1"
+                      value={state.torque}
+                      onChange={(e) => updateState({ torque: Number.parseFloat(e.target.value) || 0 })}
+                      style={{ fontSize: "1rem", width: "100%" }}
+                    />
+                    <div className="text-xs text-gray-400 mt-1">Current: {state.torque.toFixed(1)}</div>
                   </div>
-                </div>
+                )}
+
+                {state.mode === "proportional-control" && (
+                  <div className="form-control" style={{ maxWidth: 220, margin: "0 auto" }}>
+                    <label className="form-label">Stiffness</label>
+                    <input
+                      type="number"
+                      className="form-input text-sm px-2 py-1"
+                      min="0"
+                      max="2"
+                      step="0.1"
+                      value={state.stiffness}
+                      onChange={(e) => updateState({ stiffness: Number.parseFloat(e.target.value) || 0 })}
+                      style={{ fontSize: "1rem", width: "100%" }}
+                    />
+                    <div className="text-xs text-gray-400 mt-1">Current: {state.stiffness.toFixed(1)}</div>
+                    <div className="text-xs text-gray-400">
+                      Target: {state.targetAngle.toFixed(0)}° (drag the handle on the dial)
+                    </div>
+                  </div>
+                )}
+
+                {state.mode === "endstops" && (
+                  <div className="flex flex-col space-y-4" style={{ maxWidth: 220, margin: "0 auto" }}>
+                    <div className="form-control">
+                      <label className="form-label">Endstop Mode</label>
+                      <select
+                        className="form-select text-sm px-2 py-1"
+                        value={state.endstopMode}
+                        onChange={(e) => {
+                          const newMode = e.target.value as EndstopMode
+                          updateState({ endstopMode: newMode })
+                        }}
+                        style={{ fontSize: "1rem", width: "100%" }}
+                      >
+                        <option value="none">None</option>
+                        <option value="proportional">Proportional</option>
+                        <option value="soft">Soft Detents</option>
+                        <option value="medium">Medium Detents</option>
+                        <option value="rough">Rough Detents</option>
+                        <option value="center">Center Detent</option>
+                      </select>
+                    </div>
+
+                    <div className="form-control">
+                      <label className="form-label">Turns Lock-to-Lock</label>
+                      <input
+                        type="number"
+                        className="form-input text-sm px-2 py-1"
+                        min="0.0"
+                        max={deviceIdentity?.maxTurns ?? 10}
+                        step="0.5"
+                        // Dragged ranges aren't whole half-turns
+                        value={Number(state.endstopTurns.toFixed(3))}
+                        onChange={(e) => {
+                          const newTurns = Number.parseFloat(e.target.value) || 0.5
+                          updateState({ endstopTurns: newTurns })
+                        }}
+                        style={{ fontSize: "1rem", width: "100%" }}
+                      />
+                      <div className="text-xs text-gray-400 mt-1">
+                        Range: {state.endstopMinAngle.toFixed(0)}° to {state.endstopMaxAngle.toFixed(0)}° (drag the
+                        markers on the dial to adjust)
+                      </div>
+                    </div>
+
+                    <div className="form-control">
+                      <label className="form-label">Range Centre (°)</label>
+                      <input
+                        type="number"
+                        className="form-input text-sm px-2 py-1"
+                        min={SETTING_RANGES.endstopCenter[0]}
+                        max={SETTING_RANGES.endstopCenter[1]}
+                        step="5"
+                        value={state.endstopCenter}
+                        onChange={(e) => updateState({ endstopCenter: Number.parseFloat(e.target.value) || 0 })}
+                        style={{ fontSize: "1rem", width: "100%" }}
+                      />
+                      {state.endstopCenter !== 0 && deviceIdentity && !supportsEndstopOffset(deviceIdentity) && (
+                        <div className="text-xs text-yellow-400 mt-1">
+                          Firmware {deviceIdentity.firmwareVersion} can't offset endstops; the device centres the range
+                          on 0°
+                        </div>
+                      )}
+                    </div>
+
+                    <div className="flex items-center justify-between">
+                      <button
+                        className={`tab relative inline-flex h-6 w-11 items-center rounded-full transition-colors focus:outline-none ${
+                          state.isSticky ? "active" : ""
+                        }`}
+                        onClick={() => {
+                          updateState({ isSticky: !state.isSticky })
+                        }}
+                      >
+                      </button>
+
+                    <button
+                      className="btn btn-outline btn-sm flex-1"
+                      onClick={() => {
+                        updateState({ isSticky: !state.isSticky })
+                      }}
+                      disabled={!state.isSticky}
+                      style={{ fontSize: "0.85rem", padding: "0.2rem 0" }}
+                    >
+                      Sticky
+                    </button>
+                    </div>
+                  </div>
+                )}
 
-                <div className="flex items-center justify-between">
-                  <button
-                    className={`tab relative inline-flex h-6 w-11 items-center rounded-full transition-colors focus:outline-none ${
-                      state.isSticky ? "active" : ""
-                    }`}
-                    onClick={() => {
-                      const newSticky = !state.isSticky
-                      updateState({ isSticky: newSticky })
-                      if (isConnected && window.electronAPI) {
-                        window.electronAPI.serialWrite(`set sticky:${newSticky ? "on" : "off"}\n`)
-                      }
-                    }}
-                  >
-                  </button>
-
-                <button
-                  className="btn btn-outline btn-sm flex-1"
-                  onClick={() => {
-                    const newSticky = !state.isSticky
-                    updateState({ isSticky: newSticky })
-                    if (isConnected && window.electronAPI) {
-                      window.electronAPI.serialWrite(`set sticky:${newSticky ? "on" : "off"}\n`)
-                    }
-                  }}
-                  disabled={!state.isSticky}
-                  style={{ fontSize: "0.85rem", padding: "0.2rem 0" }}
-                >
-                  Sticky
-                </button>
-                </div>
+                {state.mode === "custom-detents" && (
+                  <DetentDesigner
+                    detents={state.customDetents}
+                    onPreview={setDetentPreview}
+                    onApply={(customDetents) => updateState({ customDetents })}
+                  />
+                )}
+
+                {state.mode === "inertial-control" && (
+                  <div className="form-control" style={{ maxWidth: 220, margin: "0 auto" }}>
+                    <label className="form-label">Inertia Factor</label>
+                    <input
+                      type="number"
+                      className="form-input text-sm px-2 py-1"
+                      min="0"
+                      max="5"
+                      step="0.1"
+                      value={state.stiffness}
+                      onChange={(e) => updateState({ stiffness: Number.parseFloat(e.target.value) || 0 })}
+                      style={{ fontSize: "1rem", width: "100%" }}
+                    />
+                    <div className="text-xs text-gray-400 mt-1">Current: {state.stiffness.toFixed(1)}</div>
+                  </div>
+                )}
               </div>
-            )}
-
-            {state.mode === "inertial-control" && (
-              <div className="form-control" style={{ maxWidth: 220, margin: "0 auto" }}>
-                <label className="form-label">Inertia Factor</label>
-                <input
-                  type="number"
-                  className="form-input text-sm px-2 py-1"
-                  min="0"
-                  max="5"
-                  step="0.1"
-                  value={state.stiffness}
-                  onChange={(e) => updateState({ stiffness: Number.parseFloat(e.target.value) || 0 })}
-                  style={{ fontSize: "1rem", width: "100%" }}
+            </div>
+          </ResizablePanel>
+          {showCharts && (
+            <>
+              <ResizableHandle withHandle className="bg-gray-700" />
+              <ResizablePanel id="chart-panel" order={2} defaultSize={40} minSize={15}>
+                <div className="flex flex-col h-full min-h-0">
+                  <div className="flex gap-1 px-2 pt-2">
+                    <button
+                      className={`btn ${chartView === "time" ? "btn-primary" : "btn-outline"} btn-sm`}
+                      onClick={() => setChartView("time")}
+                      style={{ padding: "0.15rem 0.5rem" }}
+                    >
+                      Time series
+                    </button>
+                    <button
+                      className={`btn ${chartView === "profile" ? "btn-primary" : "btn-outline"} btn-sm`}
+                      onClick={() => setChartView("profile")}
+                      style={{ padding: "0.15rem 0.5rem" }}
+                    >
+                      Torque vs angle
+                    </button>
+                  </div>
+                  <div className="flex-1 min-h-0">
+                    {chartView === "time" ? (
+                      <TelemetryCharts buffer={telemetryBufferRef.current} />
+                    ) : (
+                      <TorqueAnglePlot
+                        buffer={telemetryBufferRef.current}
+                        mode={state.mode}
+                        targetAngle={state.targetAngle}
+                        endstopMinAngle={state.endstopMinAngle}
+                        endstopMaxAngle={state.endstopMaxAngle}
+                        customDetents={state.customDetents}
+                      />
+                    )}
+                  </div>
+                </div>
+              </ResizablePanel>
+            </>
+          )}
+          {showConsole && (
+            <>
+              <ResizableHandle withHandle className="bg-gray-700" />
+              <ResizablePanel id="console-panel" order={3} defaultSize={25} minSize={10}>
+                <SerialConsole
+                  log={consoleLogRef.current}
+                  isConnected={isConnected}
+                  onSend={sendRawCommand}
+                  onError={setError}
                 />
-                <div className="text-xs text-gray-400 mt-1">Current: {state.stiffness.toFixed(1)}</div>
-              </div>
-            )}
-          </div>
-        </div>
+              </ResizablePanel>
+            </>
+          )}
+        </ResizablePanelGroup>
       </div>
     </div>
   )
@@ -1519,10 +2917,14 @@ interface DialVisualizationProps {
   targetAngle: number
   endstopMinAngle: number
   endstopMaxAngle: number
+  customDetents: CustomDetent[]
   isConnected: boolean
   lastUpdate: Date | null
   isDeviceResponding: boolean
   deviceType: DeviceType
+  maxEndstopSpan: number
+  onTargetAngleChange: (angle: number) => void
+  onEndstopRangeChange: (minAngle: number, maxAngle: number) => void
 }
 
 function DialVisualization({
@@ -1533,10 +2935,14 @@ function DialVisualization({
   targetAngle,
   endstopMinAngle,
   endstopMaxAngle,
+  customDetents,
   isConnected,
   lastUpdate,
   isDeviceResponding,
   deviceType,
+  maxEndstopSpan,
+  onTargetAngleChange,
+  onEndstopRangeChange,
 }: DialVisualizationProps) {
   // Helper to wrap angle to -180 to 180
   const wrap180 = (angle: number) => {
@@ -1663,6 +3069,7 @@ function DialVisualization({
         <text x={maxTextX} y={maxTextY + 22} textAnchor="middle" fill="red" fontSize="16" fontWeight="bold">
           {endstopMaxAngle.toFixed(0)}°
         </text>
+        {renderEndstopCenter(endstopMinAngle, endstopMaxAngle)}
       </>
     )
   }
@@ -1682,24 +3089,6 @@ function DialVisualization({
     )
   }
 
-  const renderTargetIndicator = () => {
-    if (mode !== "proportional-control") return null
-
-    const adjustedTargetAngle = targetAngle + 180
-    const targetX = 200 + Math.cos(((adjustedTargetAngle - 90) * Math.PI) / 180) * 160
-    const targetY = 200 + Math.sin(((adjustedTargetAngle - 90) * Math.PI) / 180) * 160
-
-    // return (
-      // <g>
-      //   <circle cx={targetX} cy={targetY} r="12" fill="none" stroke="yellow" strokeWidth="3" opacity={0.8} />
-      //   <text x={targetX} y={targetY + 25} textAnchor="middle" fill="yellow" fontSize="10">
-      //     Target
-      //   </text>
-      // </g>
-    // )
-    return null
-  }
-
   const renderReferenceMark = () => {
     const radius = 190 // Slightly larger than the dial radius
     const markLength = 10
@@ -1737,15 +3126,15 @@ function DialVisualization({
 
         <circle cx="200" cy="200" r="180" fill="none" stroke={getDialColor()} strokeWidth={getStrokeWidth()} />
 
-        {mode === "soft-detents" && renderDetents(12, "soft")}
-        {mode === "medium-detents" && renderDetents(12, "medium")}
-        {mode === "rough-detents" && renderDetents(12, "rough")}
-        {mode === "center-detent" && renderDetents(1, "center")}
-        {mode === "latch" && renderDetents(12, "latch")}
+        {mode === "soft-detents" && renderDetents(DIAL_DETENT_COUNTS[mode]!, "soft")}
+        {mode === "medium-detents" && renderDetents(DIAL_DETENT_COUNTS[mode]!, "medium")}
+        {mode === "rough-detents" && renderDetents(DIAL_DETENT_COUNTS[mode]!, "rough")}
+        {mode === "center-detent" && renderDetents(DIAL_DETENT_COUNTS[mode]!, "center")}
+        {mode === "latch" && renderDetents(DIAL_DETENT_COUNTS[mode]!, "latch")}
+        {mode === "custom-detents" && renderCustomDetents(customDetents, getDialColor())}
         {mode === "endstops" && renderEndstops()}
         {mode === "clockwise" && renderDirectionalArrow(true)}
         {mode === "counterclockwise" && renderDirectionalArrow(false)}
-        {renderTargetIndicator()}
 
         {mode === "lock" && (
           <g transform="translate(185, 185)">
@@ -1786,12 +3175,63 @@ function DialVisualization({
             {(angle / 360).toFixed(2)} turns
           </text>
         )}
+        <DialHandles
+          mode={mode}
+          targetAngle={targetAngle}
+          endstopMinAngle={endstopMinAngle}
+          endstopMaxAngle={endstopMaxAngle}
+          maxEndstopSpan={maxEndstopSpan}
+          targetRadius={160}
+          rimRadius={180}
+          onTargetAngleChange={onTargetAngleChange}
+          onEndstopRangeChange={onEndstopRangeChange}
+        />
         {renderReferenceMark()}
       </svg>
     </div>
   )
 }
 
+// Dashed tick at the middle of an offset endstop range, shared by the dial and the steering wheel
+function renderEndstopCenter(endstopMinAngle: number, endstopMaxAngle: number) {
+  const center = (endstopMinAngle + endstopMaxAngle) / 2
+  if (center === 0) return null
+
+  const inner = dialPoint(center, 155)
+  const outer = dialPoint(center, 180)
+  return (
+    <line x1={inner.x} y1={inner.y} x2={outer.x} y2={outer.y} stroke="red" strokeWidth="3" strokeDasharray="4 3">
+      <title>Range centre: {center.toFixed(0)}°</title>
+    </line>
+  )
+}
+
+// Custom detent table: an arc over each detent's width, thicker for stronger detents
+function renderCustomDetents(detents: CustomDetent[], color: string) {
+  return detents.map((detent, index) => {
+    const start = dialPoint(detent.angle - detent.width / 2, 168)
+    const end = dialPoint(detent.angle + detent.width / 2, 168)
+    const tickInner = dialPoint(detent.angle, 156)
+    const tickOuter = dialPoint(detent.angle, 180)
+    return (
+      <g key={`custom-detent-${index}`}>
+        <path
+          d={`M ${start.x} ${start.y} A 168 168 0 0 1 ${end.x} ${end.y}`}
+          fill="none"
+          stroke={color}
+          strokeWidth={2 + detent.strength * 12}
+          opacity={0.35}
+        />
+        <line x1={tickInner.x} y1={tickInner.y} x2={tickOuter.x} y2={tickOuter.y} stroke="white" strokeWidth={1.5}>
+          <title>
+            {detent.angle}° · {detent.strength} Nm · {detent.width}°
+          </title>
+        </line>
+      </g>
+    )
+  })
+}
+
 // New Steering Wheel Visualization Component
 interface SteeringWheelVisualizationProps {
   mode: HapticMode
@@ -1801,10 +3241,14 @@ interface SteeringWheelVisualizationProps {
   targetAngle: number
   endstopMinAngle: number
   endstopMaxAngle: number
+  customDetents: CustomDetent[]
   isConnected: boolean
   lastUpdate: Date | null
   isDeviceResponding: boolean
   deviceType: DeviceType
+  maxEndstopSpan: number
+  onTargetAngleChange: (angle: number) => void
+  onEndstopRangeChange: (minAngle: number, maxAngle: number) => void
 }
 
 function SteeringWheelVisualization({
@@ -1815,10 +3259,14 @@ function SteeringWheelVisualization({
   targetAngle,
   endstopMinAngle,
   endstopMaxAngle,
+  customDetents,
   isConnected,
   lastUpdate,
   isDeviceResponding,
   deviceType,
+  maxEndstopSpan,
+  onTargetAngleChange,
+  onEndstopRangeChange,
 }: SteeringWheelVisualizationProps) {
   const wrap180 = (angle: number) => {
     // const a = ((((angle + 180) % 360) + 360) % 360) - 180
@@ -1988,11 +3436,18 @@ function SteeringWheelVisualization({
         <text x={minTextX} y={minTextY} textAnchor="middle" fill="red" fontSize="18" fontWeight="bold">
           L
         </text>
+        <text x={minTextX} y={minTextY + 22} textAnchor="middle" fill="red" fontSize="16" fontWeight="bold">
+          {endstopMinAngle.toFixed(0)}°
+        </text>
 
         <line x1={maxX} y1={maxY} x2={maxIndicatorX} y2={maxIndicatorY} stroke="red" strokeWidth="8" />
         <text x={maxTextX} y={maxTextY} textAnchor="middle" fill="red" fontSize="18" fontWeight="bold">
           R
         </text>
+        <text x={maxTextX} y={maxTextY + 22} textAnchor="middle" fill="red" fontSize="16" fontWeight="bold">
+          {endstopMaxAngle.toFixed(0)}°
+        </text>
+        {renderEndstopCenter(endstopMinAngle, endstopMaxAngle)}
       </>
     )
   }
@@ -2059,6 +3514,18 @@ function SteeringWheelVisualization({
         {/* Mode-specific elements */}
         {mode === "endstops" && renderEndstops()}
         {mode === "inertial-control" && renderInertialIndicator()}
+        {mode === "custom-detents" && renderCustomDetents(customDetents, getDialColor())}
+        <DialHandles
+          mode={mode}
+          targetAngle={targetAngle}
+          endstopMinAngle={endstopMinAngle}
+          endstopMaxAngle={endstopMaxAngle}
+          maxEndstopSpan={maxEndstopSpan}
+          targetRadius={150}
+          rimRadius={180}
+          onTargetAngleChange={onTargetAngleChange}
+          onEndstopRangeChange={onEndstopRangeChange}
+        />
 
         {/* Top indicator (12 o'clock position) - now a simple line mark on the rim */}
         {/* <line x1="200" y1="20" x2="200" y2="40" stroke={getDialColor()} strokeWidth="4" strokeLinecap="round" /> */}
@@ -2096,53 +3563,6 @@ function SteeringWheelVisualization({
   )
 }
 
-// Helper function to format haptic commands using your protocol
-function formatTFDCommand(config: TFDState): string {
-  switch (config.mode) {
-    case "none":
-      return "set normal\n"
-    case "soft-detents":
-      return "set detent:ultra\n"
-    case "medium-detents":
-      return "set detent:fine\n"
-    case "rough-detents":
-      return "set detent:coarse\n"
-    case "clockwise":
-      return "set cw\n"
-    case "counterclockwise":
-      return "set ccw\n"
-    case "increased-torque":
-      return `set constant:${config.torque.toFixed(1)}\n`
-    case "lock":
-      return "set constant:1.0\n"
-    case "endstops":
-      switch (config.endstopMode) {
-        case "proportional":
-          return `set endstops-proportional:${config.endstopTurns.toFixed(1)}\n`
-        case "soft":
-          return `set endstops-ultra:${config.endstopTurns.toFixed(1)}\n`
-        case "medium":
-          return `set endstops-fine:${config.endstopTurns.toFixed(1)}\n`
-        case "rough":
-          return `set endstops-coarse:${config.endstopTurns.toFixed(1)}\n`
-        case "center":
-          return `set endstops-center:${config.endstopTurns.toFixed(1)}\n`
-        default:
-          return `set endstops:${config.endstopTurns.toFixed(1)}\n`
-      }
-    case "center-detent":
-      return "set detent:center\n"
-    case "proportional-control":
-      return `set proportional:${config.targetAngle.toFixed(1)},${config.stiffness.toFixed(1)}\n`
-    case "inertial-control":
-      return `set inertial:${config.stiffness.toFixed(1)}\n`
-    case "latch":
-      return "set latch\n"
-    default:
-      return "set normal\n"
-  }
-}
-
 // Velocity Dial component (Speedometer) - Now displays Torque (0-1 Nm)
 interface TorqueDialProps {
   velocity: number; // This prop will now be used for torque
@@ -0,0 +1,201 @@
+"use client"
+import { useEffect, useState } from "react"
+import { RotateCcw } from "lucide-react"
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog"
+import type { OscState } from "@/hooks/use-osc"
+import {
+  DEFAULT_OSC_ADDRESSES,
+  OSC_INPUTS,
+  OSC_OUTPUTS,
+  OSC_SIGNAL_LABELS,
+  oscConfigProblems,
+  type OscConfig,
+  type OscInput,
+  type OscOutput,
+} from "@/lib/osc"
+
+interface OscSettingsProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  osc: OscState
+}
+
+const smallButtonStyle = { padding: "0.15rem 0.5rem" }
+
+const STATUS_REFRESH_MS = 1000
+
+// Network settings, address mapping and live message counters for OSC
+export function OscSettings({ open, onOpenChange, osc }: OscSettingsProps) {
+  const { config, status, refreshStatus, saveConfig } = osc
+  const [draft, setDraft] = useState<OscConfig | null>(config)
+  const [message, setMessage] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (open) {
+      setDraft(config)
+      setMessage(null)
+    }
+  }, [open, config])
+
+  useEffect(() => {
+    if (!open) return
+    const timer = setInterval(refreshStatus, STATUS_REFRESH_MS)
+    return () => clearInterval(timer)
+  }, [open, refreshStatus])
+
+  if (!draft) return null
+
+  const problems = oscConfigProblems(draft)
+  const isChanged = JSON.stringify(draft) !== JSON.stringify(config)
+
+  const update = (changes: Partial<OscConfig>) => setDraft({ ...draft, ...changes })
+  const updateAddress = (name: OscOutput | OscInput, address: string) =>
+    setDraft({ ...draft, addresses: { ...draft.addresses, [name]: address.trim() } })
+
+  const handleApply = async () => {
+    setIsSaving(true)
+    setMessage(null)
+    try {
+      await saveConfig(draft)
+    } catch (err) {
+      console.error("Failed to apply OSC settings:", err)
+      setMessage(err instanceof Error ? err.message : "Failed to apply settings")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const numberInput = (label: string, field: "listenPort" | "targetPort" | "sendRateHz" | "receiveRateHz") => (
+    <label className="flex items-center gap-2 text-sm">
+      <span className="w-24 text-gray-400">{label}</span>
+      <input
+        type="number"
+        className="form-input text-sm px-2 py-1 w-24"
+        value={draft[field]}
+        onChange={(e) => update({ [field]: Number(e.target.value) })}
+      />
+    </label>
+  )
+
+  const addressRow = (name: OscOutput | OscInput) => (
+    <div key={name} className="flex items-center gap-2">
+      <span className="w-48 text-xs text-gray-400">{OSC_SIGNAL_LABELS[name]}</span>
+      <input
+        className="form-input font-mono text-xs px-2 py-1 flex-1"
+        value={draft.addresses[name]}
+        placeholder="off"
+        onChange={(e) => updateAddress(name, e.target.value)}
+      />
+    </div>
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl bg-gray-900 border border-gray-700 text-white">
+        <DialogTitle>OSC</DialogTitle>
+        <p className="text-sm text-gray-400">
+          Sends the visible device&apos;s telemetry as OSC messages over UDP and applies mapped messages to it. Leave an
+          address empty to turn it off.
+        </p>
+
+        <div className="space-y-3">
+          <div className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              id="osc-enabled"
+              checked={draft.enabled}
+              onChange={(e) => update({ enabled: e.target.checked })}
+              className="w-4 h-4"
+            />
+            <label htmlFor="osc-enabled" className="form-label mb-0">
+              Enable OSC
+            </label>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <label className="flex items-center gap-2 text-sm">
+              <span className="w-24 text-gray-400">Send to host</span>
+              <input
+                className="form-input text-sm px-2 py-1 w-32"
+                value={draft.targetHost}
+                onChange={(e) => update({ targetHost: e.target.value.trim() })}
+              />
+            </label>
+            {numberInput("Send to port", "targetPort")}
+            {numberInput("Max send rate", "sendRateHz")}
+            {numberInput("Listen port", "listenPort")}
+            {numberInput("Max input rate", "receiveRateHz")}
+            <div className="flex items-center space-x-2 text-sm">
+              <input
+                type="checkbox"
+                id="osc-network"
+                checked={draft.listenAddress === "0.0.0.0"}
+                onChange={(e) => update({ listenAddress: e.target.checked ? "0.0.0.0" : "127.0.0.1" })}
+                className="w-4 h-4"
+              />
+              <label htmlFor="osc-network" className="text-gray-400">
+                Accept from other computers
+              </label>
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <div className="flex items-center">
+              <span className="flex-1 text-sm font-semibold">Outputs</span>
+              <button
+                className="btn btn-outline btn-sm"
+                onClick={() => update({ addresses: DEFAULT_OSC_ADDRESSES })}
+                title="Restore the default addresses"
+                style={smallButtonStyle}
+              >
+                <RotateCcw size={11} className="mr-1" />
+                Defaults
+              </button>
+            </div>
+            {OSC_OUTPUTS.map(addressRow)}
+            <div className="text-sm font-semibold pt-1">Inputs</div>
+            {OSC_INPUTS.map(addressRow)}
+          </div>
+
+          <div className="rounded border border-gray-700 bg-black/30 px-2 py-1 text-xs">
+            <div className="text-gray-400">
+              {status.running
+                ? `Running · ${status.sent} sent · ${status.received} received · ${status.coalesced} coalesced` +
+                  (status.rejected > 0 ? ` · ${status.rejected} malformed` : "")
+                : "Not running"}
+            </div>
+            {status.lastReceived && (
+              <div className="font-mono truncate">
+                Last: {status.lastReceived.address}{" "}
+                {status.lastReceived.args.map((arg) => JSON.stringify(arg)).join(" ")}{" "}
+                <span className="text-gray-500">from {status.lastReceived.from}</span>
+              </div>
+            )}
+            {status.error && <div className="text-red-400">{status.error}</div>}
+          </div>
+
+          {problems.length > 0 && (
+            <div className="text-xs text-red-400 space-y-0.5">
+              {problems.map((problem) => (
+                <div key={problem}>{problem}</div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex items-center justify-end gap-2">
+            {message && <span className="flex-1 text-xs text-gray-400">{message}</span>}
+            <button
+              className="btn btn-primary btn-sm"
+              onClick={handleApply}
+              disabled={!isChanged || problems.length > 0 || isSaving}
+              style={smallButtonStyle}
+            >
+              Apply
+            </button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,201 @@
+"use client"
+import { useState } from "react"
+import { Copy, Download, Pencil, Plus, Trash2, Upload } from "lucide-react"
+import type { PresetLibrary } from "@/hooks/use-presets"
+import type { HapticSettings } from "@/lib/protocol"
+import { sameDetents } from "@/lib/detent-design"
+
+interface PresetsPanelProps {
+  // Owned by the control surface so the command palette lists the same presets
+  library: PresetLibrary
+  currentSettings: HapticSettings
+  onApply: (settings: HapticSettings) => void
+  onError: (message: string) => void
+}
+
+const sameSettings = (a: HapticSettings, b: HapticSettings) =>
+  a.mode === b.mode &&
+  a.torque === b.torque &&
+  a.stiffness === b.stiffness &&
+  a.targetAngle === b.targetAngle &&
+  a.endstopTurns === b.endstopTurns &&
+  a.endstopCenter === b.endstopCenter &&
+  a.endstopMode === b.endstopMode &&
+  a.isSticky === b.isSticky &&
+  sameDetents(a.customDetents, b.customDetents)
+
+const iconButtonStyle = { padding: "0.1rem 0.3rem" }
+
+// Quick-apply list of factory and user presets for the current device type
+export function PresetsPanel({ library, currentSettings, onApply, onError }: PresetsPanelProps) {
+  const { presets, userPresets, createPreset, renamePreset, duplicatePreset, deletePreset, importPresets, exportPresets } =
+    library
+  const [newName, setNewName] = useState("")
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editingName, setEditingName] = useState("")
+
+  const saveCurrent = () => {
+    const name = newName.trim()
+    if (!name) return
+    createPreset(name, { ...currentSettings })
+    setNewName("")
+  }
+
+  const commitRename = () => {
+    if (editingId && editingName.trim()) {
+      renamePreset(editingId, editingName.trim())
+    }
+    setEditingId(null)
+  }
+
+  const handleImport = async () => {
+    if (!window.electronAPI) {
+      onError("Preset import is only available in the desktop app")
+      return
+    }
+
+    try {
+      const result = await window.electronAPI.openFile({
+        title: "Import Haptic Presets",
+        filters: [{ name: "JSON Files", extensions: ["json"] }],
+      })
+      if (result.canceled) return
+      if (!result.success || result.content === undefined) {
+        throw new Error(result.error || "Failed to read preset file")
+      }
+      importPresets(result.content)
+    } catch (err) {
+      console.error("Failed to import presets:", err)
+      onError(err instanceof Error ? err.message : "Failed to import presets")
+    }
+  }
+
+  const handleExport = async () => {
+    if (!window.electronAPI) {
+      onError("Preset export is only available in the desktop app")
+      return
+    }
+
+    try {
+      const result = await window.electronAPI.saveFile({
+        title: "Export Haptic Presets",
+        defaultPath: "haptic-presets.json",
+        filters: [{ name: "JSON Files", extensions: ["json"] }],
+        content: exportPresets(),
+      })
+      if (!result.success && !result.canceled) {
+        throw new Error(result.error || "Failed to export presets")
+      }
+    } catch (err) {
+      console.error("Failed to export presets:", err)
+      onError(err instanceof Error ? err.message : "Failed to export presets")
+    }
+  }
+
+  return (
+    <>
+      {presets.map((preset) => {
+        const isActive = sameSettings(preset.settings, currentSettings)
+
+        if (editingId === preset.id) {
+          return (
+            <input
+              key={preset.id}
+              className="form-input text-xs px-2 py-1 w-full"
+              value={editingName}
+              autoFocus
+              onChange={(e) => setEditingName(e.target.value)}
+              onBlur={commitRename}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") commitRename()
+                if (e.key === "Escape") setEditingId(null)
+              }}
+              style={{ fontSize: "0.85rem" }}
+            />
+          )
+        }
+
+        return (
+          <div
+            key={preset.id}
+            className={`sidebar-menu-item group ${isActive ? "active" : ""}`}
+            onClick={() => onApply({ ...preset.settings })}
+            title={preset.isFactory ? "Factory preset" : undefined}
+            style={{ fontSize: "0.85rem", padding: "0.3rem 0.5rem" }}
+          >
+            <span className="flex-1 min-w-0 truncate">{preset.name}</span>
+            <span className="hidden group-hover:flex items-center" onClick={(e) => e.stopPropagation()}>
+              {!preset.isFactory && (
+                <button
+                  className="btn btn-sm"
+                  title="Rename"
+                  style={iconButtonStyle}
+                  onClick={() => {
+                    setEditingId(preset.id)
+                    setEditingName(preset.name)
+                  }}
+                >
+                  <Pencil size={11} />
+                </button>
+              )}
+              <button
+                className="btn btn-sm"
+                title="Duplicate"
+                style={iconButtonStyle}
+                onClick={() => duplicatePreset(preset.id)}
+              >
+                <Copy size={11} />
+              </button>
+              {!preset.isFactory && (
+                <button
+                  className="btn btn-sm"
+                  title="Delete"
+                  style={iconButtonStyle}
+                  onClick={() => deletePreset(preset.id)}
+                >
+                  <Trash2 size={11} />
+                </button>
+              )}
+            </span>
+          </div>
+        )
+      })}
+
+      <div className="flex space-x-1">
+        <input
+          className="form-input flex-1 min-w-0 text-xs px-2 py-1"
+          placeholder="Save current as..."
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && saveCurrent()}
+          style={{ fontSize: "0.85rem" }}
+        />
+        <button
+          className="btn btn-outline btn-sm"
+          onClick={saveCurrent}
+          disabled={!newName.trim()}
+          title="Save current settings as a preset"
+          style={{ padding: "0.2rem 0.4rem" }}
+        >
+          <Plus size={13} />
+        </button>
+      </div>
+
+      <div className="flex space-x-1">
+        <button className="btn btn-outline btn-sm flex-1" onClick={handleImport} style={{ fontSize: "0.8rem" }}>
+          <Upload size={12} className="mr-1" />
+          Import
+        </button>
+        <button
+          className="btn btn-outline btn-sm flex-1"
+          onClick={handleExport}
+          disabled={userPresets.length === 0}
+          style={{ fontSize: "0.8rem" }}
+        >
+          <Download size={12} className="mr-1" />
+          Export
+        </button>
+      </div>
+    </>
+  )
+}
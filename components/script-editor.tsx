@@ -0,0 +1,248 @@
+"use client"
+import { useEffect, useRef, useState } from "react"
+import { CheckCircle2, Download, FileCode2, Play, Plus, Square, Trash2, Upload, XCircle } from "lucide-react"
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog"
+import type { TestScriptLibrary } from "@/hooks/use-test-scripts"
+import { SCRIPT_API, type ScriptStatus, type TestScript } from "@/lib/script-runner"
+
+interface ScriptEditorProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  library: TestScriptLibrary
+  // Owned by the control surface so the palette can open a given script
+  selectedId: string | null
+  onSelect: (id: string | null) => void
+  status: ScriptStatus
+  isConnected: boolean
+  onRun: (script: TestScript) => void
+  onAbort: () => void
+  onError: (message: string) => void
+}
+
+const smallButtonStyle = { padding: "0.15rem 0.5rem" }
+
+const formatLogTime = (ms: number) => `${(ms / 1000).toFixed(3).padStart(8)} s`
+
+// Lists the stored test scripts, edits the selected one and shows the output of the last run
+export function ScriptEditor({
+  open,
+  onOpenChange,
+  library,
+  selectedId,
+  onSelect,
+  status,
+  isConnected,
+  onRun,
+  onAbort,
+  onError,
+}: ScriptEditorProps) {
+  const { scripts, createScript, updateScript, deleteScript } = library
+  const selected = scripts.find((script) => script.id === selectedId) ?? scripts[0] ?? null
+  const [name, setName] = useState(selected?.name ?? "")
+  const logRef = useRef<HTMLDivElement>(null)
+  const isRunning = status.state === "running"
+
+  useEffect(() => {
+    setName(selected?.name ?? "")
+  }, [selected?.id, selected?.name])
+
+  useEffect(() => {
+    logRef.current?.scrollTo({ top: logRef.current.scrollHeight })
+  }, [status.logs.length])
+
+  const commitName = () => {
+    if (selected && name.trim() && name.trim() !== selected.name) {
+      updateScript(selected.id, { name: name.trim() })
+    } else {
+      setName(selected?.name ?? "")
+    }
+  }
+
+  const handleImport = async () => {
+    if (!window.electronAPI) {
+      onError("Opening scripts is only available in the desktop app")
+      return
+    }
+
+    try {
+      const result = await window.electronAPI.openFile({
+        title: "Open Test Script",
+        filters: [{ name: "Scripts", extensions: ["js", "ts"] }],
+      })
+      if (result.canceled) return
+      if (!result.success || result.content === undefined) {
+        throw new Error(result.error || "Failed to read script file")
+      }
+      const fileName = result.filePath?.split(/[\\/]/).pop()?.replace(/\.[jt]s$/, "")
+      onSelect(createScript(fileName || "Imported script", result.content))
+    } catch (err) {
+      console.error("Failed to open script:", err)
+      onError(err instanceof Error ? err.message : "Failed to open script")
+    }
+  }
+
+  const handleExport = async () => {
+    if (!window.electronAPI || !selected) return
+
+    try {
+      const result = await window.electronAPI.saveFile({
+        title: "Save Test Script",
+        defaultPath: `${selected.name}.js`,
+        filters: [{ name: "Scripts", extensions: ["js", "ts"] }],
+        content: selected.source,
+      })
+      if (!result.success && !result.canceled) {
+        throw new Error(result.error || "Failed to save script")
+      }
+    } catch (err) {
+      console.error("Failed to save script:", err)
+      onError(err instanceof Error ? err.message : "Failed to save script")
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl bg-gray-900 border border-gray-700 text-white">
+        <DialogTitle>Test Scripts</DialogTitle>
+
+        <div className="flex gap-3 min-h-0">
+          <div className="flex flex-col w-48 shrink-0 space-y-1">
+            <div className="max-h-80 overflow-y-auto">
+              {scripts.map((script) => (
+                <div
+                  key={script.id}
+                  className={`sidebar-menu-item group ${script.id === selected?.id ? "active" : ""}`}
+                  onClick={() => onSelect(script.id)}
+                  style={{ fontSize: "0.85rem", padding: "0.3rem 0.5rem" }}
+                >
+                  <FileCode2 size={12} className="mr-1 shrink-0" />
+                  <span className="flex-1 min-w-0 truncate">{script.name}</span>
+                  <button
+                    className="btn btn-sm hidden group-hover:flex"
+                    title="Delete"
+                    disabled={isRunning}
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      deleteScript(script.id)
+                    }}
+                    style={{ padding: "0.1rem 0.3rem" }}
+                  >
+                    <Trash2 size={11} />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              className="btn btn-outline btn-sm"
+              onClick={() => onSelect(createScript("New script", "log(await readTelemetry())\n"))}
+              style={smallButtonStyle}
+            >
+              <Plus size={12} className="mr-1" />
+              New
+            </button>
+            <div className="flex space-x-1">
+              <button className="btn btn-outline btn-sm flex-1" onClick={handleImport} style={smallButtonStyle}>
+                <Upload size={12} className="mr-1" />
+                Open
+              </button>
+              <button
+                className="btn btn-outline btn-sm flex-1"
+                onClick={handleExport}
+                disabled={!selected}
+                style={smallButtonStyle}
+              >
+                <Download size={12} className="mr-1" />
+                Save
+              </button>
+            </div>
+
+            <div className="text-xs text-gray-400 pt-2 space-y-1">
+              {SCRIPT_API.map((entry) => (
+                <div key={entry.name} title={entry.description}>
+                  <code className="text-yellow-400">{entry.signature}</code>
+                </div>
+              ))}
+              <div>JavaScript or TypeScript; types are stripped, not checked.</div>
+              <div>Device calls return promises; await them.</div>
+            </div>
+          </div>
+
+          {selected ? (
+            <div className="flex flex-col flex-1 min-w-0 space-y-2">
+              <input
+                className="form-input text-sm px-2 py-1"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onBlur={commitName}
+                onKeyDown={(e) => e.key === "Enter" && commitName()}
+              />
+              <textarea
+                className="form-input w-full font-mono text-xs px-2 py-1"
+                rows={16}
+                spellCheck={false}
+                value={selected.source}
+                readOnly={isRunning}
+                onChange={(e) => updateScript(selected.id, { source: e.target.value })}
+                style={{ resize: "vertical" }}
+              />
+
+              <div className="flex items-center gap-2">
+                <button
+                  className="btn btn-primary btn-sm"
+                  onClick={() => onRun(selected)}
+                  disabled={!isConnected || isRunning}
+                  title={isConnected ? undefined : "Connect to a device to run a script"}
+                  style={smallButtonStyle}
+                >
+                  <Play size={12} className="mr-1" />
+                  Run
+                </button>
+                <button
+                  className="btn btn-outline btn-sm"
+                  onClick={onAbort}
+                  disabled={!isRunning}
+                  style={smallButtonStyle}
+                >
+                  <Square size={11} className="mr-1" />
+                  Stop
+                </button>
+                <span className="flex-1 text-xs text-gray-400 truncate">
+                  {status.state !== "idle" && `${status.scriptName} · ${(status.elapsedMs / 1000).toFixed(1)} s`}
+                </span>
+                {status.state === "passed" && (
+                  <span className="flex items-center text-sm text-green-400">
+                    <CheckCircle2 size={14} className="mr-1" />
+                    Passed
+                  </span>
+                )}
+                {status.state === "failed" && (
+                  <span className="flex items-center text-sm text-red-400">
+                    <XCircle size={14} className="mr-1" />
+                    Failed
+                  </span>
+                )}
+                {status.state === "aborted" && <span className="text-sm text-gray-400">Stopped</span>}
+                {status.state === "running" && <span className="text-sm text-yellow-400">Running...</span>}
+              </div>
+
+              <div
+                ref={logRef}
+                className="h-36 overflow-y-auto rounded border border-gray-700 bg-black/30 px-2 py-1 font-mono text-xs"
+              >
+                {status.logs.map((entry, index) => (
+                  <div key={index} className="whitespace-pre-wrap">
+                    <span className="text-gray-500">{formatLogTime(entry.time)} </span>
+                    {entry.message}
+                  </div>
+                ))}
+                {status.error && <div className="text-red-400 whitespace-pre-wrap">{status.error}</div>}
+              </div>
+            </div>
+          ) : (
+            <div className="flex-1 text-sm text-gray-400">No scripts yet.</div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,185 @@
+"use client"
+import { useMemo } from "react"
+import { FolderOpen, Pause, Play, Save, Square, Wand2 } from "lucide-react"
+import {
+  EXAMPLE_SEQUENCE,
+  describeStep,
+  parseSequence,
+  serializeSequence,
+  type HapticSequence,
+  type SequenceStatus,
+  type SequenceStep,
+} from "@/lib/sequencer"
+
+interface SequencerPanelProps {
+  // Sequence file text, owned by the control surface so it's kept with the session
+  draft: string
+  onDraftChange: (draft: string) => void
+  status: SequenceStatus
+  isConnected: boolean
+  onRun: (sequence: HapticSequence) => void
+  onPause: () => void
+  onResume: () => void
+  onAbort: () => void
+  onError: (message: string) => void
+}
+
+const buttonStyle = { fontSize: "0.8rem" }
+
+const STATE_LABELS: Record<SequenceStatus["state"], string> = {
+  idle: "Idle",
+  running: "Running",
+  paused: "Paused",
+  finished: "Finished",
+  aborted: "Aborted",
+  failed: "Failed",
+}
+
+// Indented one-line-per-step outline of a parsed sequence
+function outline(steps: SequenceStep[], depth = 0): string[] {
+  return steps.flatMap((step) => [
+    `${"  ".repeat(depth)}${describeStep(step)}`,
+    ...(step.type === "loop" ? outline(step.steps, depth + 1) : []),
+  ])
+}
+
+// Edits, loads and saves a sequence file and runs it against the connected device
+export function SequencerPanel({
+  draft,
+  onDraftChange,
+  status,
+  isConnected,
+  onRun,
+  onPause,
+  onResume,
+  onAbort,
+  onError,
+}: SequencerPanelProps) {
+  // The control surface re-renders with every telemetry sample, so only reparse on edits
+  const { sequence, parseError } = useMemo(() => {
+    try {
+      return { sequence: parseSequence(draft), parseError: null }
+    } catch (err) {
+      return { sequence: null, parseError: err instanceof Error ? err.message : "Invalid sequence" }
+    }
+  }, [draft])
+
+  const isRunning = status.state === "running" || status.state === "paused"
+
+  const handleOpen = async () => {
+    if (!window.electronAPI) {
+      onError("Opening sequences is only available in the desktop app")
+      return
+    }
+
+    try {
+      const result = await window.electronAPI.openFile({
+        title: "Open Haptic Sequence",
+        filters: [{ name: "JSON Files", extensions: ["json"] }],
+      })
+      if (result.canceled) return
+      if (!result.success || result.content === undefined) {
+        throw new Error(result.error || "Failed to read sequence file")
+      }
+      // Loaded as-is so a broken file can still be fixed in the editor
+      onDraftChange(result.content)
+    } catch (err) {
+      console.error("Failed to open sequence:", err)
+      onError(err instanceof Error ? err.message : "Failed to open sequence")
+    }
+  }
+
+  const handleSave = async () => {
+    if (!window.electronAPI || !sequence) return
+
+    try {
+      const result = await window.electronAPI.saveFile({
+        title: "Save Haptic Sequence",
+        defaultPath: `${sequence.name.trim() || "haptic-sequence"}.json`,
+        filters: [{ name: "JSON Files", extensions: ["json"] }],
+        content: serializeSequence(sequence),
+      })
+      if (!result.success && !result.canceled) {
+        throw new Error(result.error || "Failed to save sequence")
+      }
+    } catch (err) {
+      console.error("Failed to save sequence:", err)
+      onError(err instanceof Error ? err.message : "Failed to save sequence")
+    }
+  }
+
+  return (
+    <>
+      <textarea
+        className="form-input w-full font-mono text-xs px-2 py-1"
+        rows={8}
+        spellCheck={false}
+        value={draft}
+        readOnly={isRunning}
+        onChange={(e) => onDraftChange(e.target.value)}
+        style={{ resize: "vertical" }}
+      />
+      {parseError ? (
+        <div className="text-xs text-red-400 break-words">{parseError}</div>
+      ) : (
+        <div className="text-xs text-gray-400 max-h-24 overflow-y-auto whitespace-pre">
+          {sequence && sequence.steps.length > 0 ? outline(sequence.steps).join("\n") : "No steps"}
+        </div>
+      )}
+
+      <div className="flex space-x-1">
+        <button
+          className="btn btn-outline btn-sm flex-1"
+          onClick={() => onDraftChange(serializeSequence(EXAMPLE_SEQUENCE))}
+          disabled={isRunning}
+          title="Replace the editor contents with an example sequence"
+          style={buttonStyle}
+        >
+          <Wand2 size={12} className="mr-1" />
+          Example
+        </button>
+        <button className="btn btn-outline btn-sm flex-1" onClick={handleOpen} disabled={isRunning} style={buttonStyle}>
+          <FolderOpen size={12} className="mr-1" />
+          Open
+        </button>
+        <button className="btn btn-outline btn-sm flex-1" onClick={handleSave} disabled={!sequence} style={buttonStyle}>
+          <Save size={12} className="mr-1" />
+          Save
+        </button>
+      </div>
+
+      <div className="flex space-x-1">
+        <button
+          className="btn btn-primary btn-sm flex-1"
+          onClick={() => sequence && onRun(sequence)}
+          disabled={!sequence || !isConnected || isRunning}
+          title={isConnected ? undefined : "Connect to a device to run a sequence"}
+          style={buttonStyle}
+        >
+          <Play size={12} className="mr-1" />
+          Run
+        </button>
+        <button
+          className="btn btn-outline btn-sm flex-1"
+          onClick={status.state === "paused" ? onResume : onPause}
+          disabled={!isRunning}
+          style={buttonStyle}
+        >
+          {status.state === "paused" ? <Play size={12} className="mr-1" /> : <Pause size={12} className="mr-1" />}
+          {status.state === "paused" ? "Resume" : "Pause"}
+        </button>
+        <button className="btn btn-outline btn-sm flex-1" onClick={onAbort} disabled={!isRunning} style={buttonStyle}>
+          <Square size={11} className="mr-1" />
+          Abort
+        </button>
+      </div>
+
+      <div className="text-xs text-gray-400">
+        {STATE_LABELS[status.state]}
+        {status.state !== "idle" && ` · ${(status.elapsedMs / 1000).toFixed(1)} s`}
+        {status.step.length > 0 && <div className="truncate">{status.step.join(" › ")}</div>}
+      </div>
+      {status.error && <div className="text-xs text-red-400 break-words">{status.error}</div>}
+    </>
+  )
+}
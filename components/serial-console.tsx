@@ -0,0 +1,203 @@
+"use client"
+import { memo, useEffect, useRef, useState } from "react"
+import { Download, Send, Trash2 } from "lucide-react"
+import {
+  commandCompletions,
+  completeCommand,
+  formatConsoleTime,
+  formatTranscript,
+  isTelemetryLine,
+  type SerialConsoleLog,
+} from "@/lib/serial-console"
+
+const REFRESH_MS = 250
+// Older lines stay in the log (and the saved transcript) but aren't rendered
+const MAX_RENDERED_LINES = 500
+const MAX_HISTORY = 100
+
+interface SerialConsoleProps {
+  log: SerialConsoleLog
+  isConnected: boolean
+  onSend: (line: string) => void
+  onError: (message: string) => void
+}
+
+// Memoised for the same reason as the charts: the log changes far more often than its props
+export const SerialConsole = memo(function SerialConsole({ log, isConnected, onSend, onError }: SerialConsoleProps) {
+  const [, setRevision] = useState(0)
+  const [hideTelemetry, setHideTelemetry] = useState(true)
+  const [autoScroll, setAutoScroll] = useState(true)
+  const [input, setInput] = useState("")
+  const [history, setHistory] = useState<string[]>([])
+  // Position while browsing history with the arrow keys; null when editing a new line
+  const [historyIndex, setHistoryIndex] = useState<number | null>(null)
+  const scrollRef = useRef<HTMLDivElement>(null)
+
+  // Re-render on a fixed cadence, and only when something was logged
+  useEffect(() => {
+    let isDirty = false
+    const unsubscribe = log.subscribe(() => {
+      isDirty = true
+    })
+    const interval = setInterval(() => {
+      if (!isDirty) return
+      isDirty = false
+      setRevision((revision) => revision + 1)
+    }, REFRESH_MS)
+    return () => {
+      unsubscribe()
+      clearInterval(interval)
+    }
+  }, [log])
+
+  const lines = log.lines()
+  const visibleLines = (hideTelemetry ? lines.filter((line) => !isTelemetryLine(line)) : lines).slice(
+    -MAX_RENDERED_LINES,
+  )
+
+  useEffect(() => {
+    if (autoScroll && scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight
+    }
+  })
+
+  const send = () => {
+    const line = input.trim()
+    if (!line) return
+    onSend(line)
+    setHistory((prev) => [...prev.filter((entry) => entry !== line), line].slice(-MAX_HISTORY))
+    setHistoryIndex(null)
+    setInput("")
+  }
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Enter") {
+      send()
+    } else if (event.key === "Tab") {
+      event.preventDefault()
+      setInput(completeCommand(input))
+    } else if (event.key === "ArrowUp" && history.length > 0) {
+      event.preventDefault()
+      const index = historyIndex === null ? history.length - 1 : Math.max(0, historyIndex - 1)
+      setHistoryIndex(index)
+      setInput(history[index])
+    } else if (event.key === "ArrowDown" && historyIndex !== null) {
+      event.preventDefault()
+      const index = historyIndex + 1
+      setHistoryIndex(index < history.length ? index : null)
+      setInput(index < history.length ? history[index] : "")
+    }
+  }
+
+  const saveTranscript = async () => {
+    if (!window.electronAPI) {
+      onError("Saving the console transcript is only available in the desktop app")
+      return
+    }
+
+    try {
+      const result = await window.electronAPI.saveFile({
+        title: "Save Serial Console Transcript",
+        defaultPath: `serial-console-${new Date().toISOString().replace(/[:.]/g, "-")}.log`,
+        filters: [
+          { name: "Log Files", extensions: ["log", "txt"] },
+          { name: "All Files", extensions: ["*"] },
+        ],
+        content: formatTranscript(log.lines()),
+      })
+      if (!result.success && !result.canceled) {
+        throw new Error(result.error || "Failed to save transcript")
+      }
+    } catch (err) {
+      console.error("Failed to save console transcript:", err)
+      onError(err instanceof Error ? err.message : "Failed to save transcript")
+    }
+  }
+
+  const completions = commandCompletions(input).slice(0, 6)
+
+  return (
+    <div className="flex flex-col h-full min-h-0 p-2 gap-2">
+      <div className="flex items-center gap-3 text-xs text-gray-400">
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={hideTelemetry}
+            onChange={(e) => setHideTelemetry(e.target.checked)}
+            className="w-3 h-3"
+          />
+          Hide telemetry
+        </label>
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={autoScroll}
+            onChange={(e) => setAutoScroll(e.target.checked)}
+            className="w-3 h-3"
+          />
+          Auto-scroll
+        </label>
+        <span className="ml-auto">{lines.length} lines</span>
+        <button
+          className="btn btn-outline btn-sm"
+          onClick={saveTranscript}
+          disabled={lines.length === 0}
+          style={{ padding: "0.15rem 0.5rem" }}
+        >
+          <Download size={12} className="mr-1" />
+          Save
+        </button>
+        <button
+          className="btn btn-outline btn-sm"
+          onClick={() => log.clear()}
+          disabled={lines.length === 0}
+          style={{ padding: "0.15rem 0.5rem" }}
+        >
+          <Trash2 size={12} className="mr-1" />
+          Clear
+        </button>
+      </div>
+
+      <div ref={scrollRef} className="flex-1 min-h-0 overflow-y-auto bg-gray-950 rounded p-2 font-mono text-xs">
+        {visibleLines.map((line) => (
+          <div key={line.id} className="whitespace-pre-wrap break-all">
+            <span className="text-gray-500">{formatConsoleTime(line.time)}</span>{" "}
+            <span className={line.direction === "tx" ? "text-blue-400" : "text-green-400"}>
+              {line.direction === "tx" ? ">" : "<"}
+            </span>{" "}
+            <span className={line.direction === "rx" && line.text.startsWith("ERR") ? "text-red-400" : "text-gray-200"}>
+              {line.text}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex space-x-1">
+        <input
+          className="form-input flex-1 min-w-0 font-mono text-xs px-2 py-1"
+          placeholder={isConnected ? "Type a command (Tab completes, ↑/↓ history)" : "Connect a device to send commands"}
+          value={input}
+          disabled={!isConnected}
+          onChange={(e) => {
+            setInput(e.target.value)
+            setHistoryIndex(null)
+          }}
+          onKeyDown={handleKeyDown}
+          spellCheck={false}
+        />
+        <button
+          className="btn btn-primary btn-sm"
+          onClick={send}
+          disabled={!isConnected || !input.trim()}
+          style={{ padding: "0.2rem 0.6rem" }}
+        >
+          <Send size={12} className="mr-1" />
+          Send
+        </button>
+      </div>
+      {completions.length > 0 && (
+        <div className="text-xs text-gray-500 font-mono truncate">{completions.join("   ")}</div>
+      )}
+    </div>
+  )
+})
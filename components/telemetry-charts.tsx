@@ -0,0 +1,183 @@
+"use client"
+import { memo, useEffect, useState } from "react"
+import { CartesianGrid, Line, LineChart, ReferenceArea, XAxis, YAxis } from "recharts"
+import { Pause, Play, ZoomOut } from "lucide-react"
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import type { TelemetryBuffer, TelemetryPoint } from "@/lib/telemetry-buffer"
+
+const windowOptions = [
+  { ms: 5_000, label: "5 s" },
+  { ms: 10_000, label: "10 s" },
+  { ms: 30_000, label: "30 s" },
+  { ms: 60_000, label: "1 min" },
+  { ms: 120_000, label: "2 min" },
+  { ms: 300_000, label: "5 min" },
+]
+
+const REFRESH_MS = 100
+// Enough points to draw a smooth trace at panel width without bogging recharts down
+const MAX_PLOTTED_POINTS = 600
+
+type Series = "angle" | "velocity" | "torque"
+
+const chartConfig: ChartConfig = {
+  angle: { label: "Angle (°)", color: "#facc15" },
+  velocity: { label: "Velocity (RPM)", color: "#60a5fa" },
+  torque: { label: "Torque (Nm)", color: "#c084fc" },
+}
+
+const seriesList: Series[] = ["angle", "velocity", "torque"]
+
+interface TimeRange {
+  from: number
+  to: number
+}
+
+// Keep every n-th point so long windows stay cheap to draw
+function decimate(points: TelemetryPoint[]): TelemetryPoint[] {
+  if (points.length <= MAX_PLOTTED_POINTS) return points
+  const stride = Math.ceil(points.length / MAX_PLOTTED_POINTS)
+  return points.filter((_, index) => index % stride === 0 || index === points.length - 1)
+}
+
+interface TelemetryChartsProps {
+  buffer: TelemetryBuffer
+}
+
+// Memoised so the parent re-rendering on every sample doesn't redraw the charts
+export const TelemetryCharts = memo(function TelemetryCharts({ buffer }: TelemetryChartsProps) {
+  const [windowMs, setWindowMs] = useState(10_000)
+  const [isPaused, setIsPaused] = useState(false)
+  const [viewEnd, setViewEnd] = useState(() => Date.now())
+  const [zoom, setZoom] = useState<TimeRange | null>(null)
+  const [selection, setSelection] = useState<TimeRange | null>(null)
+
+  // Follow the live edge on a fixed cadence instead of per sample
+  useEffect(() => {
+    if (isPaused) return
+    const interval = setInterval(() => setViewEnd(Date.now()), REFRESH_MS)
+    return () => clearInterval(interval)
+  }, [isPaused])
+
+  const range = zoom ?? { from: viewEnd - windowMs, to: viewEnd }
+  const data = decimate(buffer.range(range.from, range.to))
+
+  const formatTime = (time: number) => `${((time - viewEnd) / 1000).toFixed(windowMs <= 10_000 || zoom ? 1 : 0)} s`
+
+  const togglePause = () => {
+    if (isPaused) {
+      setZoom(null)
+    } else {
+      setViewEnd(Date.now())
+    }
+    setIsPaused(!isPaused)
+  }
+
+  // Drag across a chart to zoom into that span; zooming freezes the view
+  const handleMouseDown = (event: any) => {
+    if (event?.activeLabel !== undefined) {
+      setSelection({ from: event.activeLabel, to: event.activeLabel })
+    }
+  }
+
+  const handleMouseMove = (event: any) => {
+    if (selection && event?.activeLabel !== undefined) {
+      setSelection({ ...selection, to: event.activeLabel })
+    }
+  }
+
+  const handleMouseUp = () => {
+    if (selection && selection.from !== selection.to) {
+      setZoom({ from: Math.min(selection.from, selection.to), to: Math.max(selection.from, selection.to) })
+      setIsPaused(true)
+    }
+    setSelection(null)
+  }
+
+  return (
+    <div className="flex flex-col h-full w-full p-2 min-h-0">
+      <div className="flex items-center gap-2 mb-1">
+        <span className="text-xs font-semibold uppercase text-gray-400">Telemetry</span>
+        <select
+          className="form-select text-xs px-1 py-0"
+          value={windowMs}
+          onChange={(e) => {
+            setWindowMs(Number.parseInt(e.target.value))
+            setZoom(null)
+          }}
+          style={{ width: 90, fontSize: "0.8rem" }}
+        >
+          {windowOptions.map((option) => (
+            <option key={option.ms} value={option.ms}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <button className="btn btn-outline btn-sm" onClick={togglePause} style={{ padding: "0.15rem 0.5rem" }}>
+          {isPaused ? <Play size={12} className="mr-1" /> : <Pause size={12} className="mr-1" />}
+          {isPaused ? "Resume" : "Pause"}
+        </button>
+        {zoom && (
+          <button className="btn btn-outline btn-sm" onClick={() => setZoom(null)} style={{ padding: "0.15rem 0.5rem" }}>
+            <ZoomOut size={12} className="mr-1" />
+            Reset zoom
+          </button>
+        )}
+        <span className="text-xs text-gray-500 ml-auto">Drag across a chart to zoom</span>
+      </div>
+
+      <div className="flex-1 flex flex-col min-h-0 gap-1">
+        {seriesList.map((series) => (
+          <ChartContainer key={series} config={chartConfig} className="flex-1 min-h-0 w-full aspect-auto">
+            <LineChart
+              data={data}
+              syncId="telemetry"
+              margin={{ top: 4, right: 8, bottom: 0, left: 0 }}
+              onMouseDown={handleMouseDown}
+              onMouseMove={handleMouseMove}
+              onMouseUp={handleMouseUp}
+            >
+              <CartesianGrid stroke="#374151" vertical={false} />
+              <XAxis
+                dataKey="time"
+                type="number"
+                domain={[range.from, range.to]}
+                allowDataOverflow
+                tickFormatter={formatTime}
+                stroke="#6b7280"
+                fontSize={10}
+                hide={series !== "torque"}
+              />
+              <YAxis
+                stroke="#6b7280"
+                fontSize={10}
+                width={44}
+                domain={["auto", "auto"]}
+                tickFormatter={(value: number) => value.toFixed(series === "torque" ? 2 : 0)}
+              />
+              <ChartTooltip
+                isAnimationActive={false}
+                content={
+                  <ChartTooltipContent
+                    indicator="line"
+                    labelFormatter={(_, payload) => formatTime(payload?.[0]?.payload?.time ?? viewEnd)}
+                  />
+                }
+              />
+              <Line
+                dataKey={series}
+                stroke={`var(--color-${series})`}
+                strokeWidth={1.5}
+                dot={false}
+                isAnimationActive={false}
+              />
+              {selection && (
+                <ReferenceArea x1={selection.from} x2={selection.to} fill="#eab308" fillOpacity={0.15} />
+              )}
+            </LineChart>
+          </ChartContainer>
+        ))}
+      </div>
+    </div>
+  )
+})
@@ -0,0 +1,139 @@
+"use client"
+import { memo, useEffect, useState } from "react"
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts"
+import { Eraser } from "lucide-react"
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import { buildTorqueProfile, expectedDetentAngles } from "@/lib/haptic-profile"
+import type { CustomDetent, HapticMode } from "@/lib/protocol"
+import type { TelemetryBuffer } from "@/lib/telemetry-buffer"
+
+const REFRESH_MS = 500
+const binSizes = [1, 2, 5, 10]
+
+const chartConfig: ChartConfig = {
+  cw: { label: "CW", color: "#facc15" },
+  ccw: { label: "CCW", color: "#60a5fa" },
+}
+
+interface TorqueAnglePlotProps {
+  buffer: TelemetryBuffer
+  mode: HapticMode
+  targetAngle: number
+  endstopMinAngle: number
+  endstopMaxAngle: number
+  customDetents: CustomDetent[]
+}
+
+export const TorqueAnglePlot = memo(function TorqueAnglePlot({
+  buffer,
+  mode,
+  targetAngle,
+  endstopMinAngle,
+  endstopMaxAngle,
+  customDetents,
+}: TorqueAnglePlotProps) {
+  const [binSizeDeg, setBinSizeDeg] = useState(2)
+  // Only samples after this are characterised, so switching modes can start a clean capture
+  const [captureStart, setCaptureStart] = useState(() => Date.now())
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), REFRESH_MS)
+    return () => clearInterval(interval)
+  }, [])
+
+  // A mode change makes earlier samples meaningless for this profile
+  useEffect(() => {
+    setCaptureStart(Date.now())
+  }, [mode])
+
+  const isMultiTurn = mode === "endstops"
+  const points = buffer.range(captureStart, now)
+  const profile = buildTorqueProfile(points, { binSizeDeg, wrap: !isMultiTurn })
+  const detents = expectedDetentAngles(mode, customDetents)
+
+  const domain: [number, number] = isMultiTurn
+    ? [
+        Math.min(endstopMinAngle - 30, profile[0]?.angle ?? 0),
+        Math.max(endstopMaxAngle + 30, profile[profile.length - 1]?.angle ?? 0),
+      ]
+    : [-180, 180]
+
+  return (
+    <div className="flex flex-col h-full w-full p-2 min-h-0">
+      <div className="flex items-center gap-2 mb-1">
+        <span className="text-xs font-semibold uppercase text-gray-400">Torque vs angle</span>
+        <select
+          className="form-select text-xs px-1 py-0"
+          value={binSizeDeg}
+          onChange={(e) => setBinSizeDeg(Number.parseFloat(e.target.value))}
+          style={{ width: 80, fontSize: "0.8rem" }}
+        >
+          {binSizes.map((size) => (
+            <option key={size} value={size}>
+              {size}° bins
+            </option>
+          ))}
+        </select>
+        <button
+          className="btn btn-outline btn-sm"
+          onClick={() => setCaptureStart(Date.now())}
+          style={{ padding: "0.15rem 0.5rem" }}
+        >
+          <Eraser size={12} className="mr-1" />
+          Clear
+        </button>
+        <span className="text-xs text-gray-500 ml-auto">
+          {points.length} samples · turn the knob slowly both ways across the range
+        </span>
+      </div>
+
+      <ChartContainer config={chartConfig} className="flex-1 min-h-0 w-full aspect-auto">
+        <LineChart data={profile} margin={{ top: 8, right: 12, bottom: 0, left: 0 }}>
+          <CartesianGrid stroke="#374151" />
+          <XAxis
+            dataKey="angle"
+            type="number"
+            domain={domain}
+            allowDataOverflow
+            tickFormatter={(value: number) => `${value.toFixed(0)}°`}
+            stroke="#6b7280"
+            fontSize={10}
+          />
+          <YAxis
+            stroke="#6b7280"
+            fontSize={10}
+            width={44}
+            domain={["auto", "auto"]}
+            tickFormatter={(value: number) => value.toFixed(2)}
+          />
+          <ReferenceLine y={0} stroke="#6b7280" />
+          {detents.map((angle) => (
+            <ReferenceLine key={`detent-${angle}`} x={angle} stroke="#ffffff" strokeDasharray="3 3" strokeOpacity={0.5} />
+          ))}
+          {mode === "proportional-control" && (
+            <ReferenceLine x={targetAngle} stroke="#22c55e" strokeDasharray="3 3" label={{ value: "Target", fill: "#22c55e", fontSize: 10, position: "top" }} />
+          )}
+          {isMultiTurn && (
+            <>
+              <ReferenceLine x={endstopMinAngle} stroke="red" label={{ value: "MIN", fill: "red", fontSize: 10, position: "top" }} />
+              <ReferenceLine x={endstopMaxAngle} stroke="red" label={{ value: "MAX", fill: "red", fontSize: 10, position: "top" }} />
+            </>
+          )}
+          <ChartTooltip
+            isAnimationActive={false}
+            content={
+              <ChartTooltipContent
+                indicator="line"
+                labelFormatter={(_, payload) => `${(payload?.[0]?.payload?.angle ?? 0).toFixed(1)}°`}
+              />
+            }
+          />
+          <ChartLegend content={<ChartLegendContent />} />
+          <Line dataKey="cw" stroke="var(--color-cw)" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+          <Line dataKey="ccw" stroke="var(--color-ccw)" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+        </LineChart>
+      </ChartContainer>
+    </div>
+  )
+})
@@ -1,6 +1,7 @@
 "use client"
 
 import { useState, useCallback, useEffect, useRef } from "react"
+import { commandsForSettings, encodeCommand, type HapticSettings } from "@/lib/protocol"
 
 // Check if we're in a browser environment
 const isBrowser = typeof window !== "undefined"
@@ -15,14 +16,6 @@ export interface SerialPortInfo {
   vendorId?: string
 }
 
-export interface HapticConfig {
-  mode: string
-  angle: number
-  torque?: number
-  stiffness?: number
-  targetAngle?: number
-}
-
 export function useHapticSerial() {
   const [isConnected, setIsConnected] = useState(false)
   const [isConnecting, setIsConnecting] = useState(false)
@@ -31,6 +24,8 @@ export function useHapticSerial() {
   const [availablePorts, setAvailablePorts] = useState<SerialPortInfo[]>([])
   const [isScanning, setIsScanning] = useState(false)
   const reconnectTimeoutRef = useRef<any>()
+  // Id the main-process device manager assigned to this connection
+  const deviceIdRef = useRef<string | null>(null)
 
   // Check if we're in Electron environment
   const isElectron = isBrowser && window.electronAPI
@@ -80,9 +75,10 @@ export function useHapticSerial() {
 
       try {
         console.log(`Connecting to ${portPath} at ${baudRate} baud...`)
-        const result = await window.electronAPI.serialConnect(portPath, baudRate)
+        const result = await window.electronAPI.serialConnect(portPath, baudRate, deviceIdRef.current ?? undefined)
 
         if (result.success) {
+          deviceIdRef.current = result.deviceId ?? null
           setIsConnected(true)
           setLastResponse({
             status: "connected",
@@ -117,7 +113,7 @@ export function useHapticSerial() {
       }
 
       console.log("Disconnecting...")
-      const result = await window.electronAPI.serialDisconnect()
+      const result = await window.electronAPI.serialDisconnect(deviceIdRef.current!)
 
       if (result.success) {
         setIsConnected(false)
@@ -135,31 +131,32 @@ export function useHapticSerial() {
 
   // Send haptic configuration
   const sendHapticConfig = useCallback(
-    async (config: HapticConfig) => {
+    async (config: HapticSettings) => {
       if (!isConnected || !isElectron) {
         setError("Not connected to device")
         return false
       }
 
       try {
-        // Format the command based on your device's protocol
-        const command = formatHapticCommand(config)
+        const commands = commandsForSettings(config).map(encodeCommand)
+        const command = commands.join("")
         console.log("Sending haptic config:", command)
 
-        const result = await window.electronAPI.serialWrite(command)
-
-        if (result.success) {
-          setError(null)
-          setLastResponse({
-            timestamp: new Date().toISOString(),
-            command: "haptic_config",
-            sent: command,
-            config: config,
-          })
-          return true
-        } else {
-          throw new Error(result.error || "Failed to send config")
+        for (const line of commands) {
+          const result = await window.electronAPI!.serialWrite(deviceIdRef.current!, line)
+          if (!result.success) {
+            throw new Error(result.error || "Failed to send config")
+          }
         }
+
+        setError(null)
+        setLastResponse({
+          timestamp: new Date().toISOString(),
+          command: "haptic_config",
+          sent: command,
+          config: config,
+        })
+        return true
       } catch (err) {
         console.error("Failed to send haptic config:", err)
         setError(err instanceof Error ? err.message : "Failed to send config")
@@ -169,39 +166,13 @@ export function useHapticSerial() {
     [isConnected, isElectron],
   )
 
-  // Set angle
-  const setAngle = useCallback(
-    async (angle: number) => {
-      if (!isConnected || !isElectron) return false
-
-      try {
-        const command = `ANGLE:${angle.toFixed(2)}\n`
-        console.log("Setting angle:", command.trim())
-
-        const result = await window.electronAPI.serialWrite(command)
-
-        if (result.success) {
-          setError(null)
-          return true
-        } else {
-          throw new Error(result.error || "Failed to set angle")
-        }
-      } catch (err) {
-        console.error("Failed to set angle:", err)
-        setError(err instanceof Error ? err.message : "Failed to set angle")
-        return false
-      }
-    },
-    [isConnected, isElectron],
-  )
-
   // Get device status
   const getStatus = useCallback(async () => {
     if (!isConnected || !isElectron) return null
 
     try {
       console.log("Getting device status...")
-      const result = await window.electronAPI.serialWrite("STATUS?\n")
+      const result = await window.electronAPI.serialWrite(deviceIdRef.current!, encodeCommand({ type: "get-all" }))
 
       if (result.success) {
         setError(null)
@@ -223,7 +194,7 @@ export function useHapticSerial() {
 
     try {
       console.log("Getting current angle...")
-      const result = await window.electronAPI.serialWrite("ANGLE?\n")
+      const result = await window.electronAPI.serialWrite(deviceIdRef.current!, encodeCommand({ type: "get-all" }))
 
       if (result.success) {
         setError(null)
@@ -245,7 +216,7 @@ export function useHapticSerial() {
 
     try {
       console.log("Resetting device...")
-      const result = await window.electronAPI.serialWrite("RESET\n")
+      const result = await window.electronAPI.serialWrite(deviceIdRef.current!, encodeCommand({ type: "zero" }))
 
       if (result.success) {
         setError(null)
@@ -270,7 +241,7 @@ export function useHapticSerial() {
 
     try {
       console.log("Calibrating device...")
-      const result = await window.electronAPI.serialWrite("CALIBRATE\n")
+      const result = await window.electronAPI.serialWrite(deviceIdRef.current!, encodeCommand({ type: "zero" }))
 
       if (result.success) {
         setError(null)
@@ -293,7 +264,8 @@ export function useHapticSerial() {
   useEffect(() => {
     if (!isElectron) return
 
-    const handleSerialData = (event: any, data: string) => {
+    const handleSerialData = (event: any, deviceId: string, data: string) => {
+      if (deviceId !== deviceIdRef.current) return
       // console.log("Received serial data:", data)
       setLastResponse({
         timestamp: new Date().toISOString(),
@@ -302,29 +274,29 @@ export function useHapticSerial() {
       })
     }
 
-    const handleSerialError = (event: any, errorMessage: string) => {
+    const handleSerialError = (event: any, deviceId: string | null, errorMessage: string) => {
+      if (deviceId !== null && deviceId !== deviceIdRef.current) return
       console.error("Serial error:", errorMessage)
       setError(errorMessage)
     }
 
-    const handleSerialDisconnected = () => {
+    const handleSerialDisconnected = (event: any, deviceId: string) => {
+      if (deviceId !== deviceIdRef.current) return
       console.log("Serial disconnected")
       setIsConnected(false)
       setError("Device disconnected")
     }
 
     // Set up event listeners
-    window.electronAPI.onSerialData(handleSerialData)
-    window.electronAPI.onSerialError(handleSerialError)
-    window.electronAPI.onSerialDisconnected(handleSerialDisconnected)
+    const unsubscribers = [
+      window.electronAPI.onSerialData(handleSerialData),
+      window.electronAPI.onSerialError(handleSerialError),
+      window.electronAPI.onSerialDisconnected(handleSerialDisconnected),
+    ]
 
     // Cleanup function
     return () => {
-      if (window.electronAPI.removeAllListeners) {
-        window.electronAPI.removeAllListeners("serial-data")
-        window.electronAPI.removeAllListeners("serial-error")
-        window.electronAPI.removeAllListeners("serial-disconnected")
-      }
+      unsubscribers.forEach((unsubscribe) => unsubscribe())
     }
   }, [isElectron])
 
@@ -342,7 +314,7 @@ export function useHapticSerial() {
         clearTimeout(reconnectTimeoutRef.current)
       }
       if (isConnected && isElectron) {
-        window.electronAPI.serialDisconnect()
+        window.electronAPI.serialDisconnect(deviceIdRef.current!)
       }
     }
   }, [isConnected, isElectron])
@@ -365,41 +337,9 @@ export function useHapticSerial() {
 
     // Device communication
     sendHapticConfig,
-    setAngle,
     getStatus,
     getCurrentAngle,
     reset,
     calibrate,
   }
 }
-
-// Helper function to format haptic commands based on your device's protocol
-function formatHapticCommand(config: HapticConfig): string {
-  // Customize this based on your haptic device's command protocol
-  switch (config.mode) {
-    case "none":
-      return "MODE:NONE\n"
-    case "soft-detents":
-      return "MODE:DETENTS,SOFT\n"
-    case "medium-detents":
-      return "MODE:DETENTS,MEDIUM\n"
-    case "rough-detents":
-      return "MODE:DETENTS,ROUGH\n"
-    case "clockwise":
-      return "MODE:CLOCKWISE\n"
-    case "counterclockwise":
-      return "MODE:COUNTERCLOCKWISE\n"
-    case "increased-torque":
-      return `MODE:TORQUE,${config.torque || 0.5}\n`
-    case "lock":
-      return "MODE:LOCK\n"
-    case "endstops":
-      return "MODE:ENDSTOPS\n"
-    case "center-detent":
-      return "MODE:CENTER_DETENT\n"
-    case "proportional-control":
-      return `MODE:PROPORTIONAL,${config.stiffness || 0.8},${config.targetAngle || 0}\n`
-    default:
-      return `MODE:${config.mode.toUpperCase()}\n`
-  }
-}
@@ -0,0 +1,89 @@
+"use client"
+
+import { useState, useCallback, useEffect } from "react"
+import { KEYMAP_ACTIONS, resolveKeymap, type KeyChord, type KeymapOverrides } from "@/lib/keymap"
+
+const KEYMAP_KEY = "keymap"
+// Tells the other control surfaces in this window that the bindings changed
+const KEYMAP_CHANGED_EVENT = "keymap-changed"
+
+const loadOverrides = (): KeymapOverrides => {
+  if (typeof window === "undefined") return {}
+  try {
+    const stored = JSON.parse(localStorage.getItem(KEYMAP_KEY) || "{}")
+    const knownIds = new Set(KEYMAP_ACTIONS.map((action) => action.id))
+    // Drop bindings for actions that no longer exist
+    return Object.fromEntries(
+      Object.entries(stored).filter(
+        ([actionId, chord]) => knownIds.has(actionId) && (chord === null || typeof chord === "string"),
+      ),
+    ) as KeymapOverrides
+  } catch (err) {
+    console.error("Ignoring unreadable keymap:", err)
+    return {}
+  }
+}
+
+const saveOverrides = (overrides: KeymapOverrides) => {
+  if (typeof window === "undefined") return
+  localStorage.setItem(KEYMAP_KEY, JSON.stringify(overrides))
+  window.dispatchEvent(new Event(KEYMAP_CHANGED_EVENT))
+}
+
+export function useKeymap() {
+  const [overrides, setOverrides] = useState<KeymapOverrides>({})
+
+  useEffect(() => {
+    const reload = () => setOverrides(loadOverrides())
+    reload()
+    window.addEventListener(KEYMAP_CHANGED_EVENT, reload)
+    return () => window.removeEventListener(KEYMAP_CHANGED_EVENT, reload)
+  }, [])
+
+  const updateOverrides = useCallback((update: (overrides: KeymapOverrides) => KeymapOverrides) => {
+    setOverrides((prev) => {
+      const next = update(prev)
+      saveOverrides(next)
+      return next
+    })
+  }, [])
+
+  // Binding a chord that another action uses takes it away from that action
+  const setBinding = useCallback(
+    (actionId: string, chord: KeyChord | null) => {
+      updateOverrides((prev) => {
+        const next = { ...prev, [actionId]: chord }
+        if (chord) {
+          const keymap = resolveKeymap(prev)
+          Object.keys(keymap).forEach((otherId) => {
+            if (otherId !== actionId && keymap[otherId] === chord) next[otherId] = null
+          })
+        }
+        return next
+      })
+    },
+    [updateOverrides],
+  )
+
+  const resetBinding = useCallback(
+    (actionId: string) => {
+      updateOverrides((prev) => {
+        const { [actionId]: _removed, ...rest } = prev
+        return rest
+      })
+    },
+    [updateOverrides],
+  )
+
+  const resetAll = useCallback(() => updateOverrides(() => ({})), [updateOverrides])
+
+  return {
+    keymap: resolveKeymap(overrides),
+    overrides,
+    setBinding,
+    resetBinding,
+    resetAll,
+  }
+}
+
+export type KeymapLibrary = ReturnType<typeof useKeymap>
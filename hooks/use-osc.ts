@@ -0,0 +1,71 @@
+"use client"
+
+import { useState, useCallback, useEffect } from "react"
+import type { OscConfig, OscStatus } from "@/lib/osc"
+
+const STOPPED: OscStatus = {
+  running: false,
+  sent: 0,
+  received: 0,
+  coalesced: 0,
+  rejected: 0,
+  lastReceived: null,
+  error: null,
+}
+
+// Settings and status of the main process's OSC socket; every control surface shares them
+export function useOsc() {
+  const [config, setConfig] = useState<OscConfig | null>(null)
+  const [status, setStatus] = useState<OscStatus>(STOPPED)
+
+  useEffect(() => {
+    const api = window.electronAPI
+    if (!api) return
+
+    let isCurrent = true
+    api
+      .oscGetConfig()
+      .then((result) => {
+        if (!isCurrent) return
+        setConfig(result.config)
+        setStatus(result.status)
+      })
+      .catch((err) => console.error("Failed to read OSC settings:", err))
+    const unsubscribe = api.onOscStatus((event, next) => setStatus(next))
+    return () => {
+      isCurrent = false
+      unsubscribe()
+    }
+  }, [])
+
+  // Message counters aren't pushed; the settings dialog refreshes them while it's open
+  const refreshStatus = useCallback(async () => {
+    if (!window.electronAPI) return
+    try {
+      setStatus((await window.electronAPI.oscGetConfig()).status)
+    } catch (err) {
+      console.error("Failed to read OSC status:", err)
+    }
+  }, [])
+
+  // Saves and restarts (or stops) the socket; throws when it can't bind the listen port
+  const saveConfig = useCallback(async (next: OscConfig) => {
+    if (!window.electronAPI) {
+      throw new Error("OSC is only available in the desktop app")
+    }
+    setConfig(next)
+    const result = await window.electronAPI.oscSetConfig(next)
+    if (!result.success) {
+      throw new Error(result.error || "Failed to start OSC")
+    }
+  }, [])
+
+  return {
+    config,
+    status,
+    refreshStatus,
+    saveConfig,
+  }
+}
+
+export type OscState = ReturnType<typeof useOsc>
@@ -0,0 +1,135 @@
+"use client"
+
+import { useState, useCallback, useEffect } from "react"
+import type { DeviceType, HapticSettings } from "@/lib/protocol"
+import {
+  FACTORY_PRESETS,
+  createPresetId,
+  parsePresetBundle,
+  serializePresetBundle,
+  uniquePresetName,
+  type HapticPreset,
+} from "@/lib/presets"
+
+const USER_PRESETS_KEY = "hapticPresets"
+// Tells the other control surfaces in this window that the presets changed
+const PRESETS_CHANGED_EVENT = "presets-changed"
+
+// User presets live in localStorage; factory presets are always merged in and can't be edited
+const loadUserPresets = (): HapticPreset[] => {
+  if (typeof window === "undefined") return []
+  try {
+    const stored = localStorage.getItem(USER_PRESETS_KEY)
+    return stored ? parsePresetBundle(stored, { keepIds: true }) : []
+  } catch (err) {
+    console.error("Ignoring unreadable stored presets:", err)
+    return []
+  }
+}
+
+const saveUserPresets = (presets: HapticPreset[]) => {
+  if (typeof window === "undefined") return
+  localStorage.setItem(USER_PRESETS_KEY, serializePresetBundle(presets, { includeIds: true }))
+  window.dispatchEvent(new Event(PRESETS_CHANGED_EVENT))
+}
+
+export function usePresets(deviceType: DeviceType) {
+  const [userPresets, setUserPresets] = useState<HapticPreset[]>([])
+
+  useEffect(() => {
+    const reload = () => setUserPresets(loadUserPresets())
+    reload()
+    window.addEventListener(PRESETS_CHANGED_EVENT, reload)
+    return () => window.removeEventListener(PRESETS_CHANGED_EVENT, reload)
+  }, [])
+
+  // Every surface keeps a copy, so changes start from the stored list rather than this one
+  const updatePresets = useCallback((update: (presets: HapticPreset[]) => HapticPreset[]) => {
+    saveUserPresets(update(loadUserPresets()))
+  }, [])
+
+  const allPresets = [...FACTORY_PRESETS, ...userPresets]
+  const presets = allPresets.filter((preset) => preset.deviceType === deviceType)
+
+  const createPreset = useCallback(
+    (name: string, settings: HapticSettings) => {
+      updatePresets((prev) => [
+        ...prev,
+        { id: createPresetId(), name: uniquePresetName(name, [...FACTORY_PRESETS, ...prev]), deviceType, settings },
+      ])
+    },
+    [deviceType, updatePresets],
+  )
+
+  const renamePreset = useCallback(
+    (id: string, name: string) => {
+      updatePresets((prev) =>
+        prev.map((preset) =>
+          preset.id === id
+            ? { ...preset, name: uniquePresetName(name, [...FACTORY_PRESETS, ...prev.filter((p) => p.id !== id)]) }
+            : preset,
+        ),
+      )
+    },
+    [updatePresets],
+  )
+
+  // Factory presets can be duplicated into editable user presets
+  const duplicatePreset = useCallback(
+    (id: string) => {
+      updatePresets((prev) => {
+        const source = [...FACTORY_PRESETS, ...prev].find((preset) => preset.id === id)
+        if (!source) return prev
+        return [
+          ...prev,
+          {
+            id: createPresetId(),
+            name: uniquePresetName(source.name, [...FACTORY_PRESETS, ...prev]),
+            deviceType: source.deviceType,
+            settings: { ...source.settings },
+          },
+        ]
+      })
+    },
+    [updatePresets],
+  )
+
+  const deletePreset = useCallback(
+    (id: string) => {
+      updatePresets((prev) => prev.filter((preset) => preset.id !== id))
+    },
+    [updatePresets],
+  )
+
+  // Returns how many presets were imported; throws ConfigError for invalid files
+  const importPresets = useCallback(
+    (text: string) => {
+      const imported = parsePresetBundle(text)
+      updatePresets((prev) => {
+        const next = [...prev]
+        imported.forEach((preset) => {
+          next.push({ ...preset, name: uniquePresetName(preset.name, [...FACTORY_PRESETS, ...next]) })
+        })
+        return next
+      })
+      return imported.length
+    },
+    [updatePresets],
+  )
+
+  // Exports the user presets (all device types); factory presets ship with the app
+  const exportPresets = useCallback(() => serializePresetBundle(userPresets), [userPresets])
+
+  return {
+    presets,
+    userPresets,
+    createPreset,
+    renamePreset,
+    duplicatePreset,
+    deletePreset,
+    importPresets,
+    exportPresets,
+  }
+}
+
+export type PresetLibrary = ReturnType<typeof usePresets>
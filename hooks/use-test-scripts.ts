@@ -0,0 +1,99 @@
+"use client"
+
+import { useState, useCallback, useEffect } from "react"
+import { EXAMPLE_SCRIPT, type TestScript } from "@/lib/script-runner"
+import { uniquePresetName } from "@/lib/presets"
+
+const TEST_SCRIPTS_KEY = "testScripts"
+// Tells the other control surfaces in this window that the scripts changed
+const TEST_SCRIPTS_CHANGED_EVENT = "test-scripts-changed"
+
+const createScriptId = () => `script:${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+
+// Scripts live in localStorage
+const loadScripts = (): TestScript[] => {
+  if (typeof window === "undefined") return []
+  const stored = localStorage.getItem(TEST_SCRIPTS_KEY)
+  if (stored === null) return []
+  try {
+    const parsed = JSON.parse(stored)
+    return Array.isArray(parsed)
+      ? parsed.filter(
+          (entry): entry is TestScript =>
+            typeof entry?.id === "string" && typeof entry?.name === "string" && typeof entry?.source === "string",
+        )
+      : []
+  } catch (err) {
+    console.error("Ignoring unreadable stored test scripts:", err)
+    return []
+  }
+}
+
+const saveScripts = (scripts: TestScript[]) => {
+  if (typeof window === "undefined") return
+  localStorage.setItem(TEST_SCRIPTS_KEY, JSON.stringify(scripts))
+  window.dispatchEvent(new Event(TEST_SCRIPTS_CHANGED_EVENT))
+}
+
+export function useTestScripts() {
+  const [scripts, setScripts] = useState<TestScript[]>([])
+
+  useEffect(() => {
+    // A first launch starts with the example so the editor isn't empty
+    if (localStorage.getItem(TEST_SCRIPTS_KEY) === null) {
+      saveScripts([{ id: createScriptId(), name: "Example: torque sweep", source: EXAMPLE_SCRIPT }])
+    }
+    const reload = () => setScripts(loadScripts())
+    reload()
+    window.addEventListener(TEST_SCRIPTS_CHANGED_EVENT, reload)
+    return () => window.removeEventListener(TEST_SCRIPTS_CHANGED_EVENT, reload)
+  }, [])
+
+  // Every surface keeps a copy, so changes start from the stored list rather than this one
+  const updateScripts = useCallback((update: (scripts: TestScript[]) => TestScript[]) => {
+    saveScripts(update(loadScripts()))
+  }, [])
+
+  // Returns the new script's id so the editor can select it
+  const createScript = useCallback(
+    (name: string, source = "") => {
+      const id = createScriptId()
+      updateScripts((prev) => [...prev, { id, name: uniquePresetName(name, prev), source }])
+      return id
+    },
+    [updateScripts],
+  )
+
+  const updateScript = useCallback(
+    (id: string, changes: Partial<Omit<TestScript, "id">>) => {
+      updateScripts((prev) =>
+        prev.map((script) => {
+          if (script.id !== id) return script
+          const others = prev.filter((other) => other.id !== id)
+          return {
+            ...script,
+            ...changes,
+            ...(changes.name !== undefined ? { name: uniquePresetName(changes.name, others) } : {}),
+          }
+        }),
+      )
+    },
+    [updateScripts],
+  )
+
+  const deleteScript = useCallback(
+    (id: string) => {
+      updateScripts((prev) => prev.filter((script) => script.id !== id))
+    },
+    [updateScripts],
+  )
+
+  return {
+    scripts,
+    createScript,
+    updateScript,
+    deleteScript,
+  }
+}
+
+export type TestScriptLibrary = ReturnType<typeof useTestScripts>
@@ -0,0 +1,52 @@
+"use client"
+
+import { useState, useCallback, useEffect } from "react"
+import type { BridgeConfig, BridgeStatus } from "@/lib/bridge-protocol"
+
+const STOPPED: BridgeStatus = { running: false, port: null, clients: [], error: null }
+
+// Settings and live status of the main process's WebSocket bridge; every control surface shares them
+export function useWebSocketBridge() {
+  const [config, setConfig] = useState<BridgeConfig | null>(null)
+  const [status, setStatus] = useState<BridgeStatus>(STOPPED)
+
+  useEffect(() => {
+    const api = window.electronAPI
+    if (!api) return
+
+    let isCurrent = true
+    api
+      .bridgeGetConfig()
+      .then((result) => {
+        if (!isCurrent) return
+        setConfig(result.config)
+        setStatus(result.status)
+      })
+      .catch((err) => console.error("Failed to read WebSocket bridge settings:", err))
+    const unsubscribe = api.onBridgeStatus((event, next) => setStatus(next))
+    return () => {
+      isCurrent = false
+      unsubscribe()
+    }
+  }, [])
+
+  // Saves and restarts (or stops) the server; throws when it can't listen on the port
+  const saveConfig = useCallback(async (next: BridgeConfig) => {
+    if (!window.electronAPI) {
+      throw new Error("The WebSocket bridge is only available in the desktop app")
+    }
+    setConfig(next)
+    const result = await window.electronAPI.bridgeSetConfig(next)
+    if (!result.success) {
+      throw new Error(result.error || "Failed to start the WebSocket bridge")
+    }
+  }, [])
+
+  return {
+    config,
+    status,
+    saveConfig,
+  }
+}
+
+export type WebSocketBridgeState = ReturnType<typeof useWebSocketBridge>
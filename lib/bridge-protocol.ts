@@ -0,0 +1,125 @@
+// Messages of the localhost WebSocket bridge (public/websocket-bridge.js). The main process
+// handles subscriptions itself and passes "command" and "settings" messages to the control
+// surface that owns the device, which checks them here before sending anything.
+import {
+  ENDSTOP_MODES,
+  isEffectSupported,
+  isModeSupported,
+  type DetentStrength,
+  type DeviceIdentity,
+  type HapticSettings,
+  type TFDCommand,
+} from "@/lib/protocol"
+import { ConfigError, SETTING_RANGES, createValidators, type RawConfig } from "@/lib/haptic-config"
+
+export interface BridgeConfig {
+  enabled: boolean
+  port: number
+  // Clients pass it as ?token=... or an "Authorization: Bearer" header
+  token: string
+}
+
+export interface BridgeClientInfo {
+  id: string
+  // Device ids whose telemetry the client receives; "*" means every device
+  devices: string[]
+  // 0 when the client takes every sample
+  rateHz: number
+}
+
+export interface BridgeStatus {
+  running: boolean
+  port: number | null
+  clients: BridgeClientInfo[]
+  // Why the server couldn't start, e.g. the port is taken
+  error: string | null
+}
+
+export type BridgeRequest =
+  | { type: "command"; command: TFDCommand }
+  // Merged into the surface's current settings, which the UI then shows
+  | { type: "settings"; settings: Partial<HapticSettings> }
+
+// Commands that change what the knob feels like; telemetry and identification stay with the app
+export const BRIDGE_COMMAND_TYPES = [
+  "normal",
+  "detent",
+  "detent-table",
+  "cw",
+  "ccw",
+  "constant",
+  "endstops",
+  "proportional",
+  "inertial",
+  "latch",
+  "sticky",
+  "zero",
+] as const satisfies readonly TFDCommand["type"][]
+
+const DETENT_STRENGTHS: readonly DetentStrength[] = ["ultra", "fine", "coarse", "center"]
+
+export const bridgeUrl = (config: Pick<BridgeConfig, "port" | "token">) =>
+  `ws://127.0.0.1:${config.port}/?token=${config.token}`
+
+function validateCommand(raw: RawConfig, problems: string[], identity: DeviceIdentity | null): TFDCommand {
+  const { oneOf, number, boolean, detents } = createValidators(problems, "command.")
+  const type = oneOf("type", raw.type, BRIDGE_COMMAND_TYPES)
+
+  switch (type) {
+    case "detent":
+      return { type, strength: oneOf("strength", raw.strength, DETENT_STRENGTHS) }
+    case "detent-table":
+      if (!isEffectSupported(type, identity)) problems.push("command.type: the device's firmware has no detent tables")
+      return { type, detents: detents("detents", raw.detents) }
+    case "constant":
+      return { type, torque: number("torque", raw.torque, ...SETTING_RANGES.torque) }
+    case "endstops":
+      return {
+        type,
+        turns: number("turns", raw.turns, ...SETTING_RANGES.endstopTurns),
+        center: number("center", raw.center ?? 0, ...SETTING_RANGES.endstopCenter),
+        variant: oneOf("variant", raw.variant ?? "none", ENDSTOP_MODES),
+      }
+    case "proportional":
+      return {
+        type,
+        targetAngle: number("targetAngle", raw.targetAngle, ...SETTING_RANGES.targetAngle),
+        stiffness: number("stiffness", raw.stiffness, ...SETTING_RANGES.stiffness),
+      }
+    case "inertial":
+      return { type, factor: number("factor", raw.factor, ...SETTING_RANGES.stiffness) }
+    case "sticky":
+      return { type, enabled: boolean("enabled", raw.enabled) }
+    default:
+      return { type } as TFDCommand
+  }
+}
+
+// Checks a client's "command" or "settings" message against what the device's firmware supports
+// (identity is null when it didn't identify itself); throws ConfigError listing every problem
+export function parseBridgeRequest(message: RawConfig, identity: DeviceIdentity | null): BridgeRequest {
+  const problems: string[] = []
+  const { object } = createValidators(problems)
+
+  const request: BridgeRequest =
+    message.type === "command"
+      ? { type: "command", command: validateCommand(object("command", message.command), problems, identity) }
+      : {
+          type: "settings",
+          settings: createValidators(problems, "settings.").partialSettings(object("settings", message.settings)),
+        }
+
+  if (request.type === "settings" && request.settings.mode && !isModeSupported(request.settings.mode, identity)) {
+    problems.push(`settings.mode: the device's firmware doesn't support ${request.settings.mode}`)
+  }
+  if (problems.length > 0) {
+    throw new ConfigError(problems.join("; "))
+  }
+  return request
+}
+
+// Same shape as the tokens the main process creates on first launch
+export function createBridgeToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16))
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("")
+}
@@ -0,0 +1,135 @@
+// Serialises commands to the device and matches each reply to the command that caused it
+import { encodeCommand, expectedResponse, type TFDCommand, type TFDMessage } from "./protocol"
+
+export type CommandFailureReason = "timeout" | "device" | "write" | "cancelled"
+
+export class CommandError extends Error {
+  readonly reason: CommandFailureReason
+  readonly command: TFDCommand
+
+  constructor(reason: CommandFailureReason, message: string, command: TFDCommand) {
+    super(message)
+    this.name = "CommandError"
+    this.reason = reason
+    this.command = command
+  }
+}
+
+export interface CommandOptions {
+  timeoutMs?: number
+  retries?: number
+}
+
+interface PendingCommand {
+  command: TFDCommand
+  timeoutMs: number
+  retriesLeft: number
+  resolve: (response: TFDMessage) => void
+  reject: (error: CommandError) => void
+}
+
+export const DEFAULT_COMMAND_TIMEOUT_MS = 1000
+export const DEFAULT_COMMAND_RETRIES = 1
+
+export class CommandQueue {
+  private queue: PendingCommand[] = []
+  private active: PendingCommand | null = null
+  private timeout: ReturnType<typeof setTimeout> | null = null
+
+  constructor(private write: (line: string) => Promise<void>) {}
+
+  // The firmware has no request ids, so only one command is in flight at a time
+  send(command: TFDCommand, options: CommandOptions = {}): Promise<TFDMessage> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({
+        command,
+        timeoutMs: options.timeoutMs ?? DEFAULT_COMMAND_TIMEOUT_MS,
+        retriesLeft: options.retries ?? DEFAULT_COMMAND_RETRIES,
+        resolve,
+        reject,
+      })
+      this.next()
+    })
+  }
+
+  // Offer a decoded line to the in-flight command; returns true if it was its reply
+  handleMessage(message: TFDMessage): boolean {
+    const pending = this.active
+    if (!pending) return false
+
+    if (message.type === "error") {
+      this.settle(pending, () => pending.reject(new CommandError("device", message.message, pending.command)))
+      return true
+    }
+
+    if (message.type !== expectedResponse(pending.command)) return false
+
+    this.settle(pending, () => pending.resolve(message))
+    return true
+  }
+
+  // Reject everything queued or in flight, e.g. when the port closes
+  cancelAll(message = "Connection closed") {
+    const pending = this.active ? [this.active, ...this.queue] : [...this.queue]
+    this.queue = []
+    this.active = null
+    this.clearTimeout()
+    pending.forEach((item) => item.reject(new CommandError("cancelled", message, item.command)))
+  }
+
+  get size(): number {
+    return this.queue.length + (this.active ? 1 : 0)
+  }
+
+  private next() {
+    if (this.active || this.queue.length === 0) return
+    this.active = this.queue.shift()!
+    this.transmit(this.active)
+  }
+
+  // The timeout runs from the moment the command is handed over, so a write that never drains
+  // (e.g. a wedged port) times out like a missing reply instead of holding up the queue
+  private async transmit(pending: PendingCommand) {
+    this.timeout = setTimeout(() => this.handleTimeout(pending), pending.timeoutMs)
+    try {
+      await this.write(encodeCommand(pending.command))
+    } catch (error) {
+      if (this.active !== pending) return
+      const message = error instanceof Error ? error.message : "Failed to write command"
+      this.settle(pending, () => pending.reject(new CommandError("write", message, pending.command)))
+    }
+  }
+
+  private handleTimeout(pending: PendingCommand) {
+    if (this.active !== pending) return
+    this.timeout = null
+
+    if (pending.retriesLeft > 0) {
+      pending.retriesLeft -= 1
+      console.warn("Retrying command:", encodeCommand(pending.command).trim())
+      this.transmit(pending)
+      return
+    }
+
+    const line = encodeCommand(pending.command).trim()
+    this.settle(pending, () =>
+      pending.reject(new CommandError("timeout", `No response to "${line}" after ${pending.timeoutMs}ms`, pending.command)),
+    )
+  }
+
+  private settle(pending: PendingCommand, complete: () => void) {
+    if (this.active === pending) {
+      this.active = null
+      this.clearTimeout()
+    }
+    complete()
+    this.next()
+  }
+
+  private clearTimeout() {
+    if (this.timeout) {
+      clearTimeout(this.timeout)
+      this.timeout = null
+    }
+  }
+}
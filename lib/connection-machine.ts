@@ -0,0 +1,162 @@
+// Connection lifecycle of one device: which states exist, which transitions are legal, how long to
+// back off between reconnect attempts and how to find the device again after USB re-enumeration.
+// Timers and serial I/O stay with the caller; this only keeps the bookkeeping consistent.
+
+export const CONNECTION_STATES = [
+  "idle", // no port open
+  "connecting", // opening the port the user picked
+  "grace", // port open, waiting for the device to answer
+  "live", // device answering
+  "stalled", // port open but the device went quiet
+  "reconnecting", // waiting for / running the next reconnect attempt
+  "failed", // gave up reconnecting
+] as const
+
+export type ConnectionState = (typeof CONNECTION_STATES)[number]
+
+const TRANSITIONS: Record<ConnectionState, ConnectionState[]> = {
+  idle: ["connecting"],
+  connecting: ["grace", "failed", "idle"],
+  grace: ["live", "stalled", "reconnecting", "idle"],
+  live: ["stalled", "reconnecting", "idle"],
+  stalled: ["live", "reconnecting", "idle"],
+  reconnecting: ["reconnecting", "grace", "failed", "idle"],
+  failed: ["connecting", "idle"],
+}
+
+// States in which the port is open
+export const isPortOpen = (state: ConnectionState) => state === "grace" || state === "live" || state === "stalled"
+
+export interface ConnectionEvent {
+  time: number // epoch ms
+  from: ConnectionState
+  to: ConnectionState
+  reason: string
+}
+
+export interface BackoffOptions {
+  baseMs: number
+  maxMs: number
+  factor: number
+  // Fraction of the delay added or removed at random so several devices don't retry in lockstep
+  jitter: number
+}
+
+export const DEFAULT_BACKOFF: BackoffOptions = { baseMs: 500, maxMs: 30_000, factor: 2, jitter: 0.2 }
+
+// Delay before the given attempt (1-based)
+export function backoffDelay(attempt: number, options = DEFAULT_BACKOFF, random = Math.random): number {
+  const delay = Math.min(options.maxMs, options.baseMs * options.factor ** Math.max(0, attempt - 1))
+  return Math.round(delay * (1 + options.jitter * (random() * 2 - 1)))
+}
+
+// What is known about the device we were talking to, for finding it again on a new port path
+export interface DeviceFingerprint {
+  path: string
+  baudRate: number
+  serialNumber?: string
+  productId?: string
+  vendorId?: string
+}
+
+interface PortCandidate {
+  path: string
+  serialNumber?: string
+  productId?: string
+  vendorId?: string
+}
+
+// The USB serial number identifies the device exactly; otherwise prefer the old path, then a
+// unique port with the same product (and vendor) id
+export function findDevicePort<P extends PortCandidate>(ports: P[], target: DeviceFingerprint): P | undefined {
+  if (target.serialNumber) {
+    const bySerial = ports.find((port) => port.serialNumber === target.serialNumber)
+    if (bySerial) return bySerial
+    // A different device is now on the old path
+    if (ports.some((port) => port.path === target.path && port.serialNumber)) return undefined
+  }
+
+  const samePath = ports.find((port) => port.path === target.path)
+  if (samePath) return samePath
+
+  if (!target.productId) return undefined
+  const sameProduct = ports.filter(
+    (port) => port.productId === target.productId && (!target.vendorId || port.vendorId === target.vendorId),
+  )
+  return sameProduct.length === 1 ? sameProduct[0] : undefined
+}
+
+const MAX_EVENTS = 200
+
+export class ConnectionMachine {
+  private currentState: ConnectionState = "idle"
+  private events: ConnectionEvent[] = []
+  private listeners = new Set<() => void>()
+  private attempts = 0
+
+  constructor(
+    readonly maxAttempts = 8,
+    private backoff = DEFAULT_BACKOFF,
+  ) {}
+
+  get state(): ConnectionState {
+    return this.currentState
+  }
+
+  // Reconnect attempts made since the device was last live
+  get attempt(): number {
+    return this.attempts
+  }
+
+  get timeline(): readonly ConnectionEvent[] {
+    return this.events
+  }
+
+  can(to: ConnectionState): boolean {
+    return TRANSITIONS[this.currentState].includes(to)
+  }
+
+  // Illegal transitions (usually a timer firing after the user moved on) are ignored
+  transition(to: ConnectionState, reason: string, now = Date.now()): boolean {
+    if (!this.can(to)) {
+      console.warn(`Ignoring connection transition ${this.currentState} -> ${to} (${reason})`)
+      return false
+    }
+
+    if (to === "live" || to === "idle" || to === "connecting") {
+      this.attempts = 0
+    }
+
+    this.events.push({ time: now, from: this.currentState, to, reason })
+    if (this.events.length > MAX_EVENTS) {
+      this.events.splice(0, this.events.length - MAX_EVENTS)
+    }
+    this.currentState = to
+    this.notify()
+    return true
+  }
+
+  // Counts the next reconnect attempt and returns how long to wait before it, or null once
+  // the attempts are used up
+  nextAttemptDelay(random = Math.random): number | null {
+    if (this.attempts >= this.maxAttempts) return null
+    this.attempts += 1
+    return backoffDelay(this.attempts, this.backoff, random)
+  }
+
+  clearTimeline() {
+    this.events = []
+    this.notify()
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private notify() {
+    this.listeners.forEach((listener) => listener())
+  }
+}
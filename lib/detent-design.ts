@@ -0,0 +1,127 @@
+// Custom detent tables: generating them from a repeating pattern, tidying hand-edited tables
+// and checking them before they're sent to the device
+import type { CustomDetent } from "@/lib/protocol"
+
+// Keeps the "set detent-table" line around a kilobyte, which firmware line buffers accept
+export const MAX_CUSTOM_DETENTS = 64
+
+// Accepted [min, max] of each detent field
+export const DETENT_RANGES = {
+  angle: [0, 360],
+  strength: [0, 1],
+  width: [1, 90],
+} satisfies Record<keyof CustomDetent, [number, number]>
+
+export interface DetentPattern {
+  // Evenly spaced detents are given either by how many fit in a turn or by the angle between them
+  spacingMode: "count" | "spacing"
+  count: number
+  spacing: number
+  // Angle of the first detent
+  offset: number
+  strength: number
+  width: number
+  // Every nth detent (counting from the first) uses the accent strength and width; 0 turns accents off
+  accentEvery: number
+  accentStrength: number
+  accentWidth: number
+}
+
+export const DEFAULT_DETENT_PATTERN: DetentPattern = {
+  spacingMode: "count",
+  count: 24,
+  spacing: 15,
+  offset: 0,
+  strength: 0.1,
+  width: 10,
+  accentEvery: 6,
+  accentStrength: 0.3,
+  accentWidth: 14,
+}
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits))
+
+const wrap360 = (angle: number) => ((angle % 360) + 360) % 360
+
+export function generateDetents(pattern: DetentPattern): CustomDetent[] {
+  const spacing = pattern.spacingMode === "count" ? 360 / Math.max(1, pattern.count) : pattern.spacing
+  if (!(spacing > 0)) return []
+
+  const count = Math.min(MAX_CUSTOM_DETENTS, Math.floor(360 / spacing + 1e-9))
+  return Array.from({ length: count }, (_, index) => {
+    const isAccent = pattern.accentEvery > 0 && index % pattern.accentEvery === 0
+    return {
+      angle: round(wrap360(pattern.offset + index * spacing), 1),
+      strength: isAccent ? pattern.accentStrength : pattern.strength,
+      width: isAccent ? pattern.accentWidth : pattern.width,
+    }
+  })
+}
+
+export const DEFAULT_CUSTOM_DETENTS = generateDetents(DEFAULT_DETENT_PATTERN)
+
+// Wraps angles into one turn and sorts by angle, the order the firmware expects
+export function normalizeDetents(detents: CustomDetent[]): CustomDetent[] {
+  return detents
+    .map((detent) => ({ ...detent, angle: round(wrap360(detent.angle), 1) }))
+    .sort((a, b) => a.angle - b.angle)
+}
+
+export const sameDetents = (a: CustomDetent[], b: CustomDetent[]) =>
+  a.length === b.length &&
+  a.every(
+    (detent, index) =>
+      detent.angle === b[index].angle && detent.strength === b[index].strength && detent.width === b[index].width,
+  )
+
+// Angle halfway across the widest gap between detents, for adding one more
+export function largestGapAngle(detents: CustomDetent[]): number {
+  const angles = normalizeDetents(detents).map((detent) => detent.angle)
+  if (angles.length === 0) return 0
+
+  let bestAngle = wrap360(angles[0] + 180)
+  let bestGap = 0
+  angles.forEach((angle, index) => {
+    const next = index + 1 < angles.length ? angles[index + 1] : angles[0] + 360
+    if (next - angle > bestGap) {
+      bestGap = next - angle
+      bestAngle = wrap360(angle + (next - angle) / 2)
+    }
+  })
+  return round(bestAngle, 1)
+}
+
+// Problems that stop a table from being sent; overlapping detents are allowed but warned about
+export function detentTableProblems(detents: CustomDetent[]): string[] {
+  const problems: string[] = []
+  if (detents.length === 0) {
+    problems.push("Add at least one detent")
+  }
+  if (detents.length > MAX_CUSTOM_DETENTS) {
+    problems.push(`At most ${MAX_CUSTOM_DETENTS} detents fit in a table`)
+  }
+
+  const fields = Object.keys(DETENT_RANGES) as (keyof CustomDetent)[]
+  detents.forEach((detent, index) => {
+    for (const field of fields) {
+      const [min, max] = DETENT_RANGES[field]
+      const value = detent[field]
+      if (!Number.isFinite(value) || value < min || value > max) {
+        problems.push(`Detent ${index + 1}: ${field} must be between ${min} and ${max}`)
+      }
+    }
+  })
+  return problems
+}
+
+// Neighbouring detents whose pull regions overlap, so one partly cancels the other
+export function detentOverlapWarnings(detents: CustomDetent[]): string[] {
+  const sorted = normalizeDetents(detents)
+  if (sorted.length < 2) return []
+
+  return sorted.flatMap((detent, index) => {
+    const next = sorted[(index + 1) % sorted.length]
+    const gap = wrap360(next.angle - detent.angle) || 360
+    return gap < (detent.width + next.width) / 2 ? [`Detents at ${detent.angle}° and ${next.angle}° overlap`] : []
+  })
+}
@@ -0,0 +1,36 @@
+// Pointer geometry for the draggable handles on the dial and steering wheel. Both are drawn
+// in a 400x400 viewBox with 0° at the top and angles increasing clockwise.
+import { wrap180 } from "@/lib/haptic-profile"
+
+export const DIAL_CENTER = 200
+const VIEWBOX_SIZE = 400
+
+// Dragged angles snap to this step, matching the keyboard nudge for the target angle
+export const DRAG_SNAP_DEGREES = 5
+
+// Endstop markers can't be dragged closer together than this
+export const MIN_ENDSTOP_SPAN_DEGREES = 30
+
+// Point on a circle around the dial centre for an angle in dial degrees
+export function dialPoint(angle: number, radius: number) {
+  const radians = ((angle - 90) * Math.PI) / 180
+  return { x: DIAL_CENTER + Math.cos(radians) * radius, y: DIAL_CENTER + Math.sin(radians) * radius }
+}
+
+// Dial angle (0 to 360) under the pointer, or null when it's right on the centre
+export function pointerAngle(svg: SVGSVGElement, clientX: number, clientY: number): number | null {
+  const rect = svg.getBoundingClientRect()
+  if (rect.width === 0 || rect.height === 0) return null
+  const x = ((clientX - rect.left) / rect.width) * VIEWBOX_SIZE - DIAL_CENTER
+  const y = ((clientY - rect.top) / rect.height) * VIEWBOX_SIZE - DIAL_CENTER
+  if (Math.hypot(x, y) < 10) return null
+  return ((Math.atan2(y, x) * 180) / Math.PI + 90 + 360) % 360
+}
+
+// Multi-turn angle closest to the previous one that lands on the pointer's angle, so a drag
+// across 0° (or several times round) keeps counting turns instead of jumping back
+export const unwrapAngle = (previous: number, pointer: number) => previous + wrap180(pointer - previous)
+
+export const snapAngle = (angle: number, step = DRAG_SNAP_DEGREES) => Math.round(angle / step) * step
+
+export const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value))
@@ -1,6 +1,7 @@
 // Electron-specific serial communication wrapper
 export class ElectronSerialInterface {
     private isConnected = false
+    private deviceId: string | null = null
     private onDataCallback: ((data: string) => void) | null = null
     private onErrorCallback: ((error: Error) => void) | null = null
     private onDisconnectCallback: (() => void) | null = null
@@ -8,19 +9,21 @@ export class ElectronSerialInterface {
     constructor() {
       // Set up event listeners if in Electron environment
       if (typeof window !== "undefined" && window.electronAPI) {
-        window.electronAPI.onSerialData((event: any, data: string) => {
-          if (this.onDataCallback) {
+        // Events from other devices opened by the control surfaces are ignored
+        window.electronAPI.onSerialData((event: any, deviceId: string, data: string) => {
+          if (deviceId === this.deviceId && this.onDataCallback) {
             this.onDataCallback(data)
           }
         })
   
-        window.electronAPI.onSerialError((event: any, error: string) => {
-          if (this.onErrorCallback) {
+        window.electronAPI.onSerialError((event: any, deviceId: string | null, error: string) => {
+          if ((deviceId === null || deviceId === this.deviceId) && this.onErrorCallback) {
             this.onErrorCallback(new Error(error))
           }
         })
   
-        window.electronAPI.onSerialDisconnected(() => {
+        window.electronAPI.onSerialDisconnected((event: any, deviceId: string) => {
+          if (deviceId !== this.deviceId) return
           this.isConnected = false
           if (this.onDisconnectCallback) {
             this.onDisconnectCallback()
@@ -57,8 +60,9 @@ export class ElectronSerialInterface {
       }
   
       try {
-        const result = await window.electronAPI.serialConnect(portPath, baudRate)
+        const result = await window.electronAPI.serialConnect(portPath, baudRate, this.deviceId ?? undefined)
         if (result.success) {
+          this.deviceId = result.deviceId ?? null
           this.isConnected = true
           return true
         } else {
@@ -71,12 +75,12 @@ export class ElectronSerialInterface {
     }
   
     async disconnect() {
-      if (!window.electronAPI) {
+      if (!window.electronAPI || !this.deviceId) {
         return
       }
   
       try {
-        const result = await window.electronAPI.serialDisconnect()
+        const result = await window.electronAPI.serialDisconnect(this.deviceId)
         if (result.success) {
           this.isConnected = false
         } else {
@@ -93,12 +97,12 @@ export class ElectronSerialInterface {
         throw new Error("Electron API not available")
       }
   
-      if (!this.isConnected) {
+      if (!this.isConnected || !this.deviceId) {
         throw new Error("Not connected to serial port")
       }
   
       try {
-        const result = await window.electronAPI.serialWrite(data)
+        const result = await window.electronAPI.serialWrite(this.deviceId, data)
         if (!result.success) {
           throw new Error(result.error)
         }
@@ -109,12 +113,12 @@ export class ElectronSerialInterface {
     }
   
     async isPortConnected() {
-      if (!window.electronAPI) {
+      if (!window.electronAPI || !this.deviceId) {
         return false
       }
   
       try {
-        return await window.electronAPI.serialIsConnected()
+        return await window.electronAPI.serialIsConnected(this.deviceId)
       } catch (error) {
         console.error("Failed to check connection status:", error)
         return false
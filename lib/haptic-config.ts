@@ -0,0 +1,254 @@
+// Versioned configuration files written by File > Save Configuration and read back by Load
+import {
+  DEVICE_TYPES,
+  ENDSTOP_MODES,
+  HAPTIC_MODES,
+  type CustomDetent,
+  type DeviceType,
+  type HapticSettings,
+} from "@/lib/protocol"
+import { DEFAULT_CUSTOM_DETENTS, DETENT_RANGES, MAX_CUSTOM_DETENTS } from "@/lib/detent-design"
+import type { TelemetryMode } from "@/lib/telemetry-stats"
+
+export const CONFIG_VERSION = 3
+
+export interface TelemetryConfig {
+  enabled: boolean
+  mode: TelemetryMode
+  pollIntervalMs: number
+  streamRateHz: number
+}
+
+export interface HapticConfig extends HapticSettings {
+  deviceType: DeviceType
+  baudRate: number
+  telemetry: TelemetryConfig
+}
+
+export interface HapticConfigFile extends HapticConfig {
+  version: typeof CONFIG_VERSION
+  savedAt: string
+}
+
+export const DEFAULT_HAPTIC_CONFIG: HapticConfig = {
+  deviceType: "knob",
+  mode: "none",
+  torque: 0.2,
+  stiffness: 0.8,
+  targetAngle: 0,
+  endstopTurns: 1.0,
+  endstopCenter: 0,
+  endstopMode: "none",
+  isSticky: false,
+  customDetents: DEFAULT_CUSTOM_DETENTS,
+  baudRate: 115200,
+  telemetry: {
+    enabled: true,
+    mode: "stream",
+    pollIntervalMs: 20,
+    streamRateHz: 50,
+  },
+}
+
+// Accepted [min, max] of the numeric haptic settings
+export const SETTING_RANGES = {
+  torque: [0, 2],
+  stiffness: [0, 5],
+  targetAngle: [-3600, 3600],
+  endstopTurns: [0, 10],
+  endstopCenter: [-3600, 3600],
+} satisfies Record<string, [number, number]>
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "ConfigError"
+  }
+}
+
+export type RawConfig = Record<string, any>
+
+// Each entry upgrades a file from that version to the next one
+const migrations: Record<number, (raw: RawConfig) => RawConfig> = {
+  // Unversioned files are a plain dump of the control state, with polling settings at the top level,
+  // and fields added since then may be missing
+  0: ({ isPolling, pollInterval, telemetryMode, streamRate, ...rest }) => ({
+    ...DEFAULT_HAPTIC_CONFIG,
+    ...rest,
+    version: 1,
+    telemetry: {
+      enabled: isPolling ?? DEFAULT_HAPTIC_CONFIG.telemetry.enabled,
+      mode: telemetryMode ?? DEFAULT_HAPTIC_CONFIG.telemetry.mode,
+      pollIntervalMs: pollInterval ?? DEFAULT_HAPTIC_CONFIG.telemetry.pollIntervalMs,
+      streamRateHz: streamRate ?? DEFAULT_HAPTIC_CONFIG.telemetry.streamRateHz,
+    },
+  }),
+  // Endstop ranges were always centred on 0° before they could be offset
+  1: (raw) => ({ ...raw, version: 2, endstopCenter: 0 }),
+  2: (raw) => ({ ...raw, version: 3, customDetents: DEFAULT_CUSTOM_DETENTS }),
+}
+
+export function serializeConfig(config: HapticConfig, now = new Date()): string {
+  const file: HapticConfigFile = {
+    version: CONFIG_VERSION,
+    savedAt: now.toISOString(),
+    deviceType: config.deviceType,
+    mode: config.mode,
+    torque: config.torque,
+    stiffness: config.stiffness,
+    targetAngle: config.targetAngle,
+    endstopTurns: config.endstopTurns,
+    endstopCenter: config.endstopCenter,
+    endstopMode: config.endstopMode,
+    isSticky: config.isSticky,
+    customDetents: config.customDetents.map((detent) => ({ ...detent })),
+    baudRate: config.baudRate,
+    telemetry: { ...config.telemetry },
+  }
+  return JSON.stringify(file, null, 2) + "\n"
+}
+
+// Parses, migrates and validates a configuration file; throws ConfigError listing every problem
+export function parseConfig(text: string): HapticConfig {
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch {
+    throw new ConfigError("Configuration file is not valid JSON")
+  }
+
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new ConfigError("Configuration file must contain a JSON object")
+  }
+
+  return validateConfig(migrateConfig(raw as RawConfig))
+}
+
+export function migrateConfig(raw: RawConfig): RawConfig {
+  let config = raw
+  let version = config.version ?? 0
+
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 0) {
+    throw new ConfigError(`Unrecognised configuration version: ${JSON.stringify(config.version)}`)
+  }
+  if (version > CONFIG_VERSION) {
+    throw new ConfigError(
+      `Configuration version ${version} is newer than this app supports (${CONFIG_VERSION}); please update KnobGUI`,
+    )
+  }
+
+  while (version < CONFIG_VERSION) {
+    config = migrations[version](config)
+    version = config.version
+  }
+  return config
+}
+
+// Field checks shared by configuration files and preset bundles; each failure is appended to problems
+export function createValidators(problems: string[], prefix = "") {
+  const oneOf = <T extends string>(key: string, value: unknown, allowed: readonly T[]): T => {
+    if (!allowed.includes(value as T)) {
+      problems.push(`${prefix}${key} must be one of ${allowed.join(", ")}`)
+    }
+    return value as T
+  }
+
+  const number = (key: string, value: unknown, min: number, max: number): number => {
+    if (typeof value !== "number" || !Number.isFinite(value) || value < min || value > max) {
+      problems.push(`${prefix}${key} must be a number between ${min} and ${max}`)
+    }
+    return value as number
+  }
+
+  const boolean = (key: string, value: unknown): boolean => {
+    if (typeof value !== "boolean") {
+      problems.push(`${prefix}${key} must be true or false`)
+    }
+    return value as boolean
+  }
+
+  const object = (key: string, value: unknown): RawConfig => {
+    if (typeof value === "object" && value !== null && !Array.isArray(value)) {
+      return value as RawConfig
+    }
+    problems.push(`${prefix}${key} must be an object`)
+    return {}
+  }
+
+  const detents = (key: string, value: unknown): CustomDetent[] => {
+    if (!Array.isArray(value) || value.length > MAX_CUSTOM_DETENTS) {
+      problems.push(`${prefix}${key} must be a list of at most ${MAX_CUSTOM_DETENTS} detents`)
+      return []
+    }
+    return value.map((entry, index) => {
+      const detent = object(`${key}[${index}]`, entry)
+      return {
+        angle: number(`${key}[${index}].angle`, detent.angle, ...DETENT_RANGES.angle),
+        strength: number(`${key}[${index}].strength`, detent.strength, ...DETENT_RANGES.strength),
+        width: number(`${key}[${index}].width`, detent.width, ...DETENT_RANGES.width),
+      }
+    })
+  }
+
+  const settings = (raw: RawConfig): HapticSettings => ({
+    mode: oneOf("mode", raw.mode, HAPTIC_MODES),
+    torque: number("torque", raw.torque, ...SETTING_RANGES.torque),
+    stiffness: number("stiffness", raw.stiffness, ...SETTING_RANGES.stiffness),
+    targetAngle: number("targetAngle", raw.targetAngle, ...SETTING_RANGES.targetAngle),
+    endstopTurns: number("endstopTurns", raw.endstopTurns, ...SETTING_RANGES.endstopTurns),
+    endstopCenter: number("endstopCenter", raw.endstopCenter, ...SETTING_RANGES.endstopCenter),
+    endstopMode: oneOf("endstopMode", raw.endstopMode, ENDSTOP_MODES),
+    isSticky: boolean("isSticky", raw.isSticky),
+    customDetents: detents("customDetents", raw.customDetents),
+  })
+
+  // Like settings, but every field is optional and unknown fields are reported
+  const partialSettings = (raw: RawConfig): Partial<HapticSettings> => {
+    const validators: { [K in keyof HapticSettings]: (value: unknown) => HapticSettings[K] } = {
+      mode: (value) => oneOf("mode", value, HAPTIC_MODES),
+      torque: (value) => number("torque", value, ...SETTING_RANGES.torque),
+      stiffness: (value) => number("stiffness", value, ...SETTING_RANGES.stiffness),
+      targetAngle: (value) => number("targetAngle", value, ...SETTING_RANGES.targetAngle),
+      endstopTurns: (value) => number("endstopTurns", value, ...SETTING_RANGES.endstopTurns),
+      endstopCenter: (value) => number("endstopCenter", value, ...SETTING_RANGES.endstopCenter),
+      endstopMode: (value) => oneOf("endstopMode", value, ENDSTOP_MODES),
+      isSticky: (value) => boolean("isSticky", value),
+      customDetents: (value) => detents("customDetents", value),
+    }
+
+    const result: RawConfig = {}
+    for (const [key, value] of Object.entries(raw)) {
+      if (!(key in validators)) {
+        problems.push(`${prefix}${key} is not a haptic setting`)
+        continue
+      }
+      result[key] = validators[key as keyof HapticSettings](value)
+    }
+    return result as Partial<HapticSettings>
+  }
+
+  return { oneOf, number, boolean, object, detents, settings, partialSettings }
+}
+
+function validateConfig(raw: RawConfig): HapticConfig {
+  const problems: string[] = []
+  const { oneOf, number, boolean, object, settings } = createValidators(problems)
+  const telemetry = object("telemetry", raw.telemetry)
+
+  const config: HapticConfig = {
+    deviceType: oneOf("deviceType", raw.deviceType, DEVICE_TYPES),
+    ...settings(raw),
+    baudRate: number("baudRate", raw.baudRate, 300, 4_000_000),
+    telemetry: {
+      enabled: boolean("telemetry.enabled", telemetry.enabled),
+      mode: oneOf<TelemetryMode>("telemetry.mode", telemetry.mode, ["stream", "poll"]),
+      pollIntervalMs: number("telemetry.pollIntervalMs", telemetry.pollIntervalMs, 1, 5000),
+      streamRateHz: number("telemetry.streamRateHz", telemetry.streamRateHz, 1, 500),
+    },
+  }
+
+  if (problems.length > 0) {
+    throw new ConfigError(`Invalid configuration: ${problems.join("; ")}`)
+  }
+  return config
+}
@@ -0,0 +1,80 @@
+// Torque-versus-angle characterisation: bins telemetry by angle so a mode's haptic profile
+// can be compared with the detents the UI draws for it
+import type { CustomDetent, HapticMode } from "@/lib/protocol"
+import type { TelemetryPoint } from "@/lib/telemetry-buffer"
+
+// Detent marks drawn around the dial per mode, evenly spaced from 0°
+export const DIAL_DETENT_COUNTS: Partial<Record<HapticMode, number>> = {
+  "soft-detents": 12,
+  "medium-detents": 12,
+  "rough-detents": 12,
+  "center-detent": 1,
+  latch: 12,
+}
+
+export const wrap180 = (angle: number) => (((angle % 360) + 540) % 360) - 180
+
+// Angles (-180 to 180) where the dial shows a detent for this mode
+export function expectedDetentAngles(mode: HapticMode, customDetents: CustomDetent[] = []): number[] {
+  if (mode === "custom-detents") {
+    return customDetents.map((detent) => wrap180(detent.angle)).sort((a, b) => a - b)
+  }
+  const count = DIAL_DETENT_COUNTS[mode]
+  if (!count) return []
+  return Array.from({ length: count }, (_, i) => wrap180((i * 360) / count)).sort((a, b) => a - b)
+}
+
+export interface ProfileBin {
+  angle: number // bin centre
+  cw: number | null // mean torque while turning clockwise
+  ccw: number | null
+  cwSamples: number
+  ccwSamples: number
+}
+
+export interface ProfileOptions {
+  binSizeDeg: number
+  // Samples slower than this are ignored: direction is ambiguous and static friction dominates
+  minSpeedRpm: number
+  // Fold angles into -180..180; off for multi-turn modes like endstops
+  wrap: boolean
+}
+
+export const DEFAULT_PROFILE_OPTIONS: ProfileOptions = {
+  binSizeDeg: 2,
+  minSpeedRpm: 0.5,
+  wrap: true,
+}
+
+// Positive velocity is clockwise, matching the direction the dial needle turns
+export function buildTorqueProfile(points: TelemetryPoint[], options: Partial<ProfileOptions> = {}): ProfileBin[] {
+  const { binSizeDeg, minSpeedRpm, wrap } = { ...DEFAULT_PROFILE_OPTIONS, ...options }
+  const bins = new Map<number, { cwSum: number; cwSamples: number; ccwSum: number; ccwSamples: number }>()
+
+  for (const point of points) {
+    if (Math.abs(point.velocity) < minSpeedRpm) continue
+
+    const angle = wrap ? wrap180(point.angle) : point.angle
+    const index = Math.floor(angle / binSizeDeg)
+    const bin = bins.get(index) ?? { cwSum: 0, cwSamples: 0, ccwSum: 0, ccwSamples: 0 }
+
+    if (point.velocity > 0) {
+      bin.cwSum += point.torque
+      bin.cwSamples += 1
+    } else {
+      bin.ccwSum += point.torque
+      bin.ccwSamples += 1
+    }
+    bins.set(index, bin)
+  }
+
+  return Array.from(bins.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([index, bin]) => ({
+      angle: (index + 0.5) * binSizeDeg,
+      cw: bin.cwSamples > 0 ? bin.cwSum / bin.cwSamples : null,
+      ccw: bin.ccwSamples > 0 ? bin.ccwSum / bin.ccwSamples : null,
+      cwSamples: bin.cwSamples,
+      ccwSamples: bin.ccwSamples,
+    }))
+}
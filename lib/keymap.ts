@@ -0,0 +1,158 @@
+// Rebindable keyboard shortcuts: the actions that can be bound, their default keys,
+// chord parsing and conflict detection. Bindings are stored as overrides of the defaults.
+import type { HapticMode } from "@/lib/protocol"
+
+// A chord is written like "Ctrl+Shift+ArrowUp"; Ctrl also stands for Cmd on macOS, as in
+// Electron's CmdOrCtrl accelerators
+export type KeyChord = string
+
+export type NudgeParameter = "torque" | "stiffness" | "targetAngle" | "endstopTurns"
+
+export type KeymapCommand =
+  | { type: "mode"; mode: HapticMode }
+  | { type: "nudge"; parameter: NudgeParameter; direction: 1 | -1 }
+  | { type: "palette" }
+
+export interface KeymapAction {
+  id: string
+  label: string
+  group: string
+  command: KeymapCommand
+  defaultChord: KeyChord | null
+}
+
+// Step per key press, matching the input steps in the sidebar
+export const NUDGE_STEPS: Record<NudgeParameter, number> = {
+  torque: 0.1,
+  stiffness: 0.1,
+  targetAngle: 5,
+  endstopTurns: 0.5,
+}
+
+const modeAction = (mode: HapticMode, label: string, defaultChord: KeyChord | null): KeymapAction => ({
+  id: `mode:${mode}`,
+  label,
+  group: "Modes",
+  command: { type: "mode", mode },
+  defaultChord,
+})
+
+const nudgeActions = (
+  parameter: NudgeParameter,
+  label: string,
+  [increaseChord, decreaseChord]: [KeyChord, KeyChord],
+): KeymapAction[] => [
+  {
+    id: `nudge:${parameter}:up`,
+    label: `Increase ${label}`,
+    group: "Parameters",
+    command: { type: "nudge", parameter, direction: 1 },
+    defaultChord: increaseChord,
+  },
+  {
+    id: `nudge:${parameter}:down`,
+    label: `Decrease ${label}`,
+    group: "Parameters",
+    command: { type: "nudge", parameter, direction: -1 },
+    defaultChord: decreaseChord,
+  },
+]
+
+export const KEYMAP_ACTIONS: KeymapAction[] = [
+  modeAction("none", "None", "1"),
+  modeAction("soft-detents", "Soft Detents", "2"),
+  modeAction("medium-detents", "Medium Detents", "3"),
+  modeAction("rough-detents", "Rough Detents", "4"),
+  modeAction("center-detent", "Center Detent", "5"),
+  modeAction("endstops", "Endstops", "6"),
+  modeAction("proportional-control", "Proportional Control", "7"),
+  modeAction("inertial-control", "Inertial Control", "8"),
+  modeAction("latch", "Latch", "9"),
+  modeAction("increased-torque", "Increased Torque", "0"),
+  modeAction("clockwise", "Clockwise", null),
+  modeAction("counterclockwise", "Counterclockwise", null),
+  modeAction("lock", "Lock", null),
+  modeAction("custom-detents", "Custom Detents", null),
+  ...nudgeActions("torque", "torque", ["ArrowUp", "ArrowDown"]),
+  ...nudgeActions("stiffness", "stiffness", ["Shift+ArrowUp", "Shift+ArrowDown"]),
+  ...nudgeActions("targetAngle", "target angle", ["ArrowRight", "ArrowLeft"]),
+  ...nudgeActions("endstopTurns", "endstop turns", ["Shift+ArrowRight", "Shift+ArrowLeft"]),
+  {
+    id: "palette:open",
+    label: "Open command palette",
+    group: "App",
+    command: { type: "palette" },
+    defaultChord: "Ctrl+K",
+  },
+]
+
+// Accelerators of the Electron application menu; the menu gets these keys first
+export const RESERVED_CHORDS: Record<KeyChord, string> = {
+  "Ctrl+N": "New Configuration",
+  "Ctrl+S": "Save Configuration",
+  "Ctrl+O": "Load Configuration",
+  "Ctrl+Q": "Exit",
+  "Ctrl+R": "Scan Serial Ports",
+  "Ctrl+Shift+C": "Connect to Device",
+  "Ctrl+D": "Disconnect from Device",
+  "Ctrl+Shift+X": "Reset Device",
+  "Ctrl+Shift+A": "Calibrate Device",
+}
+
+// Action id -> chord; null unbinds an action that has a default
+export type KeymapOverrides = Record<string, KeyChord | null>
+
+export type Keymap = Record<string, KeyChord | null>
+
+export function resolveKeymap(overrides: KeymapOverrides): Keymap {
+  return Object.fromEntries(
+    KEYMAP_ACTIONS.map((action) => [action.id, action.id in overrides ? overrides[action.id] : action.defaultChord]),
+  )
+}
+
+const MODIFIER_KEYS = new Set(["Control", "Shift", "Alt", "Meta"])
+
+// Physical key names so Shift+1 stays "Shift+1" rather than "!" on every layout
+function keyName(code: string, key: string): string {
+  if (code.startsWith("Key")) return code.slice(3)
+  if (code.startsWith("Digit")) return code.slice(5)
+  if (code.startsWith("Numpad") && /^\d$/.test(code.slice(6))) return code.slice(6)
+  return code || key
+}
+
+// null while only modifiers are held
+export function chordFromEvent(
+  event: Pick<KeyboardEvent, "key" | "code" | "ctrlKey" | "metaKey" | "altKey" | "shiftKey">,
+): KeyChord | null {
+  if (MODIFIER_KEYS.has(event.key)) return null
+  const parts: string[] = []
+  if (event.ctrlKey || event.metaKey) parts.push("Ctrl")
+  if (event.altKey) parts.push("Alt")
+  if (event.shiftKey) parts.push("Shift")
+  parts.push(keyName(event.code, event.key))
+  return parts.join("+")
+}
+
+// Chords with Ctrl or Alt still work while typing in a text field; plain keys don't
+export const chordHasCommandModifier = (chord: KeyChord) => /^(Ctrl|Alt)\+/.test(chord)
+
+export const formatChord = (chord: KeyChord) =>
+  chord
+    .replace("ArrowUp", "↑")
+    .replace("ArrowDown", "↓")
+    .replace("ArrowLeft", "←")
+    .replace("ArrowRight", "→")
+
+// Chords bound to more than one action
+export function findConflicts(keymap: Keymap): Map<KeyChord, string[]> {
+  const byChord = new Map<KeyChord, string[]>()
+  Object.entries(keymap).forEach(([actionId, chord]) => {
+    if (chord) byChord.set(chord, [...(byChord.get(chord) ?? []), actionId])
+  })
+  return new Map(Array.from(byChord.entries()).filter(([, actionIds]) => actionIds.length > 1))
+}
+
+export function actionForChord(keymap: Keymap, chord: KeyChord): KeymapAction | undefined {
+  const actionId = Object.keys(keymap).find((id) => keymap[id] === chord)
+  return KEYMAP_ACTIONS.find((action) => action.id === actionId)
+}
@@ -0,0 +1,136 @@
+// OSC (Open Sound Control) settings and the meaning of the mapped inputs. The main process
+// (public/osc-bridge.js) owns the UDP socket, encodes the outputs and rate limits both directions;
+// the visible control surface turns each mapped input into haptic settings with this module.
+import { HAPTIC_MODES, isModeSupported, type DeviceIdentity, type HapticSettings } from "@/lib/protocol"
+import { ConfigError, SETTING_RANGES } from "@/lib/haptic-config"
+import { DEFAULT_DETENT_PATTERN, MAX_CUSTOM_DETENTS, generateDetents } from "@/lib/detent-design"
+
+export const OSC_OUTPUTS = ["angle", "velocity", "torque"] as const
+export const OSC_INPUTS = ["mode", "detents", "targetAngle"] as const
+
+export type OscOutput = (typeof OSC_OUTPUTS)[number]
+export type OscInput = (typeof OSC_INPUTS)[number]
+
+export interface OscConfig {
+  enabled: boolean
+  // 127.0.0.1 for this computer only, 0.0.0.0 to accept messages from the network
+  listenAddress: string
+  listenPort: number
+  targetHost: string
+  targetPort: number
+  // Most telemetry samples sent, and mapped values applied per address, each second
+  sendRateHz: number
+  receiveRateHz: number
+  // OSC address of each output and input; empty turns it off
+  addresses: Record<OscOutput | OscInput, string>
+}
+
+export interface OscStatus {
+  running: boolean
+  sent: number
+  received: number
+  // Incoming values replaced by a newer one before they were applied
+  coalesced: number
+  // Packets that weren't valid OSC
+  rejected: number
+  lastReceived: { address: string; args: unknown[]; from: string } | null
+  error: string | null
+}
+
+// Matches DEFAULT_OSC_CONFIG in public/osc-bridge.js
+export const DEFAULT_OSC_ADDRESSES: OscConfig["addresses"] = {
+  angle: "/knob/angle",
+  velocity: "/knob/velocity",
+  torque: "/knob/torque",
+  mode: "/knob/mode",
+  detents: "/knob/detents",
+  targetAngle: "/knob/target",
+}
+
+export const OSC_SIGNAL_LABELS: Record<OscOutput | OscInput, string> = {
+  angle: "Angle (°, float)",
+  velocity: "Velocity (float)",
+  torque: "Torque (float)",
+  mode: "Haptic mode (name or index)",
+  detents: "Detent count (int)",
+  targetAngle: "Target angle (°, float)",
+}
+
+const MAX_RATE_HZ = 1000
+
+// Problems that keep the settings from being applied, for the editor to list
+export function oscConfigProblems(config: OscConfig): string[] {
+  const problems: string[] = []
+  const checkPort = (label: string, port: number) => {
+    if (!Number.isInteger(port) || port < 1 || port > 65535) problems.push(`${label} must be between 1 and 65535`)
+  }
+  checkPort("Listen port", config.listenPort)
+  checkPort("Target port", config.targetPort)
+  if (!config.targetHost.trim()) problems.push("Target host is required")
+  for (const [label, rate] of [
+    ["Send rate", config.sendRateHz],
+    ["Receive rate", config.receiveRateHz],
+  ] as const) {
+    if (!(rate > 0 && rate <= MAX_RATE_HZ)) problems.push(`${label} must be above 0 and at most ${MAX_RATE_HZ} Hz`)
+  }
+
+  const inputAddresses = new Map<string, OscInput>()
+  for (const name of [...OSC_OUTPUTS, ...OSC_INPUTS]) {
+    const address = config.addresses[name]
+    if (address && !/^\/[^\s#*,?[\]{}]*$/.test(address)) {
+      problems.push(`${OSC_SIGNAL_LABELS[name]}: "${address}" is not an OSC address`)
+    }
+  }
+  for (const name of OSC_INPUTS) {
+    const address = config.addresses[name]
+    if (!address) continue
+    const other = inputAddresses.get(address)
+    if (other) problems.push(`${address} is mapped to both ${other} and ${name}`)
+    inputAddresses.set(address, name)
+  }
+  return problems
+}
+
+// The settings a mapped input message asks for; throws ConfigError when its argument doesn't fit
+// or the device's firmware (identity is null when it didn't identify itself) can't do it
+export function settingsForOscInput(
+  input: OscInput,
+  args: unknown[],
+  identity: DeviceIdentity | null,
+): Partial<HapticSettings> {
+  const [value] = args
+
+  switch (input) {
+    case "mode": {
+      // Either the mode's name or its position in the mode list, for controllers that only send numbers
+      const mode = typeof value === "number" ? HAPTIC_MODES[Math.round(value)] : value
+      if (!HAPTIC_MODES.includes(mode as HapticSettings["mode"])) {
+        throw new ConfigError(
+          `mode must be one of ${HAPTIC_MODES.join(", ")} or an index from 0 to ${HAPTIC_MODES.length - 1}`,
+        )
+      }
+      return { mode: mode as HapticSettings["mode"] }
+    }
+    case "detents": {
+      if (!isModeSupported("custom-detents", identity)) {
+        throw new ConfigError("the device's firmware has no detent tables")
+      }
+      const count = typeof value === "number" ? Math.round(value) : NaN
+      if (!(count >= 1 && count <= MAX_CUSTOM_DETENTS)) {
+        throw new ConfigError(`detent count must be a number between 1 and ${MAX_CUSTOM_DETENTS}`)
+      }
+      // Evenly spaced detents of the designer's default strength, without accents
+      return {
+        mode: "custom-detents",
+        customDetents: generateDetents({ ...DEFAULT_DETENT_PATTERN, spacingMode: "count", count, accentEvery: 0 }),
+      }
+    }
+    case "targetAngle": {
+      const [min, max] = SETTING_RANGES.targetAngle
+      if (typeof value !== "number" || !Number.isFinite(value) || value < min || value > max) {
+        throw new ConfigError(`target angle must be a number between ${min} and ${max}`)
+      }
+      return { targetAngle: value }
+    }
+  }
+}
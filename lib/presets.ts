@@ -0,0 +1,164 @@
+// Named haptic presets: built-in factory presets per device type plus user presets,
+// exchanged as JSON bundles
+import { ConfigError, createValidators, type RawConfig } from "@/lib/haptic-config"
+import { DEVICE_TYPES, type DeviceType, type HapticSettings } from "@/lib/protocol"
+import { DEFAULT_CUSTOM_DETENTS } from "@/lib/detent-design"
+
+export interface HapticPreset {
+  id: string
+  name: string
+  deviceType: DeviceType
+  settings: HapticSettings
+  isFactory?: boolean
+}
+
+export const PRESET_BUNDLE_VERSION = 3
+
+export interface PresetBundle {
+  version: typeof PRESET_BUNDLE_VERSION
+  exportedAt: string
+  // Ids are only kept in the app's own storage; exported bundles leave them out
+  presets: (Omit<HapticPreset, "id" | "isFactory"> & { id?: string })[]
+}
+
+const baseSettings: HapticSettings = {
+  mode: "none",
+  torque: 0.2,
+  stiffness: 0.8,
+  targetAngle: 0,
+  endstopTurns: 1.0,
+  endstopCenter: 0,
+  endstopMode: "none",
+  isSticky: false,
+  customDetents: DEFAULT_CUSTOM_DETENTS,
+}
+
+const factory = (id: string, name: string, deviceType: DeviceType, settings: Partial<HapticSettings>): HapticPreset => ({
+  id: `factory:${id}`,
+  name,
+  deviceType,
+  settings: { ...baseSettings, ...settings },
+  isFactory: true,
+})
+
+export const FACTORY_PRESETS: HapticPreset[] = [
+  factory("knob-soft-clicks", "Soft clicks", "knob", { mode: "soft-detents" }),
+  factory("knob-coarse-clicks", "Coarse clicks", "knob", { mode: "rough-detents" }),
+  factory("knob-volume", "Volume knob (1 turn, soft detents)", "knob", {
+    mode: "endstops",
+    endstopTurns: 1,
+    endstopMode: "soft",
+  }),
+  factory("knob-sticky-endstops", "2.5-turn soft-detent endstops, sticky", "knob", {
+    mode: "endstops",
+    endstopTurns: 2.5,
+    endstopMode: "soft",
+    isSticky: true,
+  }),
+  factory("knob-spring-return", "Spring return to 0°", "knob", { mode: "proportional-control", stiffness: 0.4 }),
+  factory("knob-toggle", "Two-position toggle", "knob", { mode: "latch" }),
+  factory("wheel-road", "Road car (2.5 turns, centering)", "steering-wheel", {
+    mode: "endstops",
+    endstopTurns: 2.5,
+    endstopMode: "proportional",
+  }),
+  factory("wheel-kart", "Kart (1 turn, center detent)", "steering-wheel", {
+    mode: "endstops",
+    endstopTurns: 1,
+    endstopMode: "center",
+  }),
+  factory("wheel-heavy", "Heavy steering", "steering-wheel", { mode: "inertial-control", stiffness: 2 }),
+  factory("wheel-self-centering", "Self-centering", "steering-wheel", { mode: "proportional-control", stiffness: 0.6 }),
+]
+
+export function createPresetId(): string {
+  return `user:${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+// A copy named "<name> copy", "<name> copy 2", ... that doesn't clash with existing names
+export function uniquePresetName(name: string, existing: { name: string }[]): string {
+  const names = new Set(existing.map((preset) => preset.name))
+  if (!names.has(name)) return name
+
+  const base = `${name.replace(/ copy( \d+)?$/, "")} copy`
+  if (!names.has(base)) return base
+  let index = 2
+  while (names.has(`${base} ${index}`)) index += 1
+  return `${base} ${index}`
+}
+
+export function serializePresetBundle(presets: HapticPreset[], { includeIds = false, now = new Date() } = {}): string {
+  const bundle: PresetBundle = {
+    version: PRESET_BUNDLE_VERSION,
+    exportedAt: now.toISOString(),
+    presets: presets.map(({ id, name, deviceType, settings }) => ({
+      ...(includeIds ? { id } : {}),
+      name,
+      deviceType,
+      settings: { ...settings },
+    })),
+  }
+  return JSON.stringify(bundle, null, 2) + "\n"
+}
+
+// Adds settings introduced since a bundle was written to each of its presets
+const addSettings = (bundle: RawConfig, version: number, added: Partial<HapticSettings>): RawConfig => ({
+  ...bundle,
+  version,
+  presets: bundle.presets.map((entry: RawConfig) => ({ ...entry, settings: { ...entry?.settings, ...added } })),
+})
+
+// Each entry upgrades a bundle from that version to the next one
+const bundleMigrations: Record<number, (bundle: RawConfig) => RawConfig> = {
+  // Endstop ranges were always centred on 0° before they could be offset
+  1: (bundle) => addSettings(bundle, 2, { endstopCenter: 0 }),
+  2: (bundle) => addSettings(bundle, 3, { customDetents: DEFAULT_CUSTOM_DETENTS }),
+}
+
+function migratePresetBundle(bundle: RawConfig): RawConfig {
+  let migrated = bundle
+  while (typeof migrated.version === "number" && bundleMigrations[migrated.version]) {
+    migrated = bundleMigrations[migrated.version](migrated)
+  }
+  return migrated
+}
+
+// Imported presets get fresh ids so they never collide with presets already in the library
+export function parsePresetBundle(text: string, { keepIds = false } = {}): HapticPreset[] {
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch {
+    throw new ConfigError("Preset file is not valid JSON")
+  }
+
+  if (typeof raw !== "object" || raw === null || !Array.isArray((raw as RawConfig).presets)) {
+    throw new ConfigError("Preset file must contain a presets list")
+  }
+  const bundle = migratePresetBundle(raw as RawConfig)
+  if (bundle.version !== PRESET_BUNDLE_VERSION) {
+    throw new ConfigError(`Unsupported preset file version: ${JSON.stringify(bundle.version)}`)
+  }
+
+  const problems: string[] = []
+  const presets = bundle.presets.map((entry: RawConfig, index: number): HapticPreset => {
+    const { oneOf, object } = createValidators(problems, `presets[${index}].`)
+    const { settings } = createValidators(problems, `presets[${index}].settings.`)
+    const name = typeof entry?.name === "string" ? entry.name.trim() : ""
+    if (!name) {
+      problems.push(`presets[${index}].name must be a non-empty string`)
+    }
+
+    return {
+      id: keepIds && typeof entry?.id === "string" ? entry.id : createPresetId(),
+      name,
+      deviceType: oneOf("deviceType", entry?.deviceType, DEVICE_TYPES),
+      settings: settings(object("settings", entry?.settings)),
+    }
+  })
+
+  if (problems.length > 0) {
+    throw new ConfigError(`Invalid preset file: ${problems.join("; ")}`)
+  }
+  return presets
+}
@@ -0,0 +1,387 @@
+// Mini TFD line protocol: typed commands plus the single encoder/decoder used by
+// the control component, the useHapticSerial hook and HapticSerialInterface
+
+export const HAPTIC_MODES = [
+  "none",
+  "soft-detents",
+  "medium-detents",
+  "rough-detents",
+  "clockwise",
+  "counterclockwise",
+  "increased-torque",
+  "lock",
+  "endstops",
+  "center-detent",
+  "proportional-control",
+  "inertial-control",
+  "latch",
+  "custom-detents",
+] as const
+
+export type HapticMode = (typeof HAPTIC_MODES)[number]
+
+export const DEVICE_TYPES = ["knob", "steering-wheel"] as const
+
+export type DeviceType = (typeof DEVICE_TYPES)[number]
+
+export const ENDSTOP_MODES = ["none", "proportional", "soft", "medium", "rough", "center"] as const
+
+export type EndstopMode = (typeof ENDSTOP_MODES)[number]
+
+// Detent strengths as the firmware names them
+export type DetentStrength = "ultra" | "fine" | "coarse" | "center"
+
+// One detent of a custom detent table
+export interface CustomDetent {
+  angle: number // degrees, 0 to 360 clockwise from the top
+  strength: number // peak torque in Nm
+  width: number // degrees over which the detent pulls
+}
+
+export type TFDCommand =
+  | { type: "normal" }
+  | { type: "detent"; strength: DetentStrength }
+  | { type: "detent-table"; detents: CustomDetent[] }
+  | { type: "cw" }
+  | { type: "ccw" }
+  | { type: "constant"; torque: number }
+  // center offsets the range from 0°; firmware without the "endstop-offset" effect only takes turns
+  | { type: "endstops"; turns: number; center: number; variant: EndstopMode }
+  | { type: "proportional"; targetAngle: number; stiffness: number }
+  | { type: "inertial"; factor: number }
+  | { type: "latch" }
+  | { type: "sticky"; enabled: boolean }
+  | { type: "zero" }
+  | { type: "get-all" }
+  | { type: "get-velocity" }
+  | { type: "get-torque" }
+  | { type: "stream"; rateHz: number }
+  | { type: "identify" }
+
+export type TFDMessage =
+  | { type: "telemetry"; angle: number; velocity: number; torque: number }
+  | { type: "ok" }
+  | { type: "error"; message: string }
+  | { type: "identity"; identity: DeviceIdentity }
+  // A bare number, the reply to "get vel" and "get torque"
+  | { type: "value"; value: number }
+  | { type: "unknown"; line: string }
+
+// What a device reports about itself in reply to "get id"
+export interface DeviceIdentity {
+  // null when the firmware reports a device type this app doesn't know
+  deviceType: DeviceType | null
+  firmwareVersion: string
+  serialNumber: string
+  protocolVersion: number
+  // Firmware effect names, matching TFDCommand types ("detent", "endstops", ...), plus
+  // "endstop-offset" when endstop ranges can be centred away from 0°
+  effects: string[]
+  maxTorque?: number
+  maxTurns?: number
+}
+
+// The subset of the UI state that determines what the device is asked to do
+export interface HapticSettings {
+  mode: HapticMode
+  torque: number
+  stiffness: number
+  targetAngle: number
+  // Span between the endstops, and the angle it's centred on (0° for a symmetric range)
+  endstopTurns: number
+  endstopCenter: number
+  endstopMode: EndstopMode
+  isSticky: boolean
+  customDetents: CustomDetent[]
+}
+
+// Just the haptic settings of a larger object such as the control state
+export function pickHapticSettings(source: HapticSettings): HapticSettings {
+  return {
+    mode: source.mode,
+    torque: source.torque,
+    stiffness: source.stiffness,
+    targetAngle: source.targetAngle,
+    endstopTurns: source.endstopTurns,
+    endstopCenter: source.endstopCenter,
+    endstopMode: source.endstopMode,
+    isSticky: source.isSticky,
+    customDetents: source.customDetents,
+  }
+}
+
+export interface EndstopRange {
+  minAngle: number
+  maxAngle: number
+}
+
+export function endstopRange(settings: Pick<HapticSettings, "endstopTurns" | "endstopCenter">): EndstopRange {
+  const halfSpan = (settings.endstopTurns * 360) / 2
+  return { minAngle: settings.endstopCenter - halfSpan, maxAngle: settings.endstopCenter + halfSpan }
+}
+
+// Inverse of endstopRange, for ranges set by their limits
+export function endstopSpan(minAngle: number, maxAngle: number): Pick<HapticSettings, "endstopTurns" | "endstopCenter"> {
+  return { endstopTurns: (maxAngle - minAngle) / 360, endstopCenter: (minAngle + maxAngle) / 2 }
+}
+
+export const LINE_TERMINATOR = "\n"
+
+// Protocol revision this app is written against; older firmware may lack commands the UI offers
+export const PROTOCOL_VERSION = 2
+
+const endstopSuffixes: Record<EndstopMode, string> = {
+  none: "",
+  proportional: "-proportional",
+  soft: "-ultra",
+  medium: "-fine",
+  rough: "-coarse",
+  center: "-center",
+}
+
+// Encode a command as a single line, terminator included
+export function encodeCommand(command: TFDCommand): string {
+  return formatCommand(command) + LINE_TERMINATOR
+}
+
+function formatCommand(command: TFDCommand): string {
+  switch (command.type) {
+    case "normal":
+      return "set normal"
+    case "detent":
+      return `set detent:${command.strength}`
+    case "detent-table":
+      // angle,strength,width per detent, separated by ";"
+      return `set detent-table:${command.detents
+        .map((detent) => `${detent.angle.toFixed(1)},${detent.strength.toFixed(2)},${detent.width.toFixed(1)}`)
+        .join(";")}`
+    case "cw":
+      return "set cw"
+    case "ccw":
+      return "set ccw"
+    case "constant":
+      return `set constant:${command.torque.toFixed(1)}`
+    case "endstops": {
+      // Up to three decimals keep a dragged range within half a degree; whole turns still read "1.0"
+      const turns = Number(command.turns.toFixed(3))
+      const turnsText = Number.isInteger(turns) ? turns.toFixed(1) : String(turns)
+      // Left out when centred so firmware without offset support keeps working
+      const center = command.center === 0 ? "" : `,${command.center.toFixed(1)}`
+      return `set endstops${endstopSuffixes[command.variant]}:${turnsText}${center}`
+    }
+    case "proportional":
+      return `set proportional:${command.targetAngle.toFixed(1)},${command.stiffness.toFixed(1)}`
+    case "inertial":
+      return `set inertial:${command.factor.toFixed(1)}`
+    case "latch":
+      return "set latch"
+    case "sticky":
+      return `set sticky:${command.enabled ? "on" : "off"}`
+    case "zero":
+      return "set zero"
+    case "get-all":
+      return "get all"
+    case "get-velocity":
+      return "get vel"
+    case "get-torque":
+      return "get torque"
+    case "stream":
+      // A rate of 0 stops the stream
+      return `set stream:${Math.round(command.rateHz)}`
+    case "identify":
+      return "get id"
+  }
+}
+
+// Every line formatCommand can produce, with a trailing ":" where a value follows;
+// used to autocomplete raw commands typed into the serial console
+export const COMMAND_TEMPLATES = [
+  "set normal",
+  "set detent:ultra",
+  "set detent:fine",
+  "set detent:coarse",
+  "set detent:center",
+  "set detent-table:",
+  "set cw",
+  "set ccw",
+  "set constant:",
+  ...ENDSTOP_MODES.map((variant) => `set endstops${endstopSuffixes[variant]}:`),
+  "set proportional:",
+  "set inertial:",
+  "set latch",
+  "set sticky:on",
+  "set sticky:off",
+  "set zero",
+  "set stream:",
+  "get all",
+  "get vel",
+  "get torque",
+  "get id",
+]
+
+// Map a haptic mode and its parameters to the command that selects it on the device
+export function modeCommand(settings: HapticSettings): TFDCommand {
+  switch (settings.mode) {
+    case "none":
+      return { type: "normal" }
+    case "soft-detents":
+      return { type: "detent", strength: "ultra" }
+    case "medium-detents":
+      return { type: "detent", strength: "fine" }
+    case "rough-detents":
+      return { type: "detent", strength: "coarse" }
+    case "center-detent":
+      return { type: "detent", strength: "center" }
+    case "clockwise":
+      return { type: "cw" }
+    case "counterclockwise":
+      return { type: "ccw" }
+    case "increased-torque":
+      return { type: "constant", torque: settings.torque }
+    case "lock":
+      return { type: "constant", torque: 1.0 }
+    case "endstops":
+      return {
+        type: "endstops",
+        turns: settings.endstopTurns,
+        center: settings.endstopCenter,
+        variant: settings.endstopMode,
+      }
+    case "proportional-control":
+      return { type: "proportional", targetAngle: settings.targetAngle, stiffness: settings.stiffness }
+    case "inertial-control":
+      return { type: "inertial", factor: settings.stiffness }
+    case "latch":
+      return { type: "latch" }
+    case "custom-detents":
+      return { type: "detent-table", detents: settings.customDetents }
+  }
+}
+
+// All commands needed to apply a configuration, in the order they must be sent
+export function commandsForSettings(settings: HapticSettings): TFDCommand[] {
+  const commands = [modeCommand(settings)]
+
+  // Sticky is a separate command and only meaningful with endstops
+  if (settings.mode === "endstops") {
+    commands.push({ type: "sticky", enabled: settings.isSticky })
+  }
+
+  return commands
+}
+
+// Effects newer than the identify handshake, so only firmware that lists them has them
+const LISTED_ONLY_EFFECTS: readonly TFDCommand["type"][] = ["detent-table"]
+
+// Whether the firmware implements an effect; identity is null when the device didn't identify itself
+export function isEffectSupported(effect: TFDCommand["type"], identity: DeviceIdentity | null): boolean {
+  if (LISTED_ONLY_EFFECTS.includes(effect)) return identity?.effects.includes(effect) ?? false
+  // Firmware that doesn't identify itself or list its effects is assumed to support the rest
+  return !identity || identity.effects.length === 0 || identity.effects.includes(effect)
+}
+
+// Whether the firmware implements the effect a haptic mode is built on
+export function isModeSupported(mode: HapticMode, identity: DeviceIdentity | null): boolean {
+  const command = modeCommand({
+    mode,
+    torque: 0,
+    stiffness: 0,
+    targetAngle: 0,
+    endstopTurns: 1,
+    endstopCenter: 0,
+    endstopMode: "none",
+    isSticky: false,
+    customDetents: [],
+  })
+  return isEffectSupported(command.type, identity)
+}
+
+// Whether the firmware accepts an endstop range that isn't centred on 0°
+export function supportsEndstopOffset(identity: DeviceIdentity): boolean {
+  return identity.effects.length === 0 || identity.effects.includes("endstop-offset")
+}
+
+const telemetryPattern = /^ANGLE:([-\d.]+),\s*VEL:([-\d.]+),\s*TORQUE:([-\d.]+)/
+const errorPattern = /^ERR(?:OR)?\b[:\s]*(.*)$/i
+const valuePattern = /^-?\d+(?:\.\d+)?$/
+
+// ID:type=knob;fw=1.4.0;sn=TFD-0042;proto=2;effects=normal,detent,...;max_torque=2.0;max_turns=10
+function decodeIdentity(fields: string): DeviceIdentity | null {
+  const values = new Map(
+    fields.split(";").map((field) => {
+      const [key, ...rest] = field.split("=")
+      return [key.trim(), rest.join("=").trim()] as const
+    }),
+  )
+
+  const protocolVersion = Number.parseInt(values.get("proto") ?? "")
+  if (!values.has("fw") || isNaN(protocolVersion)) return null
+
+  const deviceType = values.get("type") ?? ""
+  const maxTorque = Number.parseFloat(values.get("max_torque") ?? "")
+  const maxTurns = Number.parseFloat(values.get("max_turns") ?? "")
+
+  return {
+    deviceType: (DEVICE_TYPES as readonly string[]).includes(deviceType) ? (deviceType as DeviceType) : null,
+    firmwareVersion: values.get("fw")!,
+    serialNumber: values.get("sn") ?? "",
+    protocolVersion,
+    effects: (values.get("effects") ?? "").split(",").filter(Boolean),
+    ...(isNaN(maxTorque) ? {} : { maxTorque }),
+    ...(isNaN(maxTurns) ? {} : { maxTurns }),
+  }
+}
+
+// Decode one line received from the device
+export function decodeLine(line: string): TFDMessage {
+  const cleanLine = line.trim()
+
+  if (cleanLine === "OK") {
+    return { type: "ok" }
+  }
+
+  const telemetryMatch = cleanLine.match(telemetryPattern)
+  if (telemetryMatch) {
+    const angle = Number.parseFloat(telemetryMatch[1])
+    const velocity = Number.parseFloat(telemetryMatch[2])
+    const torque = Number.parseFloat(telemetryMatch[3])
+
+    if (!isNaN(angle) && !isNaN(velocity) && !isNaN(torque)) {
+      return { type: "telemetry", angle, velocity, torque }
+    }
+  }
+
+  if (cleanLine.startsWith("ID:")) {
+    const identity = decodeIdentity(cleanLine.slice(3))
+    if (identity) {
+      return { type: "identity", identity }
+    }
+  }
+
+  if (valuePattern.test(cleanLine)) {
+    return { type: "value", value: Number.parseFloat(cleanLine) }
+  }
+
+  const errorMatch = cleanLine.match(errorPattern)
+  if (errorMatch) {
+    return { type: "error", message: errorMatch[1] || cleanLine }
+  }
+
+  return { type: "unknown", line: cleanLine }
+}
+
+// The reply that acknowledges a command; anything else received while it is
+// in flight (e.g. telemetry from polling) belongs to someone else
+export function expectedResponse(command: TFDCommand): TFDMessage["type"] {
+  switch (command.type) {
+    case "get-all":
+      return "telemetry"
+    case "identify":
+      return "identity"
+    case "get-velocity":
+    case "get-torque":
+      return "value"
+    default:
+      return "ok"
+  }
+}
@@ -0,0 +1,325 @@
+// Test scripts: user JavaScript or TypeScript run in a Web Worker, which has no access to the page, Node or the
+// serial port. The script drives the device only through the small API below, whose calls are
+// posted back to the runner and carried out over the control surface's connection.
+import { HAPTIC_MODES, commandsForSettings, type HapticMode, type HapticSettings } from "@/lib/protocol"
+import { transform } from "sucrase"
+import { SETTING_RANGES } from "@/lib/haptic-config"
+import type { SequenceRunnerOptions } from "@/lib/sequencer"
+
+// Signatures shown next to the editor; assert is what turns a routine into a pass/fail test
+export const SCRIPT_API = [
+  { name: "setMode", signature: "setMode(mode)", description: "Switch haptic mode, e.g. \"endstops\"" },
+  { name: "setTorque", signature: "setTorque(nm)", description: "Set the torque parameter" },
+  {
+    name: "waitForAngle",
+    signature: "waitForAngle(deg, { tolerance = 2, timeoutMs = 10000 })",
+    description: "Resolve with the angle once the knob is within tolerance; throws on timeout",
+  },
+  {
+    name: "readTelemetry",
+    signature: "readTelemetry()",
+    description: "Latest { time, angle, velocity, torque } sample, or null",
+  },
+  { name: "sleep", signature: "sleep(ms)", description: "Wait" },
+  { name: "log", signature: "log(...values)", description: "Write to the script output" },
+  {
+    name: "assert",
+    signature: "assert(condition, message)",
+    description: "Fail the script unless the condition holds",
+  },
+] as const
+
+export const EXAMPLE_SCRIPT = `// Step up the spring torque and check the knob holds its 0° target
+await setMode("proportional-control")
+for (const torque of [0.1, 0.2, 0.4]) {
+  await setTorque(torque)
+  await sleep(500)
+  const sample = await readTelemetry()
+  assert(sample, "No telemetry; turn on polling or streaming")
+  log("torque", torque, "angle", sample.angle.toFixed(1))
+  assert(Math.abs(sample.angle) < 10, "Knob drifted to " + sample.angle.toFixed(1) + "°")
+}
+`
+
+const MAX_LOG_LINES = 1000
+const ANGLE_POLL_MS = 10
+const DEFAULT_ANGLE_TOLERANCE = 2
+const DEFAULT_ANGLE_TIMEOUT_MS = 10_000
+
+// Plain JavaScript run as the worker. The script body becomes an async function whose parameters
+// are the API, so top-level await works. Network and code-loading globals are removed first, from
+// the global object and every prototype above it: fetch and importScripts live on
+// WorkerGlobalScope.prototype, so hiding them on self alone would leave them one lookup away.
+// Dynamic import() is syntax and can't be removed; the page's Content-Security-Policy
+// (app/layout.tsx), which the worker inherits, is what stops it and any global missed here.
+const WORKER_SOURCE = `
+"use strict";
+const post = self.postMessage.bind(self);
+const BLOCKED = ["fetch", "XMLHttpRequest", "WebSocket", "WebTransport", "EventSource", "importScripts", "indexedDB",
+  "caches", "Worker", "SharedWorker", "BroadcastChannel"];
+for (let target = self; target && target !== Object.prototype; target = Object.getPrototypeOf(target)) {
+  for (const name of BLOCKED) {
+    if (!Object.prototype.hasOwnProperty.call(target, name)) continue;
+    try { delete target[name]; } catch (err) {}
+    if (Object.prototype.hasOwnProperty.call(target, name)) {
+      try { Object.defineProperty(target, name, { value: undefined }); } catch (err) {}
+    }
+  }
+}
+
+const pending = new Map();
+let nextId = 1;
+const call = (method, args) => new Promise((resolve, reject) => {
+  const id = nextId++;
+  pending.set(id, { resolve, reject });
+  post({ type: "call", id, method, args });
+});
+const format = (value) => {
+  if (typeof value === "string") return value;
+  try { return JSON.stringify(value); } catch (err) { return String(value); }
+};
+class AssertionError extends Error {}
+
+const api = {
+  setMode: (mode) => call("setMode", [mode]),
+  setTorque: (torque) => call("setTorque", [torque]),
+  waitForAngle: (angle, options) => call("waitForAngle", [angle, options || {}]),
+  readTelemetry: () => call("readTelemetry", []),
+  sleep: (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+  log: (...values) => post({ type: "log", message: values.map(format).join(" ") }),
+  assert: (condition, message) => {
+    if (!condition) throw new AssertionError(message || "Assertion failed");
+  },
+};
+
+self.addEventListener("message", async (event) => {
+  const message = event.data;
+  if (message.type === "reply") {
+    const request = pending.get(message.id);
+    if (!request) return;
+    pending.delete(message.id);
+    if (message.error === undefined) request.resolve(message.value);
+    else request.reject(new Error(message.error));
+    return;
+  }
+  if (message.type !== "run") return;
+
+  try {
+    const AsyncFunction = (async () => {}).constructor;
+    const script = new AsyncFunction(...Object.keys(api), message.source);
+    await script(...Object.values(api));
+    post({ type: "done" });
+  } catch (err) {
+    const isPlain = err instanceof AssertionError || (err instanceof Error && err.name === "Error");
+    const text = err instanceof Error ? (isPlain ? err.message : err.name + ": " + err.message) : format(err);
+    post({ type: "failed", message: text });
+  }
+});
+`
+
+type WorkerMessage =
+  | { type: "call"; id: number; method: string; args: unknown[] }
+  | { type: "log"; message: string }
+  | { type: "done" }
+  | { type: "failed"; message: string }
+
+export interface TestScript {
+  id: string
+  name: string
+  source: string
+}
+
+export type ScriptRunState = "idle" | "running" | "passed" | "failed" | "aborted"
+
+export interface ScriptLogEntry {
+  // Milliseconds since the script started
+  time: number
+  message: string
+}
+
+export interface ScriptStatus {
+  state: ScriptRunState
+  scriptName: string
+  logs: ScriptLogEntry[]
+  elapsedMs: number
+  error?: string
+}
+
+// Runs one script at a time, with the same connection hooks as the sequence runner
+export class ScriptRunner {
+  private options: SequenceRunnerOptions
+  private listeners = new Set<(status: ScriptStatus) => void>()
+  private current: ScriptStatus = { state: "idle", scriptName: "", logs: [], elapsedMs: 0 }
+  private settings: HapticSettings | null = null
+  private worker: Worker | null = null
+  private workerUrl: string | null = null
+  private startedAt = 0
+  private finish: (() => void) | null = null
+
+  constructor(options: SequenceRunnerOptions) {
+    this.options = options
+  }
+
+  get isRunning() {
+    return this.current.state === "running"
+  }
+
+  status(): ScriptStatus {
+    return this.isRunning ? { ...this.current, elapsedMs: this.elapsed() } : this.current
+  }
+
+  subscribe(listener: (status: ScriptStatus) => void) {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  run(name: string, source: string, initialSettings: HapticSettings): Promise<ScriptStatus> {
+    if (this.isRunning) return Promise.reject(new Error("A script is already running"))
+
+    // TypeScript's types are stripped, not checked; plain JavaScript passes through unchanged
+    let code: string
+    try {
+      code = transform(source, { transforms: ["typescript"] }).code
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err)
+      this.update({ state: "failed", scriptName: name, logs: [], elapsedMs: 0, error: `SyntaxError: ${message}` })
+      return Promise.resolve(this.current)
+    }
+
+    this.settings = { ...initialSettings }
+    this.startedAt = this.now()
+    this.update({ state: "running", scriptName: name, logs: [], elapsedMs: 0, error: undefined })
+
+    this.workerUrl = URL.createObjectURL(new Blob([WORKER_SOURCE], { type: "text/javascript" }))
+    const worker = new Worker(this.workerUrl)
+    this.worker = worker
+
+    return new Promise((resolve) => {
+      this.finish = () => resolve(this.current)
+      worker.onmessage = (event: MessageEvent<WorkerMessage>) => this.handleMessage(worker, event.data)
+      worker.onerror = (event) => {
+        event.preventDefault()
+        this.end("failed", event.message || "Script error")
+      }
+      worker.postMessage({ type: "run", source: code })
+    })
+  }
+
+  // Stops the script at once; a command already sent still completes
+  abort() {
+    if (this.isRunning) this.end("aborted")
+  }
+
+  private now() {
+    return (this.options.now ?? Date.now)()
+  }
+
+  private elapsed() {
+    return this.now() - this.startedAt
+  }
+
+  private update(changes: Partial<ScriptStatus>) {
+    this.current = { ...this.current, ...changes }
+    const status = this.status()
+    this.listeners.forEach((listener) => listener(status))
+  }
+
+  private end(state: "passed" | "failed" | "aborted", error?: string) {
+    this.worker?.terminate()
+    this.worker = null
+    if (this.workerUrl) URL.revokeObjectURL(this.workerUrl)
+    this.workerUrl = null
+    this.update({ state, elapsedMs: this.elapsed(), error })
+    this.finish?.()
+    this.finish = null
+  }
+
+  private log(message: string) {
+    const logs = [...this.current.logs, { time: this.elapsed(), message }]
+    this.update({ logs: logs.length > MAX_LOG_LINES ? logs.slice(-MAX_LOG_LINES) : logs })
+  }
+
+  private async handleMessage(worker: Worker, message: WorkerMessage) {
+    // Late messages from a worker that has since been aborted
+    if (worker !== this.worker) return
+
+    switch (message.type) {
+      case "log":
+        this.log(message.message)
+        return
+      case "done":
+        this.end("passed")
+        return
+      case "failed":
+        this.end("failed", message.message)
+        return
+      case "call":
+        try {
+          const value = await this.call(worker, message.method, message.args)
+          if (worker === this.worker) worker.postMessage({ type: "reply", id: message.id, value })
+        } catch (err) {
+          const error = err instanceof Error ? err.message : String(err)
+          if (worker === this.worker) worker.postMessage({ type: "reply", id: message.id, error })
+        }
+    }
+  }
+
+  private async call(worker: Worker, method: string, args: unknown[]): Promise<unknown> {
+    switch (method) {
+      case "setMode": {
+        const [mode] = args
+        if (!HAPTIC_MODES.includes(mode as HapticMode)) {
+          throw new Error(`setMode: unknown mode ${JSON.stringify(mode)}`)
+        }
+        if (this.options.isModeSupported?.(mode as HapticMode) === false) {
+          throw new Error(`setMode: the device's firmware doesn't support the ${mode} mode`)
+        }
+        return this.apply({ mode: mode as HapticMode })
+      }
+      case "setTorque": {
+        const [torque] = args
+        const [min, max] = SETTING_RANGES.torque
+        if (typeof torque !== "number" || !(torque >= min && torque <= max)) {
+          throw new Error(`setTorque: torque must be a number between ${min} and ${max}`)
+        }
+        return this.apply({ torque })
+      }
+      case "waitForAngle": {
+        const [angle, options] = args as [unknown, { tolerance?: unknown; timeoutMs?: unknown }]
+        if (typeof angle !== "number" || !Number.isFinite(angle)) {
+          throw new Error("waitForAngle: angle must be a number")
+        }
+        const tolerance = typeof options?.tolerance === "number" ? options.tolerance : DEFAULT_ANGLE_TOLERANCE
+        const timeoutMs = typeof options?.timeoutMs === "number" ? options.timeoutMs : DEFAULT_ANGLE_TIMEOUT_MS
+        return this.waitForAngle(worker, angle, tolerance, timeoutMs)
+      }
+      case "readTelemetry":
+        return this.options.latestTelemetry()
+      default:
+        throw new Error(`Unknown script call: ${method}`)
+    }
+  }
+
+  private async apply(changes: Partial<HapticSettings>) {
+    this.settings = { ...this.settings!, ...changes }
+    this.options.onSettings?.(this.settings)
+    for (const command of commandsForSettings(this.settings)) {
+      await this.options.send(command)
+    }
+  }
+
+  private async waitForAngle(worker: Worker, angle: number, tolerance: number, timeoutMs: number) {
+    const deadline = this.now() + timeoutMs
+    while (worker === this.worker) {
+      const point = this.options.latestTelemetry()
+      if (point && Math.abs(point.angle - angle) <= tolerance) return point.angle
+      if (this.now() >= deadline) {
+        throw new Error(`Timed out waiting for angle ${angle}° ± ${tolerance}°`)
+      }
+      await new Promise((resolve) => setTimeout(resolve, ANGLE_POLL_MS))
+    }
+    return null
+  }
+}
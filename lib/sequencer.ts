@@ -0,0 +1,439 @@
+// Timed haptic sequences for scripted sessions: steps change settings, wait, ramp a parameter,
+// wait for the knob to reach a condition, or repeat a block. The runner only needs a way to send
+// commands and the latest telemetry sample, so it isn't tied to the control component.
+import { commandsForSettings, type HapticMode, type HapticSettings, type TFDCommand } from "@/lib/protocol"
+import { ConfigError, SETTING_RANGES, createValidators, type RawConfig } from "@/lib/haptic-config"
+import type { TelemetryPoint } from "@/lib/telemetry-buffer"
+
+export const SEQUENCE_VERSION = 1
+
+export const RAMP_PARAMETERS = ["torque", "stiffness", "targetAngle", "endstopTurns", "endstopCenter"] as const
+export type RampParameter = (typeof RAMP_PARAMETERS)[number]
+
+export const TELEMETRY_SIGNALS = ["angle", "velocity", "torque"] as const
+export type TelemetrySignal = (typeof TELEMETRY_SIGNALS)[number]
+
+export const COMPARISONS = [">", ">=", "<", "<="] as const
+export type Comparison = (typeof COMPARISONS)[number]
+
+export interface SequenceCondition {
+  signal: TelemetrySignal
+  comparison: Comparison
+  value: number
+}
+
+export type SequenceStep =
+  // Merges into the current settings and sends them
+  | { type: "set"; settings: Partial<HapticSettings> }
+  | { type: "wait"; durationMs: number }
+  // Steps one parameter from -> to, resending the settings every intervalMs
+  | { type: "ramp"; parameter: RampParameter; from: number; to: number; durationMs: number; intervalMs?: number }
+  // Fails the sequence if the condition isn't met within timeoutMs
+  | { type: "wait-until"; condition: SequenceCondition; timeoutMs?: number }
+  | { type: "loop"; count: number; steps: SequenceStep[] }
+
+export interface HapticSequence {
+  name: string
+  steps: SequenceStep[]
+}
+
+export interface HapticSequenceFile extends HapticSequence {
+  version: typeof SEQUENCE_VERSION
+}
+
+const DEFAULT_RAMP_INTERVAL_MS = 100
+const CONDITION_POLL_MS = 10
+// wait-until only trusts samples this recent, and fails if none arrives for NO_TELEMETRY_MS, so a
+// stopped stream can't satisfy a condition with an old value or hang a step that has no timeout
+const MAX_TELEMETRY_AGE_MS = 1000
+const NO_TELEMETRY_MS = 2000
+const MAX_DURATION_MS = 24 * 60 * 60 * 1000
+const MAX_LOOP_DEPTH = 8
+
+// 10 s of soft detents, 1.5-turn endstops, then a spring to 45° that stiffens over 5 s
+export const EXAMPLE_SEQUENCE: HapticSequence = {
+  name: "Example study block",
+  steps: [
+    { type: "set", settings: { mode: "soft-detents" } },
+    { type: "wait", durationMs: 10_000 },
+    { type: "set", settings: { mode: "endstops", endstopTurns: 1.5, endstopCenter: 0, endstopMode: "none" } },
+    { type: "wait-until", condition: { signal: "angle", comparison: ">", value: 90 }, timeoutMs: 30_000 },
+    { type: "set", settings: { mode: "proportional-control", targetAngle: 45, stiffness: 0.2 } },
+    { type: "ramp", parameter: "stiffness", from: 0.2, to: 1.0, durationMs: 5_000 },
+    {
+      type: "loop",
+      count: 3,
+      steps: [
+        { type: "set", settings: { targetAngle: -45 } },
+        { type: "wait", durationMs: 2_000 },
+        { type: "set", settings: { targetAngle: 45 } },
+        { type: "wait", durationMs: 2_000 },
+      ],
+    },
+  ],
+}
+
+const formatSeconds = (ms: number) => `${Number((ms / 1000).toFixed(2))} s`
+
+export function describeStep(step: SequenceStep): string {
+  switch (step.type) {
+    case "set":
+      return `Set ${Object.entries(step.settings)
+        .map(([key, value]) => `${key} ${Array.isArray(value) ? `(${value.length} detents)` : value}`)
+        .join(", ")}`
+    case "wait":
+      return `Wait ${formatSeconds(step.durationMs)}`
+    case "ramp":
+      return `Ramp ${step.parameter} ${step.from} → ${step.to} over ${formatSeconds(step.durationMs)}`
+    case "wait-until": {
+      const { signal, comparison, value } = step.condition
+      const timeout = step.timeoutMs === undefined ? "" : ` (timeout ${formatSeconds(step.timeoutMs)})`
+      return `Wait until ${signal} ${comparison} ${value}${timeout}`
+    }
+    case "loop":
+      return `Repeat ${step.count}×`
+  }
+}
+
+export function conditionMet(condition: SequenceCondition, point: TelemetryPoint): boolean {
+  const actual = point[condition.signal]
+  switch (condition.comparison) {
+    case ">":
+      return actual > condition.value
+    case ">=":
+      return actual >= condition.value
+    case "<":
+      return actual < condition.value
+    case "<=":
+      return actual <= condition.value
+  }
+}
+
+export function serializeSequence(sequence: HapticSequence): string {
+  const file: HapticSequenceFile = { version: SEQUENCE_VERSION, name: sequence.name, steps: sequence.steps }
+  return JSON.stringify(file, null, 2) + "\n"
+}
+
+// Parses and validates a sequence file; throws ConfigError listing every problem
+export function parseSequence(text: string): HapticSequence {
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch {
+    throw new ConfigError("Sequence file is not valid JSON")
+  }
+
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new ConfigError("Sequence file must contain a JSON object")
+  }
+  const file = raw as RawConfig
+  if (file.version !== SEQUENCE_VERSION) {
+    throw new ConfigError(`Unsupported sequence file version: ${JSON.stringify(file.version)}`)
+  }
+
+  const problems: string[] = []
+  const name = typeof file.name === "string" ? file.name : ""
+  if (!Array.isArray(file.steps)) {
+    problems.push("steps must be a list")
+  }
+  const steps = Array.isArray(file.steps) ? validateSteps(file.steps, "steps", 0, problems) : []
+
+  if (problems.length > 0) {
+    throw new ConfigError(`Invalid sequence: ${problems.join("; ")}`)
+  }
+  return { name, steps }
+}
+
+function validateSteps(rawSteps: unknown[], path: string, depth: number, problems: string[]): SequenceStep[] {
+  return rawSteps.map((entry, index) => {
+    const prefix = `${path}[${index}].`
+    const { oneOf, number, object } = createValidators(problems, prefix)
+    const raw = object("step", entry)
+
+    switch (raw.type) {
+      case "set":
+        return {
+          type: "set",
+          settings: createValidators(problems, `${prefix}settings.`).partialSettings(object("settings", raw.settings)),
+        }
+      case "wait":
+        return { type: "wait", durationMs: number("durationMs", raw.durationMs, 0, MAX_DURATION_MS) }
+      case "ramp": {
+        const parameter = oneOf("parameter", raw.parameter, RAMP_PARAMETERS)
+        const [min, max] = SETTING_RANGES[parameter] ?? [-1e6, 1e6]
+        return {
+          type: "ramp",
+          parameter,
+          from: number("from", raw.from, min, max),
+          to: number("to", raw.to, min, max),
+          durationMs: number("durationMs", raw.durationMs, 1, MAX_DURATION_MS),
+          ...(raw.intervalMs === undefined ? {} : { intervalMs: number("intervalMs", raw.intervalMs, 10, 10_000) }),
+        }
+      }
+      case "wait-until": {
+        const condition = object("condition", raw.condition)
+        return {
+          type: "wait-until",
+          condition: {
+            signal: oneOf("condition.signal", condition.signal, TELEMETRY_SIGNALS),
+            comparison: oneOf("condition.comparison", condition.comparison, COMPARISONS),
+            value: number("condition.value", condition.value, -1e6, 1e6),
+          },
+          ...(raw.timeoutMs === undefined ? {} : { timeoutMs: number("timeoutMs", raw.timeoutMs, 1, MAX_DURATION_MS) }),
+        }
+      }
+      case "loop": {
+        if (depth >= MAX_LOOP_DEPTH) {
+          problems.push(`${prefix}loops can be nested at most ${MAX_LOOP_DEPTH} deep`)
+        }
+        if (!Array.isArray(raw.steps)) {
+          problems.push(`${prefix}steps must be a list`)
+        }
+        return {
+          type: "loop",
+          count: number("count", raw.count, 1, 10_000),
+          steps:
+            Array.isArray(raw.steps) && depth < MAX_LOOP_DEPTH
+              ? validateSteps(raw.steps, `${prefix}steps`, depth + 1, problems)
+              : [],
+        }
+      }
+      default:
+        problems.push(`${prefix}type must be one of set, wait, ramp, wait-until, loop`)
+        return { type: "wait", durationMs: 0 }
+    }
+  })
+}
+
+export type SequenceRunState = "idle" | "running" | "paused" | "finished" | "aborted" | "failed"
+
+export interface SequenceStatus {
+  state: SequenceRunState
+  // Labels from the outermost step to the one running, e.g. ["Repeat 3× (2/3)", "Wait 2 s"]
+  step: string[]
+  // Sequence time, which stands still while paused
+  elapsedMs: number
+  error?: string
+}
+
+export interface SequenceRunnerOptions {
+  send: (command: TFDCommand) => Promise<unknown>
+  latestTelemetry: () => TelemetryPoint | null
+  // Called with the settings after every change, before they're sent
+  onSettings?: (settings: HapticSettings) => void
+  // Whether the device's firmware has a mode; switching to one it lacks fails before anything is sent
+  isModeSupported?: (mode: HapticMode) => boolean
+  now?: () => number
+}
+
+class SequenceAborted extends Error {}
+
+// Runs one sequence at a time. Step start times are scheduled from the start of the sequence
+// rather than from when the previous step finished, so command round trips don't accumulate drift.
+export class SequenceRunner {
+  private options: SequenceRunnerOptions
+  private listeners = new Set<(status: SequenceStatus) => void>()
+  private current: SequenceStatus = { state: "idle", step: [], elapsedMs: 0 }
+  private settings: HapticSettings | null = null
+  private startedAt = 0
+  private pausedAt: number | null = null
+  private pausedMs = 0
+  private isAborted = false
+  // Resolves the sleep in progress early, after a pause, resume or abort
+  private wake: (() => void) | null = null
+
+  constructor(options: SequenceRunnerOptions) {
+    this.options = options
+  }
+
+  get isRunning() {
+    return this.current.state === "running" || this.current.state === "paused"
+  }
+
+  status(): SequenceStatus {
+    return this.isRunning ? { ...this.current, elapsedMs: this.elapsed() } : this.current
+  }
+
+  subscribe(listener: (status: SequenceStatus) => void) {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  async run(sequence: HapticSequence, initialSettings: HapticSettings): Promise<SequenceStatus> {
+    if (this.isRunning) throw new Error("A sequence is already running")
+
+    this.settings = { ...initialSettings }
+    this.startedAt = this.now()
+    this.pausedAt = null
+    this.pausedMs = 0
+    this.isAborted = false
+    this.update({ state: "running", step: [], elapsedMs: 0, error: undefined })
+
+    try {
+      await this.runSteps(sequence.steps, 0, [])
+      this.update({ state: "finished", step: [], elapsedMs: this.elapsed() })
+    } catch (err) {
+      if (err instanceof SequenceAborted) {
+        this.update({ state: "aborted", elapsedMs: this.elapsed() })
+      } else {
+        this.update({
+          state: "failed",
+          elapsedMs: this.elapsed(),
+          error: err instanceof Error ? err.message : String(err),
+        })
+      }
+    }
+    return this.current
+  }
+
+  pause() {
+    if (this.current.state !== "running") return
+    this.pausedAt = this.now()
+    this.update({ state: "paused" })
+    this.wake?.()
+  }
+
+  resume() {
+    if (this.current.state !== "paused" || this.pausedAt === null) return
+    this.pausedMs += this.now() - this.pausedAt
+    this.pausedAt = null
+    this.update({ state: "running" })
+    this.wake?.()
+  }
+
+  // Stops after the command in flight; the device keeps the settings sent last
+  abort() {
+    if (!this.isRunning) return
+    this.isAborted = true
+    this.wake?.()
+  }
+
+  private now() {
+    return (this.options.now ?? Date.now)()
+  }
+
+  private elapsed() {
+    const pausing = this.pausedAt === null ? 0 : this.now() - this.pausedAt
+    return this.now() - this.startedAt - this.pausedMs - pausing
+  }
+
+  private update(changes: Partial<SequenceStatus>) {
+    this.current = { ...this.current, ...changes }
+    const status = this.status()
+    this.listeners.forEach((listener) => listener(status))
+  }
+
+  // Runs steps scheduled from `start` (sequence time) and returns when the last one is due to end
+  private async runSteps(steps: SequenceStep[], start: number, parents: string[]): Promise<number> {
+    let cursor = start
+    for (const step of steps) {
+      this.throwIfAborted()
+      this.update({ step: [...parents, describeStep(step)] })
+
+      switch (step.type) {
+        case "set":
+          await this.apply(step.settings)
+          break
+        case "wait":
+          cursor += step.durationMs
+          await this.sleepUntil(cursor)
+          break
+        case "ramp":
+          await this.ramp(step, cursor)
+          cursor += step.durationMs
+          break
+        case "wait-until":
+          await this.waitUntil(step)
+          // Nothing after a condition can be scheduled ahead of it
+          cursor = Math.max(cursor, this.elapsed())
+          break
+        case "loop":
+          for (let iteration = 1; iteration <= step.count; iteration++) {
+            const label = `${describeStep(step)} (${iteration}/${step.count})`
+            cursor = await this.runSteps(step.steps, cursor, [...parents, label])
+          }
+          break
+      }
+    }
+    return cursor
+  }
+
+  private async apply(changes: Partial<HapticSettings>) {
+    if (changes.mode && this.options.isModeSupported?.(changes.mode) === false) {
+      throw new Error(`The device's firmware doesn't support the ${changes.mode} mode`)
+    }
+    this.settings = { ...this.settings!, ...changes }
+    this.options.onSettings?.(this.settings)
+    for (const command of commandsForSettings(this.settings)) {
+      await this.options.send(command)
+      this.throwIfAborted()
+    }
+  }
+
+  private async ramp(step: Extract<SequenceStep, { type: "ramp" }>, start: number) {
+    const interval = step.intervalMs ?? DEFAULT_RAMP_INTERVAL_MS
+    const end = start + step.durationMs
+
+    for (;;) {
+      // Value for the time actually reached, so a slow send skips ahead instead of stretching the ramp
+      const progress = Math.min(1, Math.max(0, (this.elapsed() - start) / step.durationMs))
+      const value = step.from + (step.to - step.from) * progress
+      await this.apply({ [step.parameter]: progress >= 1 ? step.to : Number(value.toFixed(3)) })
+      if (progress >= 1) return
+
+      const nextTick = start + (Math.floor((this.elapsed() - start) / interval) + 1) * interval
+      await this.sleepUntil(Math.min(nextTick, end))
+    }
+  }
+
+  private async waitUntil(step: Extract<SequenceStep, { type: "wait-until" }>) {
+    const deadline = step.timeoutMs === undefined ? null : this.elapsed() + step.timeoutMs
+    let lastFreshAt = this.elapsed()
+    for (;;) {
+      const point = this.options.latestTelemetry()
+      if (point && this.now() - point.time <= MAX_TELEMETRY_AGE_MS) {
+        if (conditionMet(step.condition, point)) return
+        lastFreshAt = this.elapsed()
+      } else if (this.elapsed() - lastFreshAt >= NO_TELEMETRY_MS) {
+        throw new Error(`No telemetry: ${describeStep(step)}; turn on polling or streaming`)
+      }
+      if (deadline !== null && this.elapsed() >= deadline) {
+        throw new Error(`Timed out: ${describeStep(step)}`)
+      }
+      await this.sleepUntil(this.elapsed() + CONDITION_POLL_MS)
+    }
+  }
+
+  private async sleepUntil(time: number) {
+    for (;;) {
+      this.throwIfAborted()
+      if (this.pausedAt !== null) {
+        await this.nextWake()
+        continue
+      }
+      const remaining = time - this.elapsed()
+      if (remaining <= 0) return
+      await this.nextWake(remaining)
+    }
+  }
+
+  // Resolves after ms, or on the next pause/resume/abort; without ms only the latter
+  private nextWake(ms?: number) {
+    return new Promise<void>((resolve) => {
+      let timer: ReturnType<typeof setTimeout> | null = null
+      const done = () => {
+        if (timer) clearTimeout(timer)
+        this.wake = null
+        resolve()
+      }
+      timer = ms === undefined ? null : setTimeout(done, ms)
+      this.wake = done
+    })
+  }
+
+  private throwIfAborted() {
+    if (this.isAborted) throw new SequenceAborted()
+  }
+}
@@ -1,22 +1,14 @@
 // Serial communication utilities with Electron integration
 import { electronSerial } from "./electron-serial"
-
-export interface SerialCommand {
-  command: string
-  parameters?: Record<string, any>
-}
-
-export interface HapticConfig {
-  mode: string
-  angle: number
-  torque?: number
-  stiffness?: number
-  targetAngle?: number
-  detentSpacing?: number
-  detentWidth?: number
-  endstopMin?: number
-  endstopMax?: number
-}
+import { CommandQueue, type CommandOptions } from "./command-queue"
+import {
+  commandsForSettings,
+  decodeLine,
+  encodeCommand,
+  type HapticSettings,
+  type TFDCommand,
+  type TFDMessage,
+} from "./protocol"
 
 export interface SerialPortInfo {
   path: string
@@ -29,7 +21,7 @@ export interface SerialPortInfo {
 }
 
 export class HapticSerialInterface {
-  private responseCallbacks: Map<string, (response: string) => void> = new Map()
+  private commandQueue = new CommandQueue((line) => electronSerial.write(line))
   private onDataCallback: ((data: string) => void) | null = null
   private onErrorCallback: ((error: Error) => void) | null = null
   private onDisconnectCallback: (() => void) | null = null
@@ -44,11 +36,8 @@ export class HapticSerialInterface {
           this.onDataCallback(data)
         }
 
-        // Handle response callbacks
-        this.responseCallbacks.forEach((callback, id) => {
-          callback(data)
-          this.responseCallbacks.delete(id)
-        })
+        // Hand replies to the command waiting for them
+        this.commandQueue.handleMessage(decodeLine(data))
       })
 
       electronSerial.onError((error: Error) => {
@@ -58,6 +47,7 @@ export class HapticSerialInterface {
       })
 
       electronSerial.onDisconnect(() => {
+        this.commandQueue.cancelAll("Device disconnected")
         if (this.onDisconnectCallback) {
           this.onDisconnectCallback()
         }
@@ -100,7 +90,7 @@ export class HapticSerialInterface {
       if (typeof window !== "undefined" && window.electronAPI) {
         await electronSerial.disconnect()
       }
-      this.responseCallbacks.clear()
+      this.commandQueue.cancelAll()
     } catch (error) {
       console.error("Failed to disconnect:", error)
     }
@@ -118,9 +108,9 @@ export class HapticSerialInterface {
     }
   }
 
-  async sendCommand(command: SerialCommand): Promise<void> {
-    const commandString = this.formatCommand(command)
-    console.log("Sending command:", commandString)
+  async sendCommand(command: TFDCommand): Promise<void> {
+    const commandString = encodeCommand(command)
+    console.log("Sending command:", commandString.trim())
 
     try {
       if (typeof window !== "undefined" && window.electronAPI) {
@@ -134,69 +124,9 @@ export class HapticSerialInterface {
     }
   }
 
-  private formatCommand(command: SerialCommand): string {
-    // Customize this method to match your haptic device's protocol
-    switch (command.command) {
-      case "SET_MODE":
-        return `set ${command.parameters?.mode}`
-
-      case "SET_ANGLE":
-        return `ANGLE:${command.parameters?.angle.toFixed(2)}`
-
-      case "SET_TORQUE":
-        return `set constant:${command.parameters?.torque.toFixed(3)}`
-
-      case "SET_DETENTS":
-        return `DETENTS:${command.parameters?.spacing},${command.parameters?.width}`
-
-      case "SET_ENDSTOPS":
-        return `set endstops:${command.parameters?.min},${command.parameters?.max}`
-
-      case "SET_PROPORTIONAL":
-        return `set proportional:${command.parameters?.kp.toFixed(3)},${command.parameters?.target.toFixed(2)}`
-
-      case "GET_STATUS":
-        return "STATUS?"
-
-      case "get angle":
-        return "ANGLE?"
-
-      case "RESET":
-        return "set zero"
-
-      case "CALIBRATE":
-        return "set zero"
-
-      default:
-        return command.command
-    }
-  }
-
-  async sendCommandWithResponse(command: SerialCommand, timeoutMs = 1000): Promise<string> {
-    const responseId = Math.random().toString(36).substr(2, 9)
-
-    return new Promise(async (resolve, reject) => {
-      // Set up timeout
-      const timeout = setTimeout(() => {
-        this.responseCallbacks.delete(responseId)
-        reject(new Error("Command timeout"))
-      }, timeoutMs)
-
-      // Set up response callback
-      this.responseCallbacks.set(responseId, (response: string) => {
-        clearTimeout(timeout)
-        resolve(response)
-      })
-
-      // Send the command
-      try {
-        await this.sendCommand(command)
-      } catch (error) {
-        clearTimeout(timeout)
-        this.responseCallbacks.delete(responseId)
-        reject(error)
-      }
-    })
+  // Send a command and wait for its acknowledgement (OK, telemetry or a device error)
+  async sendCommandWithResponse(command: TFDCommand, options?: CommandOptions): Promise<TFDMessage> {
+    return this.commandQueue.send(command, options)
   }
 
   // Event handlers
@@ -213,80 +143,15 @@ export class HapticSerialInterface {
   }
 
   // Haptic-specific command methods
-  async setHapticMode(config: HapticConfig): Promise<void> {
-    await this.sendCommand({
-      command: "SET_MODE",
-      parameters: { mode: config.mode },
-    })
-
-    // Send mode-specific parameters
-    switch (config.mode) {
-      case "soft-detents":
-      case "medium-detents":
-      case "rough-detents":
-        if (config.detentSpacing && config.detentWidth) {
-          await this.sendCommand({
-            command: "SET_DETENTS",
-            parameters: {
-              spacing: config.detentSpacing,
-              width: config.detentWidth,
-            },
-          })
-        }
-        break
-
-      case "increased-torque":
-        if (config.torque !== undefined) {
-          await this.sendCommand({
-            command: "SET_TORQUE",
-            parameters: { torque: config.torque },
-          })
-        }
-        break
-
-      case "endstops":
-        if (config.endstopMin !== undefined && config.endstopMax !== undefined) {
-          await this.sendCommand({
-            command: "SET_ENDSTOPS",
-            parameters: {
-              min: config.endstopMin,
-              max: config.endstopMax,
-            },
-          })
-        }
-        break
-
-      case "proportional-control":
-        if (config.stiffness !== undefined && config.targetAngle !== undefined) {
-          await this.sendCommand({
-            command: "SET_PROPORTIONAL",
-            parameters: {
-              kp: config.stiffness,
-              target: config.targetAngle,
-            },
-          })
-        }
-        break
+  async setHapticMode(settings: HapticSettings): Promise<void> {
+    for (const command of commandsForSettings(settings)) {
+      await this.sendCommandWithResponse(command)
     }
   }
 
-  async setAngle(angle: number): Promise<void> {
-    await this.sendCommand({
-      command: "SET_ANGLE",
-      parameters: { angle },
-    })
-  }
-
-  async getStatus(): Promise<any> {
+  async getStatus(): Promise<TFDMessage | null> {
     try {
-      const response = await this.sendCommandWithResponse({ command: "GET_STATUS" }, 2000)
-
-      try {
-        return JSON.parse(response)
-      } catch {
-        // If not JSON, return as raw response
-        return { raw: response, timestamp: Date.now() }
-      }
+      return await this.sendCommandWithResponse({ type: "get-all" }, { timeoutMs: 2000 })
     } catch (error) {
       console.error("Failed to get status:", error)
       return null
@@ -295,9 +160,8 @@ export class HapticSerialInterface {
 
   async getCurrentAngle(): Promise<number | null> {
     try {
-      const response = await this.sendCommandWithResponse({ command: "get angle" }, 1000)
-      const angle = Number.parseFloat(response)
-      return isNaN(angle) ? null : angle
+      const response = await this.sendCommandWithResponse({ type: "get-all" }, { timeoutMs: 1000 })
+      return response.type === "telemetry" ? response.angle : null
     } catch (error) {
       console.error("Failed to get current angle:", error)
       return null
@@ -305,11 +169,11 @@ export class HapticSerialInterface {
   }
 
   async reset(): Promise<void> {
-    await this.sendCommand({ command: "set zero" })
+    await this.sendCommandWithResponse({ type: "zero" })
   }
 
   async calibrate(): Promise<void> {
-    await this.sendCommand({ command: "set zero" })
+    await this.sendCommandWithResponse({ type: "zero" })
   }
 }
 
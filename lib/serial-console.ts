@@ -0,0 +1,86 @@
+// Transcript of every line sent to and received from a device, for the serial console panel
+import { COMMAND_TEMPLATES, LINE_TERMINATOR, decodeLine } from "@/lib/protocol"
+
+export type ConsoleDirection = "tx" | "rx"
+
+export interface ConsoleLine {
+  id: number
+  time: number // epoch ms
+  direction: ConsoleDirection
+  text: string
+}
+
+const MAX_LINES = 5000
+
+export class SerialConsoleLog {
+  private entries: ConsoleLine[] = []
+  private listeners = new Set<() => void>()
+  private nextId = 1
+
+  push(direction: ConsoleDirection, text: string, time = Date.now()) {
+    this.entries.push({ id: this.nextId++, time, direction, text: text.replace(/[\r\n]+$/, "") })
+    if (this.entries.length > MAX_LINES * 1.1) {
+      this.entries.splice(0, this.entries.length - MAX_LINES)
+    }
+    this.listeners.forEach((listener) => listener())
+  }
+
+  lines(): readonly ConsoleLine[] {
+    return this.entries
+  }
+
+  clear() {
+    this.entries = []
+    this.listeners.forEach((listener) => listener())
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+}
+
+const TELEMETRY_REQUESTS = new Set(["get all", "get vel", "get torque"])
+
+// Telemetry samples and the polling requests that fetch them
+export function isTelemetryLine(line: ConsoleLine): boolean {
+  if (line.direction === "tx") return TELEMETRY_REQUESTS.has(line.text.trim())
+  return decodeLine(line.text).type === "telemetry"
+}
+
+// Known commands that start with what has been typed so far
+export function commandCompletions(input: string): string[] {
+  const prefix = input.trimStart().toLowerCase()
+  if (!prefix) return []
+  return COMMAND_TEMPLATES.filter((template) => template.startsWith(prefix) && template !== prefix)
+}
+
+// Longest text all completions share, for Tab completion
+export function completeCommand(input: string): string {
+  const completions = commandCompletions(input)
+  if (completions.length === 0) return input
+
+  let common = completions[0]
+  completions.forEach((completion) => {
+    while (!completion.startsWith(common)) {
+      common = common.slice(0, -1)
+    }
+  })
+  return common.length > input.trimStart().length ? common : input
+}
+
+export const formatConsoleTime = (time: number) => {
+  const date = new Date(time)
+  const pad = (value: number, length = 2) => value.toString().padStart(length, "0")
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}.${pad(date.getMilliseconds(), 3)}`
+}
+
+// Plain-text transcript: "12:00:01.250 > set cw" for sent lines, "<" for received ones
+export function formatTranscript(lines: readonly ConsoleLine[]): string {
+  return lines
+    .map((line) => `${formatConsoleTime(line.time)} ${line.direction === "tx" ? ">" : "<"} ${line.text}`)
+    .join(LINE_TERMINATOR)
+    .concat(LINE_TERMINATOR)
+}
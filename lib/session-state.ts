@@ -0,0 +1,74 @@
+// Session state persisted in localStorage so the app reopens the way it was left.
+// The haptic part reuses the configuration file format, so it shares its validation and migrations.
+import { parseConfig, serializeConfig, type HapticConfig } from "@/lib/haptic-config"
+
+const SESSION_STATE_KEY = "sessionState"
+
+// Each control surface keeps its own session
+const sessionKey = (surfaceId: string) => `${SESSION_STATE_KEY}:${surfaceId}`
+
+export interface SessionState {
+  config: HapticConfig
+  selectedPort: string
+  // Sidebar section title -> expanded
+  expandedSections: Record<string, boolean>
+  reapplyOnConnect: boolean
+  // Connect when a previously used device is plugged in
+  autoConnectOnPlug: boolean
+  // Sequence file text being edited in the sequencer, saved or not
+  sequenceDraft: string
+}
+
+export const loadSessionState = (surfaceId: string): SessionState | null => {
+  if (typeof window === "undefined") return null
+
+  try {
+    const stored = localStorage.getItem(sessionKey(surfaceId))
+    if (!stored) return null
+
+    const raw = JSON.parse(stored)
+    return {
+      config: parseConfig(JSON.stringify(raw.config)),
+      selectedPort: typeof raw.selectedPort === "string" ? raw.selectedPort : "",
+      expandedSections:
+        typeof raw.expandedSections === "object" && raw.expandedSections !== null ? raw.expandedSections : {},
+      reapplyOnConnect: raw.reapplyOnConnect === true,
+      autoConnectOnPlug: raw.autoConnectOnPlug === true,
+      sequenceDraft: typeof raw.sequenceDraft === "string" ? raw.sequenceDraft : "",
+    }
+  } catch (err) {
+    console.error("Ignoring unreadable session state:", err)
+    return null
+  }
+}
+
+export const saveSessionState = (surfaceId: string, session: SessionState) => {
+  if (typeof window === "undefined") return
+  localStorage.setItem(
+    sessionKey(surfaceId),
+    JSON.stringify({ ...session, config: JSON.parse(serializeConfig(session.config)) }),
+  )
+}
+
+export const clearSessionState = (surfaceId: string) => {
+  if (typeof window === "undefined") return
+  localStorage.removeItem(sessionKey(surfaceId))
+}
+
+const SURFACES_KEY = "controlSurfaces"
+
+// Ids of the open control surfaces, one per device
+export const loadSurfaceIds = (): string[] => {
+  if (typeof window === "undefined") return ["1"]
+  try {
+    const ids = JSON.parse(localStorage.getItem(SURFACES_KEY) || "[]")
+    return Array.isArray(ids) && ids.length > 0 && ids.every((id) => typeof id === "string") ? ids : ["1"]
+  } catch {
+    return ["1"]
+  }
+}
+
+export const saveSurfaceIds = (ids: string[]) => {
+  if (typeof window === "undefined") return
+  localStorage.setItem(SURFACES_KEY, JSON.stringify(ids))
+}
@@ -0,0 +1,67 @@
+// Time-ordered window of recent telemetry shared with views that render on their own schedule,
+// so a new sample doesn't have to re-render the whole control tree
+
+export interface TelemetryPoint {
+  time: number // epoch ms
+  angle: number
+  velocity: number
+  torque: number
+}
+
+// Longest chart window plus headroom
+export const DEFAULT_RETENTION_MS = 6 * 60 * 1000
+const MAX_POINTS = 200_000
+
+export class TelemetryBuffer {
+  private points: TelemetryPoint[] = []
+  private listeners = new Set<(point: TelemetryPoint) => void>()
+
+  constructor(private retentionMs = DEFAULT_RETENTION_MS) {}
+
+  push(point: TelemetryPoint) {
+    this.points.push(point)
+
+    // Trim in batches rather than on every sample
+    const oldest = this.points[0]
+    if (point.time - oldest.time > this.retentionMs * 1.1 || this.points.length > MAX_POINTS * 1.1) {
+      const cutoff = this.indexAtOrAfter(point.time - this.retentionMs)
+      this.points.splice(0, Math.max(cutoff, this.points.length - MAX_POINTS))
+    }
+
+    this.listeners.forEach((listener) => listener(point))
+  }
+
+  // Points with from <= time <= to
+  range(from: number, to: number): TelemetryPoint[] {
+    return this.points.slice(this.indexAtOrAfter(from), this.indexAtOrAfter(to + 1))
+  }
+
+  latest(): TelemetryPoint | null {
+    return this.points.length > 0 ? this.points[this.points.length - 1] : null
+  }
+
+  subscribe(listener: (point: TelemetryPoint) => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  clear() {
+    this.points = []
+  }
+
+  private indexAtOrAfter(time: number): number {
+    let low = 0
+    let high = this.points.length
+    while (low < high) {
+      const mid = (low + high) >> 1
+      if (this.points[mid].time < time) {
+        low = mid + 1
+      } else {
+        high = mid
+      }
+    }
+    return low
+  }
+}
@@ -0,0 +1,172 @@
+// Records timestamped telemetry, sent commands and markers for export as CSV or JSON
+
+export interface RecordedSample {
+  time: number // ms since the recording started
+  angle: number
+  velocity: number
+  torque: number
+}
+
+export interface RecordedCommand {
+  time: number
+  command: string
+}
+
+export interface RecordedMarker {
+  time: number
+  label: string
+}
+
+export interface Recording {
+  version: 1
+  startedAt: string
+  durationMs: number
+  truncatedSamples: number
+  truncatedCommands: number
+  truncatedMarkers: number
+  metadata: Record<string, unknown>
+  samples: RecordedSample[]
+  commands: RecordedCommand[]
+  markers: RecordedMarker[]
+}
+
+export interface RecorderStatus {
+  isRecording: boolean
+  sampleCount: number
+  commandCount: number
+  markerCount: number
+  durationMs: number
+  truncatedSamples: number
+  truncatedCommands: number
+  truncatedMarkers: number
+}
+
+// ~30 minutes at 50 Hz; older samples are discarded past this
+export const DEFAULT_MAX_SAMPLES = 90_000
+// Commands and markers each; a script or bridge client sending in a loop can outpace the samples
+export const DEFAULT_MAX_EVENTS = 20_000
+
+export class TelemetryRecorder {
+  private samples: RecordedSample[] = []
+  private commands: RecordedCommand[] = []
+  private markers: RecordedMarker[] = []
+  private startedAt: number | null = null
+  private stoppedAt: number | null = null
+  private truncatedSamples = 0
+  private truncatedCommands = 0
+  private truncatedMarkers = 0
+  private metadata: Record<string, unknown> = {}
+
+  constructor(
+    private maxSamples = DEFAULT_MAX_SAMPLES,
+    private maxEvents = DEFAULT_MAX_EVENTS,
+  ) {}
+
+  get isRecording(): boolean {
+    return this.startedAt !== null && this.stoppedAt === null
+  }
+
+  // Starting again discards the previous recording; metadata describes the setup for the export
+  start(metadata: Record<string, unknown> = {}, now = Date.now()) {
+    this.clear()
+    this.metadata = metadata
+    this.startedAt = now
+  }
+
+  stop(now = Date.now()) {
+    if (this.isRecording) {
+      this.stoppedAt = now
+    }
+  }
+
+  clear() {
+    this.samples = []
+    this.commands = []
+    this.markers = []
+    this.startedAt = null
+    this.stoppedAt = null
+    this.truncatedSamples = 0
+    this.truncatedCommands = 0
+    this.truncatedMarkers = 0
+    this.metadata = {}
+  }
+
+  addSample(sample: Omit<RecordedSample, "time">, now = Date.now()) {
+    if (!this.isRecording) return
+    this.samples.push({ time: now - this.startedAt!, ...sample })
+    this.truncatedSamples += trimOldest(this.samples, this.maxSamples)
+  }
+
+  addCommand(command: string, now = Date.now()) {
+    if (!this.isRecording) return
+    this.commands.push({ time: now - this.startedAt!, command: command.trim() })
+    this.truncatedCommands += trimOldest(this.commands, this.maxEvents)
+  }
+
+  addMarker(label: string, now = Date.now()) {
+    if (!this.isRecording) return
+    this.markers.push({ time: now - this.startedAt!, label })
+    this.truncatedMarkers += trimOldest(this.markers, this.maxEvents)
+  }
+
+  status(now = Date.now()): RecorderStatus {
+    return {
+      isRecording: this.isRecording,
+      sampleCount: this.samples.length,
+      commandCount: this.commands.length,
+      markerCount: this.markers.length,
+      durationMs: this.durationMs(now),
+      truncatedSamples: this.truncatedSamples,
+      truncatedCommands: this.truncatedCommands,
+      truncatedMarkers: this.truncatedMarkers,
+    }
+  }
+
+  toRecording(now = Date.now()): Recording {
+    return {
+      version: 1,
+      startedAt: new Date(this.startedAt ?? now).toISOString(),
+      durationMs: this.durationMs(now),
+      truncatedSamples: this.truncatedSamples,
+      truncatedCommands: this.truncatedCommands,
+      truncatedMarkers: this.truncatedMarkers,
+      metadata: this.metadata,
+      samples: this.samples,
+      commands: this.commands,
+      markers: this.markers,
+    }
+  }
+
+  // One time-ordered table; command and marker rows leave the telemetry columns empty
+  toCSV(): string {
+    const rows: [number, string][] = [
+      ...this.samples.map((s): [number, string] => [
+        s.time,
+        `${s.time},sample,${s.angle},${s.velocity},${s.torque},`,
+      ]),
+      ...this.commands.map((c): [number, string] => [c.time, `${c.time},command,,,,${escapeCSV(c.command)}`]),
+      ...this.markers.map((m): [number, string] => [m.time, `${m.time},marker,,,,${escapeCSV(m.label)}`]),
+    ]
+
+    rows.sort((a, b) => a[0] - b[0])
+    return ["time_ms,type,angle_deg,velocity_rpm,torque_nm,detail", ...rows.map(([, row]) => row)].join("\n") + "\n"
+  }
+
+  private durationMs(now: number): number {
+    if (this.startedAt === null) return 0
+    return (this.stoppedAt ?? now) - this.startedAt
+  }
+}
+
+// Drops the oldest entries once the list is over max and returns how many went. Trims in batches
+// so a full buffer doesn't shift the array on every addition.
+function trimOldest(list: unknown[], max: number): number {
+  if (list.length <= max * 1.1) return 0
+  const excess = list.length - max
+  list.splice(0, excess)
+  return excess
+}
+
+function escapeCSV(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
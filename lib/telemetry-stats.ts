@@ -0,0 +1,66 @@
+// Measures the live telemetry sample rate and estimates frames lost to gaps
+
+export type TelemetryMode = "stream" | "poll"
+
+export interface TelemetryStatsSnapshot {
+  sampleRate: number
+  receivedFrames: number
+  droppedFrames: number
+}
+
+const RATE_WINDOW_MS = 1000
+
+// A frame later than this many expected intervals counts the missing ones as dropped
+const GAP_TOLERANCE = 1.5
+
+export class TelemetryStats {
+  private timestamps: number[] = []
+  private lastTimestamp: number | null = null
+  private receivedFrames = 0
+  private droppedFrames = 0
+
+  constructor(private expectedIntervalMs = 20) {}
+
+  setExpectedInterval(intervalMs: number) {
+    this.expectedIntervalMs = intervalMs
+    // Don't count the pause while switching as dropped frames
+    this.lastTimestamp = null
+  }
+
+  recordSample(timestamp = Date.now()) {
+    this.receivedFrames += 1
+
+    if (this.lastTimestamp !== null) {
+      const gap = timestamp - this.lastTimestamp
+      if (gap > this.expectedIntervalMs * GAP_TOLERANCE) {
+        this.droppedFrames += Math.round(gap / this.expectedIntervalMs) - 1
+      }
+    }
+
+    this.lastTimestamp = timestamp
+    this.timestamps.push(timestamp)
+    this.trim(timestamp)
+  }
+
+  snapshot(now = Date.now()): TelemetryStatsSnapshot {
+    this.trim(now)
+    return {
+      sampleRate: (this.timestamps.length * 1000) / RATE_WINDOW_MS,
+      receivedFrames: this.receivedFrames,
+      droppedFrames: this.droppedFrames,
+    }
+  }
+
+  reset() {
+    this.timestamps = []
+    this.lastTimestamp = null
+    this.receivedFrames = 0
+    this.droppedFrames = 0
+  }
+
+  private trim(now: number) {
+    while (this.timestamps.length > 0 && now - this.timestamps[0] > RATE_WINDOW_MS) {
+      this.timestamps.shift()
+    }
+  }
+}
@@ -0,0 +1,133 @@
+// Owns every open serial port so several devices can be driven at once.
+// Each connection gets a device id that tags its data, error and disconnect events.
+const { EventEmitter } = require("events")
+const { SimulatedTFD, SIMULATOR_PORT_PATH } = require("./simulator")
+
+// Open either a real port (through a line parser) or the simulator, which emits lines itself
+function createPort(portPath, baudRate) {
+  if (portPath === SIMULATOR_PORT_PATH) {
+    const simulator = new SimulatedTFD()
+    return { port: simulator, parser: simulator }
+  }
+
+  const { SerialPort } = require("serialport")
+  const { ReadlineParser } = require("@serialport/parser-readline")
+
+  const port = new SerialPort({
+    path: portPath,
+    baudRate: Number.parseInt(baudRate),
+    dataBits: 8,
+    parity: "none",
+    stopBits: 1,
+    flowControl: false,
+    autoOpen: false,
+  })
+
+  // Create parser for line-based communication
+  return { port, parser: port.pipe(new ReadlineParser({ delimiter: "\n" })) }
+}
+
+class DeviceManager extends EventEmitter {
+  constructor() {
+    super()
+    this.devices = new Map()
+    this.nextId = 1
+  }
+
+  // Reusing a device id (e.g. when reconnecting) closes that device's previous port first
+  async connect(portPath, baudRate, deviceId) {
+    const id = deviceId || `device-${this.nextId++}`
+
+    const owner = this.findByPath(portPath)
+    if (owner && owner.id !== id) {
+      throw new Error(`${portPath} is already open for ${owner.id}`)
+    }
+
+    // Closing the previous port for this id must not report the id as disconnected
+    const previous = this.devices.get(id)
+    if (previous) previous.isSuperseded = true
+    await this.disconnect(id)
+
+    const { port, parser } = createPort(portPath, baudRate)
+    const device = { id, path: portPath, baudRate: Number.parseInt(baudRate), port, parser }
+
+    port.on("error", (error) => {
+      console.error(`Serial port error on ${id}:`, error)
+      this.emit("error", id, error.message)
+    })
+
+    port.on("close", () => {
+      console.log(`Serial port closed: ${id}`)
+      if (device.isSuperseded) return
+      if (this.devices.get(id) === device) {
+        this.devices.delete(id)
+      }
+      this.emit("disconnected", id)
+    })
+
+    parser.on("data", (data) => {
+      this.emit("data", id, data.trim())
+    })
+
+    await new Promise((resolve, reject) => {
+      port.open((error) => (error ? reject(error) : resolve()))
+    })
+
+    this.devices.set(id, device)
+    console.log(`Connected ${id} to ${portPath} at ${baudRate} baud`)
+    return id
+  }
+
+  async disconnect(deviceId) {
+    const device = this.devices.get(deviceId)
+    if (!device) return
+
+    this.devices.delete(deviceId)
+    if (device.port.isOpen) {
+      await new Promise((resolve) => {
+        device.port.close((error) => {
+          if (error) {
+            console.error(`Error closing ${deviceId}:`, error)
+          }
+          resolve()
+        })
+      })
+    }
+  }
+
+  async disconnectAll() {
+    await Promise.all(Array.from(this.devices.keys()).map((id) => this.disconnect(id)))
+  }
+
+  async write(deviceId, data) {
+    const device = this.devices.get(deviceId)
+    if (!device || !device.port.isOpen) {
+      throw new Error(`Device ${deviceId} is not connected`)
+    }
+
+    await new Promise((resolve, reject) => {
+      device.port.write(data, (error) => {
+        if (error) {
+          reject(error)
+        } else {
+          device.port.drain(resolve)
+        }
+      })
+    })
+  }
+
+  isConnected(deviceId) {
+    const device = this.devices.get(deviceId)
+    return Boolean(device && device.port.isOpen)
+  }
+
+  findByPath(portPath) {
+    return Array.from(this.devices.values()).find((device) => device.path === portPath)
+  }
+
+  list() {
+    return Array.from(this.devices.values()).map(({ id, path, baudRate }) => ({ id, path, baudRate }))
+  }
+}
+
+module.exports = { DeviceManager }
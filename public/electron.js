@@ -1,6 +1,12 @@
 const { app, BrowserWindow, Menu, dialog, ipcMain } = require("electron")
 const path = require("path")
+const fs = require("fs")
 const isDev = require("electron-is-dev")
+const { SIMULATOR_PORT_INFO } = require("./simulator")
+const { DeviceManager } = require("./device-manager")
+const { PortWatcher, listSerialPorts } = require("./port-watcher")
+const { WebSocketBridge, loadBridgeConfig, saveBridgeConfig } = require("./websocket-bridge")
+const { OscBridge, loadOscConfig, saveOscConfig } = require("./osc-bridge")
 
 // Disable GPU acceleration to fix rendering issues
 app.disableHardwareAcceleration()
@@ -11,6 +17,86 @@ app.commandLine.appendSwitch("disable-software-rasterizer")
 
 let mainWindow
 
+// Configuration files the user picked in the File menu's dialogs; the config-read and config-write
+// handlers refuse any other path, so the renderer can't be used to touch arbitrary files
+const configReadPaths = new Set()
+const configWritePaths = new Set()
+
+// Every device event carries the id of the connection it came from
+const deviceManager = new DeviceManager()
+deviceManager.on("data", (deviceId, data) => mainWindow?.webContents.send("serial-data", deviceId, data))
+deviceManager.on("error", (deviceId, message) => mainWindow?.webContents.send("serial-error", deviceId, message))
+deviceManager.on("disconnected", (deviceId) => mainWindow?.webContents.send("serial-disconnected", deviceId))
+
+// Plugging a device in or out updates every control surface's port list
+const portWatcher = new PortWatcher()
+portWatcher.on("changed", (change) => mainWindow?.webContents.send("ports-changed", change))
+portWatcher.on("error", (error) => {
+  console.error("Failed to watch serial ports:", error)
+  mainWindow?.webContents.send("serial-error", null, `Serial port support unavailable: ${error.message}`)
+})
+
+// Optional localhost WebSocket server for other applications; the control surface that owns a
+// device publishes its telemetry and answers client commands for it
+const bridgeConfigPath = () => path.join(app.getPath("userData"), "websocket-bridge.json")
+const bridge = new WebSocketBridge(() => deviceManager.list())
+let bridgeConfig = null
+let bridgeError = null
+const bridgeStatus = () => ({ ...bridge.status(), error: bridgeError })
+bridge.on("status", () => mainWindow?.webContents.send("bridge-status", bridgeStatus()))
+bridge.on("request", (requestId, deviceId, message) => {
+  if (!mainWindow) {
+    bridge.respond(requestId, { ok: false, error: "The app window is closed" })
+    return
+  }
+  mainWindow.webContents.send("bridge-request", requestId, deviceId, message)
+})
+
+async function applyBridgeConfig(config) {
+  bridgeConfig = config
+  bridgeError = null
+  try {
+    if (config.enabled) {
+      await bridge.start({ port: config.port, token: config.token })
+    } else {
+      await bridge.stop()
+    }
+  } catch (error) {
+    console.error("Failed to start the WebSocket bridge:", error)
+    bridgeError = error.message
+    mainWindow?.webContents.send("bridge-status", bridgeStatus())
+  }
+}
+
+// Optional OSC over UDP; the visible control surface publishes telemetry and applies the inputs
+const oscConfigPath = () => path.join(app.getPath("userData"), "osc.json")
+const osc = new OscBridge()
+let oscConfig = null
+let oscError = null
+const oscStatus = () => ({ ...osc.status(), error: oscError })
+osc.on("status", () => mainWindow?.webContents.send("osc-status", oscStatus()))
+osc.on("input", (input, args) => mainWindow?.webContents.send("osc-input", input, args))
+osc.on("error", (error) => {
+  oscError = error.message
+  mainWindow?.webContents.send("osc-status", oscStatus())
+})
+
+async function applyOscConfig(config) {
+  oscConfig = config
+  oscError = null
+  try {
+    if (config.enabled) {
+      await osc.start(config)
+    } else {
+      await osc.stop()
+    }
+  } catch (error) {
+    console.error("Failed to start OSC:", error)
+    oscError = error.message
+    mainWindow?.webContents.send("osc-status", oscStatus())
+  }
+}
+
 function createWindow() {
   // Create the browser window
   mainWindow = new BrowserWindow({
@@ -70,7 +156,8 @@ function createWindow() {
               defaultPath: "haptic-config.json",
               filters: [{ name: "JSON Files", extensions: ["json"] }],
             })
-            if (!result.canceled) {
+            if (!result.canceled && result.filePath) {
+              configWritePaths.add(result.filePath)
               mainWindow.webContents.send("save-config", result.filePath)
             }
           },
@@ -85,6 +172,7 @@ function createWindow() {
               properties: ["openFile"],
             })
             if (!result.canceled && result.filePaths.length > 0) {
+              configReadPaths.add(result.filePaths[0])
               mainWindow.webContents.send("load-config", result.filePaths[0])
             }
           },
@@ -211,6 +299,9 @@ function createWindow() {
 // App event handlers
 app.whenReady().then(() => {
   createWindow()
+  portWatcher.start()
+  applyBridgeConfig(loadBridgeConfig(bridgeConfigPath()))
+  applyOscConfig(loadOscConfig(oscConfigPath()))
 
   app.on("activate", () => {
     if (BrowserWindow.getAllWindows().length === 0) {
@@ -219,6 +310,13 @@ app.whenReady().then(() => {
   })
 })
 
+app.on("before-quit", () => {
+  portWatcher.stop()
+  bridge.stop()
+  osc.stop()
+  deviceManager.disconnectAll()
+})
+
 app.on("window-all-closed", () => {
   if (process.platform !== "darwin") {
     app.quit()
@@ -228,123 +326,31 @@ app.on("window-all-closed", () => {
 // IPC handlers for serial communication
 ipcMain.handle("serial-list-ports", async () => {
   try {
-    // For testing, return mock ports if serialport module is not available
-    try {
-      const { SerialPort } = require("serialport")
-      const ports = await SerialPort.list()
-      console.log("Available ports:", ports)
-      return ports.map(port => ({
-        path: port.path,
-        manufacturer: port.manufacturer,
-        friendlyName: port.friendlyName,
-        serialNumber: port.serialNumber,
-        pnpId: port.pnpId,
-        locationId: port.locationId,
-        productId: port.productId,
-        vendorId: port.vendorId,
-      }))
-    } catch (err) {
-      console.warn("SerialPort module not available, using mock ports:", err)
-      return [
-        { path: "COM1", manufacturer: "Mock Device", friendlyName: "Mock Device (COM1)" },
-        { path: "COM2", manufacturer: "Haptic Controller", friendlyName: "Haptic Controller (COM2)" },
-        { path: "COM3", friendlyName: "COM3" },
-      ]
-    }
+    const ports = await listSerialPorts()
+    console.log("Available ports:", ports)
+    return ports
   } catch (error) {
     console.error("Failed to list serial ports:", error)
-    return []
+    mainWindow.webContents.send("serial-error", null, `Serial port support unavailable: ${error.message}`)
+    return [SIMULATOR_PORT_INFO]
   }
 })
 
-ipcMain.handle("serial-connect", async (event, portPath, baudRate) => {
+ipcMain.handle("serial-connect", async (event, portPath, baudRate, deviceId) => {
   try {
     console.log(`Connecting to ${portPath} at ${baudRate} baud...`)
-
-    try {
-      const { SerialPort } = require("serialport")
-      const { ReadlineParser } = require("@serialport/parser-readline")
-
-      // Close existing connection if any
-      if (global.serialPort && global.serialPort.isOpen) {
-        await new Promise((resolve) => {
-          global.serialPort.close(() => resolve())
-        })
-      }
-
-      // Create new serial port connection
-      global.serialPort = new SerialPort({
-        path: portPath,
-        baudRate: Number.parseInt(baudRate),
-        dataBits: 8,
-        parity: "none",
-        stopBits: 1,
-        flowControl: false,
-        autoOpen: false,
-      })
-
-      // Create parser for line-based communication
-      global.serialParser = global.serialPort.pipe(new ReadlineParser({ delimiter: "\n" }))
-
-      // Set up event handlers
-      global.serialPort.on("error", (error) => {
-        console.error("Serial port error:", error)
-        mainWindow.webContents.send("serial-error", error.message)
-      })
-
-      global.serialPort.on("close", () => {
-        console.log("Serial port closed")
-        mainWindow.webContents.send("serial-disconnected")
-      })
-
-      global.serialParser.on("data", (data) => {
-        const trimmedData = data.trim()
-        // console.log("Received:", trimmedData)
-        mainWindow.webContents.send("serial-data", trimmedData)
-      })
-
-      // Open the port
-      await new Promise((resolve, reject) => {
-        global.serialPort.open((error) => {
-          if (error) {
-            reject(error)
-          } else {
-            resolve()
-          }
-        })
-      })
-
-      console.log("Serial port connected successfully")
-      return { success: true }
-    } catch (err) {
-      console.warn("SerialPort module not available, using mock connection:", err)
-      // Mock successful connection for testing
-      return { success: true }
-    }
+    const id = await deviceManager.connect(portPath, baudRate, deviceId)
+    return { success: true, deviceId: id }
   } catch (error) {
     console.error("Failed to connect to serial port:", error)
     return { success: false, error: error.message }
   }
 })
 
-ipcMain.handle("serial-disconnect", async () => {
+ipcMain.handle("serial-disconnect", async (event, deviceId) => {
   try {
-    console.log("Disconnecting from serial port...")
-
-    if (global.serialPort && global.serialPort.isOpen) {
-      await new Promise((resolve) => {
-        global.serialPort.close((error) => {
-          if (error) {
-            console.error("Error closing port:", error)
-          }
-          global.serialPort = null
-          global.serialParser = null
-          resolve()
-        })
-      })
-    }
-
-    console.log("Serial port disconnected")
+    console.log(`Disconnecting ${deviceId}...`)
+    await deviceManager.disconnect(deviceId)
     return { success: true }
   } catch (error) {
     console.error("Failed to disconnect:", error)
@@ -352,32 +358,126 @@ ipcMain.handle("serial-disconnect", async () => {
   }
 })
 
-ipcMain.handle("serial-write", async (event, data) => {
+ipcMain.handle("serial-write", async (event, deviceId, data) => {
   try {
-    // console.log("Writing to serial port:", data.trim())
-
-    if (global.serialPort && global.serialPort.isOpen) {
-      await new Promise((resolve, reject) => {
-        global.serialPort.write(data, (error) => {
-          if (error) {
-            reject(error)
-          } else {
-            global.serialPort.drain(resolve)
-          }
-        })
-      })
-    } else {
-      // Mock successful write for testing
-      console.log("Mock write (no actual serial port)")
+    await deviceManager.write(deviceId, data)
+    return { success: true }
+  } catch (error) {
+    console.error("Failed to write to serial port:", error)
+    return { success: false, error: error.message }
+  }
+})
+
+ipcMain.handle("serial-is-connected", (event, deviceId) => {
+  return deviceManager.isConnected(deviceId)
+})
+
+ipcMain.handle("serial-devices", () => {
+  return deviceManager.list()
+})
+
+// Save renderer-generated content (e.g. telemetry exports) through a native save dialog
+ipcMain.handle("save-file", async (event, { title, defaultPath, filters, content }) => {
+  try {
+    const result = await dialog.showSaveDialog(mainWindow, { title, defaultPath, filters })
+    if (result.canceled || !result.filePath) {
+      return { success: false, canceled: true }
+    }
+
+    await fs.promises.writeFile(result.filePath, content, "utf8")
+    console.log("Saved file:", result.filePath)
+    return { success: true, filePath: result.filePath }
+  } catch (error) {
+    console.error("Failed to save file:", error)
+    return { success: false, error: error.message }
+  }
+})
+
+// Read a file chosen in a native open dialog (e.g. preset bundles) and hand its contents to the renderer
+ipcMain.handle("open-file", async (event, { title, filters }) => {
+  try {
+    const result = await dialog.showOpenDialog(mainWindow, { title, filters, properties: ["openFile"] })
+    if (result.canceled || result.filePaths.length === 0) {
+      return { success: false, canceled: true }
     }
 
+    const content = await fs.promises.readFile(result.filePaths[0], "utf8")
+    return { success: true, filePath: result.filePaths[0], content }
+  } catch (error) {
+    console.error("Failed to open file:", error)
+    return { success: false, error: error.message }
+  }
+})
+
+// Configuration files: the File menu picks the path, the renderer builds and parses the contents
+ipcMain.handle("config-read", async (event, filePath) => {
+  if (!configReadPaths.has(filePath)) {
+    return { success: false, error: "Configuration files can only be opened from the File menu" }
+  }
+  try {
+    const content = await fs.promises.readFile(filePath, "utf8")
+    return { success: true, content }
+  } catch (error) {
+    console.error("Failed to read configuration:", error)
+    return { success: false, error: error.message }
+  }
+})
+
+ipcMain.handle("config-write", async (event, filePath, content) => {
+  if (!configWritePaths.has(filePath)) {
+    return { success: false, error: "Configuration files can only be saved from the File menu" }
+  }
+  try {
+    await fs.promises.writeFile(filePath, content, "utf8")
+    console.log("Saved configuration:", filePath)
     return { success: true }
   } catch (error) {
-    console.error("Failed to write to serial port:", error)
+    console.error("Failed to write configuration:", error)
+    return { success: false, error: error.message }
+  }
+})
+
+// WebSocket bridge: settings and status for the header indicator, then the renderer's side of
+// the traffic (telemetry out, answers to client requests)
+ipcMain.handle("bridge-get-config", () => {
+  return { config: bridgeConfig, status: bridgeStatus() }
+})
+
+ipcMain.handle("bridge-set-config", async (event, config) => {
+  try {
+    saveBridgeConfig(bridgeConfigPath(), config)
+  } catch (error) {
+    console.error("Failed to save WebSocket bridge settings:", error)
+    return { success: false, error: error.message }
+  }
+  await applyBridgeConfig(config)
+  return bridgeError ? { success: false, error: bridgeError } : { success: true }
+})
+
+ipcMain.on("bridge-publish", (event, deviceId, sample) => {
+  bridge.publish(deviceId, sample)
+})
+
+ipcMain.on("bridge-respond", (event, requestId, result) => {
+  bridge.respond(requestId, result)
+})
+
+// OSC: settings and counters for the settings dialog, then telemetry from the visible surface
+ipcMain.handle("osc-get-config", () => {
+  return { config: oscConfig, status: oscStatus() }
+})
+
+ipcMain.handle("osc-set-config", async (event, config) => {
+  try {
+    saveOscConfig(oscConfigPath(), config)
+  } catch (error) {
+    console.error("Failed to save OSC settings:", error)
     return { success: false, error: error.message }
   }
+  await applyOscConfig(config)
+  return oscError ? { success: false, error: oscError } : { success: true }
 })
 
-ipcMain.handle("serial-is-connected", () => {
-  return global.serialPort && global.serialPort.isOpen
+ipcMain.on("osc-publish", (event, sample) => {
+  osc.publish(sample)
 })
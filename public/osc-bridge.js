@@ -0,0 +1,288 @@
+// Open Sound Control over UDP for audio and installation software. Telemetry published by the
+// visible control surface goes out as one float message per signal; incoming messages whose
+// address is mapped to an input are handed on (the "input" event) for that surface to apply.
+// Both directions are rate limited: output samples are dropped, and incoming values are coalesced
+// per address so the latest one is applied at most receiveRateHz times a second.
+const { EventEmitter } = require("events")
+const dgram = require("dgram")
+const fs = require("fs")
+
+const OUTPUTS = ["angle", "velocity", "torque"]
+const INPUTS = ["mode", "detents", "targetAngle"]
+
+const DEFAULT_OSC_CONFIG = {
+  enabled: false,
+  // 0.0.0.0 accepts messages from other computers
+  listenAddress: "127.0.0.1",
+  listenPort: 9000,
+  targetHost: "127.0.0.1",
+  targetPort: 9001,
+  sendRateHz: 30,
+  receiveRateHz: 20,
+  // An empty address turns that output or input off
+  addresses: {
+    angle: "/knob/angle",
+    velocity: "/knob/velocity",
+    torque: "/knob/torque",
+    mode: "/knob/mode",
+    detents: "/knob/detents",
+    targetAngle: "/knob/target",
+  },
+}
+
+const isPort = (value) => Number.isInteger(value) && value > 0 && value < 65536
+
+// Stored settings merged over the defaults, field by field
+function loadOscConfig(filePath) {
+  let stored = {}
+  try {
+    stored = JSON.parse(fs.readFileSync(filePath, "utf8"))
+  } catch {
+    return DEFAULT_OSC_CONFIG
+  }
+  const pick = (key, isValid) => (isValid(stored[key]) ? stored[key] : DEFAULT_OSC_CONFIG[key])
+  const isString = (value) => typeof value === "string" && value.length > 0
+  const isRate = (value) => typeof value === "number" && value > 0
+  const addresses = { ...DEFAULT_OSC_CONFIG.addresses }
+  for (const name of [...OUTPUTS, ...INPUTS]) {
+    if (typeof stored.addresses?.[name] === "string") addresses[name] = stored.addresses[name]
+  }
+  return {
+    enabled: stored.enabled === true,
+    listenAddress: pick("listenAddress", isString),
+    listenPort: pick("listenPort", isPort),
+    targetHost: pick("targetHost", isString),
+    targetPort: pick("targetPort", isPort),
+    sendRateHz: pick("sendRateHz", isRate),
+    receiveRateHz: pick("receiveRateHz", isRate),
+    addresses,
+  }
+}
+
+function saveOscConfig(filePath, config) {
+  fs.writeFileSync(filePath, JSON.stringify(config, null, 2))
+}
+
+// OSC 1.0 strings are NUL-terminated and padded to a multiple of four bytes
+function encodeString(value) {
+  const bytes = Buffer.from(value, "utf8")
+  return Buffer.concat([bytes, Buffer.alloc(4 - (bytes.length % 4))])
+}
+
+// args are { type: "f" | "i" | "s", value }
+function encodeMessage(address, args) {
+  const parts = [encodeString(address), encodeString("," + args.map((arg) => arg.type).join(""))]
+  for (const arg of args) {
+    if (arg.type === "s") {
+      parts.push(encodeString(arg.value))
+    } else {
+      const bytes = Buffer.alloc(4)
+      if (arg.type === "i") bytes.writeInt32BE(arg.value)
+      else bytes.writeFloatBE(arg.value)
+      parts.push(bytes)
+    }
+  }
+  return Buffer.concat(parts)
+}
+
+function readString(buffer, offset) {
+  const end = buffer.indexOf(0, offset)
+  if (end < 0) throw new Error("Unterminated string")
+  return { value: buffer.toString("utf8", offset, end), next: offset + (Math.floor((end - offset) / 4) + 1) * 4 }
+}
+
+// Returns every message in a packet as { address, args }, flattening bundles (their time tags
+// are ignored and the messages applied on arrival). Throws on malformed packets.
+function decodePacket(buffer) {
+  if (buffer.toString("ascii", 0, 8) === "#bundle\0") {
+    const messages = []
+    let offset = 16
+    while (offset + 4 <= buffer.length) {
+      const size = buffer.readInt32BE(offset)
+      if (size < 0 || offset + 4 + size > buffer.length) throw new Error("Bundle element overruns the packet")
+      messages.push(...decodePacket(buffer.subarray(offset + 4, offset + 4 + size)))
+      offset += 4 + size
+    }
+    return messages
+  }
+
+  const address = readString(buffer, 0)
+  if (!address.value.startsWith("/")) throw new Error("Not an OSC message")
+  if (address.next >= buffer.length) return [{ address: address.value, args: [] }]
+
+  const tags = readString(buffer, address.next)
+  if (!tags.value.startsWith(",")) throw new Error("Missing type tags")
+  const args = []
+  let offset = tags.next
+  for (const tag of tags.value.slice(1)) {
+    switch (tag) {
+      case "i":
+        args.push(buffer.readInt32BE(offset))
+        offset += 4
+        break
+      case "f":
+        args.push(buffer.readFloatBE(offset))
+        offset += 4
+        break
+      case "d":
+        args.push(buffer.readDoubleBE(offset))
+        offset += 8
+        break
+      case "h":
+        args.push(Number(buffer.readBigInt64BE(offset)))
+        offset += 8
+        break
+      case "s":
+      case "S": {
+        const string = readString(buffer, offset)
+        args.push(string.value)
+        offset = string.next
+        break
+      }
+      case "T":
+        args.push(true)
+        break
+      case "F":
+        args.push(false)
+        break
+      case "N":
+        args.push(null)
+        break
+      default:
+        throw new Error(`Unsupported argument type "${tag}"`)
+    }
+  }
+  return [{ address: address.value, args }]
+}
+
+class OscBridge extends EventEmitter {
+  constructor() {
+    super()
+    this.socket = null
+    this.config = null
+    this.lastSentAt = 0
+    // Per input address: when a value was last handed on, and the newest one waiting for its turn
+    this.inputs = new Map()
+    this.resetCounters()
+  }
+
+  get isRunning() {
+    return this.socket !== null
+  }
+
+  resetCounters() {
+    this.counters = { sent: 0, received: 0, coalesced: 0, rejected: 0 }
+    this.lastReceived = null
+  }
+
+  status() {
+    return {
+      running: this.isRunning,
+      ...this.counters,
+      // { address, args, from } of the last message that arrived, mapped or not
+      lastReceived: this.lastReceived,
+    }
+  }
+
+  async start(config) {
+    await this.stop()
+    this.resetCounters()
+
+    const socket = dgram.createSocket("udp4")
+    socket.on("message", (packet, remote) => this.receive(packet, remote))
+    await new Promise((resolve, reject) => {
+      socket.once("error", (error) => {
+        socket.close()
+        reject(error)
+      })
+      socket.bind(config.listenPort, config.listenAddress, () => {
+        socket.removeAllListeners("error")
+        resolve()
+      })
+    })
+    socket.on("error", (error) => {
+      console.error("OSC socket error:", error)
+      this.emit("error", error)
+    })
+
+    this.socket = socket
+    this.config = config
+    console.log(
+      `OSC listening on ${config.listenAddress}:${config.listenPort}, sending to ${config.targetHost}:${config.targetPort}`,
+    )
+    this.emit("status")
+  }
+
+  async stop() {
+    if (!this.socket) return
+    const socket = this.socket
+    this.socket = null
+    this.inputs.forEach(({ timer }) => timer && clearTimeout(timer))
+    this.inputs.clear()
+    await new Promise((resolve) => socket.close(() => resolve()))
+    console.log("OSC stopped")
+    this.emit("status")
+  }
+
+  // sample is { angle, velocity, torque }; dropped when it comes sooner than sendRateHz allows
+  publish(sample) {
+    if (!this.socket) return
+    const now = Date.now()
+    if (now - this.lastSentAt < 1000 / this.config.sendRateHz) return
+    this.lastSentAt = now
+
+    for (const name of OUTPUTS) {
+      const address = this.config.addresses[name]
+      if (!address || typeof sample[name] !== "number") continue
+      const packet = encodeMessage(address, [{ type: "f", value: sample[name] }])
+      this.socket.send(packet, this.config.targetPort, this.config.targetHost, (error) => {
+        if (error) console.error("Failed to send OSC message:", error)
+      })
+      this.counters.sent++
+    }
+  }
+
+  receive(packet, remote) {
+    let messages
+    try {
+      messages = decodePacket(packet)
+    } catch (error) {
+      this.counters.rejected++
+      console.error(`Ignoring malformed OSC packet from ${remote.address}:`, error.message)
+      return
+    }
+
+    for (const { address, args } of messages) {
+      this.counters.received++
+      this.lastReceived = { address, args, from: `${remote.address}:${remote.port}` }
+      const input = INPUTS.find((name) => this.config.addresses[name] === address)
+      if (input) this.throttleInput(address, input, args)
+    }
+  }
+
+  throttleInput(address, input, args) {
+    const state = this.inputs.get(address) ?? { lastAt: 0, pending: null, timer: null }
+    this.inputs.set(address, state)
+    const intervalMs = 1000 / this.config.receiveRateHz
+    const wait = state.lastAt + intervalMs - Date.now()
+
+    if (wait <= 0 && !state.timer) {
+      state.lastAt = Date.now()
+      this.emit("input", input, args)
+      return
+    }
+    if (state.pending) this.counters.coalesced++
+    state.pending = args
+    if (!state.timer) {
+      state.timer = setTimeout(() => {
+        state.timer = null
+        state.lastAt = Date.now()
+        const pending = state.pending
+        state.pending = null
+        this.emit("input", input, pending)
+      }, Math.max(0, wait))
+    }
+  }
+}
+
+module.exports = { OscBridge, loadOscConfig, saveOscConfig, encodeMessage, decodePacket, DEFAULT_OSC_CONFIG }
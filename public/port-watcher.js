@@ -0,0 +1,94 @@
+// Watches for serial devices being plugged in and removed.
+// serialport has no hot-plug events, so the port list is polled and diffed.
+const { EventEmitter } = require("events")
+const { SIMULATOR_PORT_INFO } = require("./simulator")
+
+const POLL_INTERVAL_MS = 1000
+
+// Real ports plus the simulator, which is always offered so the UI can be developed without hardware
+async function listSerialPorts() {
+  const { SerialPort } = require("serialport")
+  const ports = await SerialPort.list()
+  return [
+    ...ports.map((port) => ({
+      path: port.path,
+      manufacturer: port.manufacturer,
+      friendlyName: port.friendlyName,
+      serialNumber: port.serialNumber,
+      pnpId: port.pnpId,
+      locationId: port.locationId,
+      productId: port.productId,
+      vendorId: port.vendorId,
+    })),
+    SIMULATOR_PORT_INFO,
+  ]
+}
+
+// A device re-enumerated on the same path with a different serial number counts as replaced
+const portKey = (port) => `${port.path}|${port.serialNumber || ""}`
+
+class PortWatcher extends EventEmitter {
+  constructor(intervalMs = POLL_INTERVAL_MS) {
+    super()
+    this.intervalMs = intervalMs
+    this.isRunning = false
+    this.timer = null
+    this.ports = null
+    this.hasReportedError = false
+  }
+
+  // The next poll is scheduled once the previous one finishes, so a slow port listing never
+  // overlaps another
+  start() {
+    if (this.isRunning) return
+    this.isRunning = true
+    this.scheduleNext(0)
+  }
+
+  stop() {
+    this.isRunning = false
+    clearTimeout(this.timer)
+    this.timer = null
+  }
+
+  scheduleNext(delayMs) {
+    this.timer = setTimeout(async () => {
+      this.timer = null
+      await this.poll()
+      // A stop() and start() during the poll has already scheduled the next one
+      if (this.isRunning && !this.timer) this.scheduleNext(this.intervalMs)
+    }, delayMs)
+  }
+
+  async poll() {
+    let ports
+    try {
+      ports = await listSerialPorts()
+      this.hasReportedError = false
+    } catch (error) {
+      // Report once rather than every second while serial support is broken
+      if (!this.hasReportedError) {
+        this.hasReportedError = true
+        this.emit("error", error)
+      }
+      return
+    }
+
+    // The first scan is the baseline; devices already present weren't "plugged in"
+    const previous = this.ports
+    this.ports = ports
+    if (!previous) return
+
+    const previousKeys = new Set(previous.map(portKey))
+    const currentKeys = new Set(ports.map(portKey))
+    const added = ports.filter((port) => !previousKeys.has(portKey(port)))
+    const removed = previous.filter((port) => !currentKeys.has(portKey(port)))
+
+    if (added.length > 0 || removed.length > 0) {
+      console.log("Serial ports changed:", { added, removed })
+      this.emit("changed", { ports, added, removed })
+    }
+  }
+}
+
+module.exports = { PortWatcher, listSerialPorts }
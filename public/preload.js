@@ -1,36 +1,65 @@
 // Preload script for Electron
 const { contextBridge, ipcRenderer } = require("electron")
 
+// Subscribe to a main-process event; returns a function that removes just this listener,
+// so several control surfaces can listen on the same channel
+const subscribe = (channel, callback) => {
+  ipcRenderer.on(channel, callback)
+  return () => ipcRenderer.removeListener(channel, callback)
+}
+
 // Expose protected methods that allow the renderer process to use
 // the ipcRenderer without exposing the entire object
 contextBridge.exposeInMainWorld("electronAPI", {
   // Serial port methods
   serialListPorts: () => ipcRenderer.invoke("serial-list-ports"),
-  serialConnect: (portPath, baudRate) => ipcRenderer.invoke("serial-connect", portPath, baudRate),
-  serialDisconnect: () => ipcRenderer.invoke("serial-disconnect"),
-  serialWrite: (data) => ipcRenderer.invoke("serial-write", data),
-  serialIsConnected: () => ipcRenderer.invoke("serial-is-connected"),
+  serialConnect: (portPath, baudRate, deviceId) => ipcRenderer.invoke("serial-connect", portPath, baudRate, deviceId),
+  serialDisconnect: (deviceId) => ipcRenderer.invoke("serial-disconnect", deviceId),
+  serialWrite: (deviceId, data) => ipcRenderer.invoke("serial-write", deviceId, data),
+  serialIsConnected: (deviceId) => ipcRenderer.invoke("serial-is-connected", deviceId),
+  serialListDevices: () => ipcRenderer.invoke("serial-devices"),
 
-  // Serial port event listeners
-  onSerialData: (callback) => ipcRenderer.on("serial-data", callback),
-  onSerialError: (callback) => ipcRenderer.on("serial-error", callback),
-  onSerialDisconnected: (callback) => ipcRenderer.on("serial-disconnected", callback),
+  // Serial port event listeners; callbacks receive the device id before the payload
+  onSerialData: (callback) => subscribe("serial-data", callback),
+  onSerialError: (callback) => subscribe("serial-error", callback),
+  onSerialDisconnected: (callback) => subscribe("serial-disconnected", callback),
+  // Devices plugged in or removed: { ports, added, removed }
+  onPortsChanged: (callback) => subscribe("ports-changed", callback),
 
   // Remove listeners
   removeAllListeners: (channel) => ipcRenderer.removeAllListeners(channel),
 
   // App methods
   getAppPath: () => ipcRenderer.sendSync("get-app-path"),
+  saveFile: (options) => ipcRenderer.invoke("save-file", options),
+  openFile: (options) => ipcRenderer.invoke("open-file", options),
+  readConfigFile: (filePath) => ipcRenderer.invoke("config-read", filePath),
+  writeConfigFile: (filePath, content) => ipcRenderer.invoke("config-write", filePath, content),
+
+  // WebSocket bridge
+  bridgeGetConfig: () => ipcRenderer.invoke("bridge-get-config"),
+  bridgeSetConfig: (config) => ipcRenderer.invoke("bridge-set-config", config),
+  bridgePublish: (deviceId, sample) => ipcRenderer.send("bridge-publish", deviceId, sample),
+  bridgeRespond: (requestId, result) => ipcRenderer.send("bridge-respond", requestId, result),
+  onBridgeStatus: (callback) => subscribe("bridge-status", callback),
+  onBridgeRequest: (callback) => subscribe("bridge-request", callback),
+
+  // OSC over UDP
+  oscGetConfig: () => ipcRenderer.invoke("osc-get-config"),
+  oscSetConfig: (config) => ipcRenderer.invoke("osc-set-config", config),
+  oscPublish: (sample) => ipcRenderer.send("osc-publish", sample),
+  onOscStatus: (callback) => subscribe("osc-status", callback),
+  onOscInput: (callback) => subscribe("osc-input", callback),
 
   // Menu event listeners
-  onResetConfig: (callback) => ipcRenderer.on("reset-config", callback),
-  onSaveConfig: (callback) => ipcRenderer.on("save-config", callback),
-  onLoadConfig: (callback) => ipcRenderer.on("load-config", callback),
-  onScanPorts: (callback) => ipcRenderer.on("scan-ports", callback),
-  onConnectDevice: (callback) => ipcRenderer.on("connect-device", callback),
-  onDisconnectDevice: (callback) => ipcRenderer.on("disconnect-device", callback),
-  onResetDevice: (callback) => ipcRenderer.on("reset-device", callback),
-  onCalibrateDevice: (callback) => ipcRenderer.on("calibrate-device", callback),
+  onResetConfig: (callback) => subscribe("reset-config", callback),
+  onSaveConfig: (callback) => subscribe("save-config", callback),
+  onLoadConfig: (callback) => subscribe("load-config", callback),
+  onScanPorts: (callback) => subscribe("scan-ports", callback),
+  onConnectDevice: (callback) => subscribe("connect-device", callback),
+  onDisconnectDevice: (callback) => subscribe("disconnect-device", callback),
+  onResetDevice: (callback) => subscribe("reset-device", callback),
+  onCalibrateDevice: (callback) => subscribe("calibrate-device", callback),
 })
 
 // Expose electron flag immediately
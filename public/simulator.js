@@ -0,0 +1,293 @@
+// Software model of a Mini TFD that speaks the line protocol, used as a serial port
+// when no hardware is attached. Angles are in degrees, velocity in RPM, torque in Nm.
+const { EventEmitter } = require("events")
+
+const SIMULATOR_PORT_PATH = "simulator://mini-tfd"
+
+const SIMULATOR_PORT_INFO = {
+  path: SIMULATOR_PORT_PATH,
+  manufacturer: "Simulator",
+  friendlyName: "Simulated Mini TFD",
+  serialNumber: "SIM-0001",
+  productId: "SIM",
+  vendorId: "SIM",
+}
+
+// Reply to "get id": the simulator behaves like current knob firmware with every effect
+const IDENTITY = [
+  "type=knob",
+  "fw=sim-1.0.0",
+  `sn=${SIMULATOR_PORT_INFO.serialNumber}`,
+  "proto=2",
+  "effects=normal,detent,detent-table,cw,ccw,constant,endstops,endstop-offset,proportional,inertial,latch,sticky,stream",
+  "max_torque=2.0",
+  "max_turns=10",
+].join(";")
+
+const TICK_MS = 5
+const INERTIA = 0.002 // kg·m²
+const FRICTION = 0.0004 // Nm per deg/s
+const DEG_PER_RAD = 180 / Math.PI
+const MAX_TORQUE = 2.0
+
+// Simulated hand: slowly sweeps the knob back and forth so every mode has something to push against
+const HAND_SWEEP_DEG = 270
+const HAND_PERIOD_MS = 8000
+const HAND_STIFFNESS = 0.004 // Nm per degree
+const HAND_MAX_TORQUE = 0.6
+
+// Detent spacing (degrees) and peak torque per firmware strength
+const DETENTS = {
+  ultra: { spacing: 5, strength: 0.08 },
+  fine: { spacing: 15, strength: 0.15 },
+  coarse: { spacing: 30, strength: 0.3 },
+}
+
+const ENDSTOP_STIFFNESS = 0.05 // Nm per degree past the wall
+const LATCH_POSITIONS = [-45, 45]
+
+const clamp = (value, min, max) => Math.max(min, Math.min(max, value))
+
+// Restoring torque towards the nearest detent, shaped as a sine over one spacing
+function detentTorque(angle, spacing, strength) {
+  return -strength * Math.sin((2 * Math.PI * angle) / spacing)
+}
+
+class SimulatedTFD extends EventEmitter {
+  constructor() {
+    super()
+    this.isOpen = false
+    this.path = SIMULATOR_PORT_PATH
+    this.angle = 0
+    this.velocity = 0 // deg/s internally
+    this.torque = 0
+    this.elapsedMs = 0
+    this.effect = { type: "normal" }
+    this.isSticky = false
+    this.streamTimer = null
+    this.tickTimer = null
+    this.lastTick = 0
+  }
+
+  open(callback) {
+    this.isOpen = true
+    this.lastTick = Date.now()
+    this.tickTimer = setInterval(() => this.tick(), TICK_MS)
+    setImmediate(() => callback && callback(null))
+  }
+
+  write(data, callback) {
+    if (!this.isOpen) {
+      setImmediate(() => callback && callback(new Error("Simulated port is not open")))
+      return
+    }
+
+    String(data)
+      .split("\n")
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .forEach((line) => this.handleLine(line))
+
+    setImmediate(() => callback && callback(null))
+  }
+
+  drain(callback) {
+    setImmediate(() => callback && callback(null))
+  }
+
+  close(callback) {
+    if (this.tickTimer) clearInterval(this.tickTimer)
+    if (this.streamTimer) clearInterval(this.streamTimer)
+    this.tickTimer = null
+    this.streamTimer = null
+
+    const wasOpen = this.isOpen
+    this.isOpen = false
+    setImmediate(() => {
+      if (callback) callback(null)
+      if (wasOpen) this.emit("close")
+    })
+  }
+
+  reply(line) {
+    // Replies are asynchronous like a real port
+    setImmediate(() => {
+      if (this.isOpen) this.emit("data", line)
+    })
+  }
+
+  telemetryLine() {
+    const rpm = this.velocity / 6
+    return `ANGLE:${this.angle.toFixed(2)},VEL:${rpm.toFixed(2)},TORQUE:${this.torque.toFixed(3)}`
+  }
+
+  handleLine(line) {
+    if (line === "get all") return this.reply(this.telemetryLine())
+    if (line === "get vel") return this.reply((this.velocity / 6).toFixed(2))
+    if (line === "get torque") return this.reply(this.torque.toFixed(3))
+    if (line === "get id") return this.reply(`ID:${IDENTITY}`)
+
+    const match = line.match(/^set ([a-z-]+)(?::(.*))?$/)
+    if (!match) return this.reply(`ERR unknown command: ${line}`)
+
+    const [, name, rawArgs = ""] = match
+    const args = rawArgs.split(",").map((arg) => Number.parseFloat(arg))
+
+    switch (name) {
+      case "normal":
+      case "cw":
+      case "ccw":
+      case "latch":
+        this.effect = { type: name }
+        break
+      case "detent":
+        if (rawArgs !== "center" && !DETENTS[rawArgs]) return this.reply(`ERR unknown detent: ${rawArgs}`)
+        this.effect = { type: "detent", strength: rawArgs }
+        break
+      case "detent-table": {
+        // angle,strength,width per detent, separated by ";"
+        const detents = rawArgs.split(";").map((entry) => {
+          const [angle, strength, width] = entry.split(",").map((value) => Number.parseFloat(value))
+          return { angle, strength, width }
+        })
+        if (detents.some((detent) => [detent.angle, detent.strength, detent.width].some(isNaN) || detent.width <= 0)) {
+          return this.reply("ERR detent-table needs angle,strength,width entries")
+        }
+        this.effect = { type: "detent-table", detents }
+        break
+      }
+      case "constant":
+        if (isNaN(args[0])) return this.reply("ERR constant needs a torque")
+        this.effect = { type: "constant", torque: args[0] }
+        break
+      case "proportional":
+        if (isNaN(args[0]) || isNaN(args[1])) return this.reply("ERR proportional needs target,stiffness")
+        this.effect = { type: "proportional", target: args[0], stiffness: args[1] }
+        break
+      case "inertial":
+        if (isNaN(args[0])) return this.reply("ERR inertial needs a factor")
+        this.effect = { type: "inertial", factor: args[0] }
+        break
+      case "sticky":
+        this.isSticky = rawArgs === "on"
+        break
+      case "zero":
+        this.angle = 0
+        this.velocity = 0
+        break
+      case "stream":
+        if (isNaN(args[0])) return this.reply("ERR stream needs a rate")
+        this.setStreamRate(args[0])
+        break
+      default: {
+        const endstops = name.match(/^endstops(?:-(proportional|ultra|fine|coarse|center))?$/)
+        if (!endstops || isNaN(args[0])) return this.reply(`ERR unknown command: ${line}`)
+        // Optional second argument: the angle the range is centred on
+        const center = isNaN(args[1]) ? 0 : args[1]
+        this.effect = { type: "endstops", turns: args[0], center, variant: endstops[1] || "none" }
+      }
+    }
+
+    this.reply("OK")
+  }
+
+  setStreamRate(rateHz) {
+    if (this.streamTimer) clearInterval(this.streamTimer)
+    this.streamTimer = null
+    if (rateHz <= 0) return
+    this.streamTimer = setInterval(() => this.reply(this.telemetryLine()), 1000 / rateHz)
+  }
+
+  // Torque the motor applies for the current effect
+  effectTorque() {
+    const { effect, angle, velocity } = this
+
+    switch (effect.type) {
+      case "detent":
+        if (effect.strength === "center") {
+          return Math.abs(angle) < 20 ? detentTorque(angle, 40, 0.3) : 0
+        }
+        return detentTorque(angle, DETENTS[effect.strength].spacing, DETENTS[effect.strength].strength)
+      case "detent-table":
+        // Each detent pulls towards its angle over one sine period spanning its width
+        return effect.detents.reduce((torque, detent) => {
+          const offset = ((((angle - detent.angle) % 360) + 540) % 360) - 180
+          return Math.abs(offset) < detent.width / 2 ? torque + detentTorque(offset, detent.width, detent.strength) : torque
+        }, 0)
+      case "cw":
+        return 0.15
+      case "ccw":
+        return -0.15
+      case "constant":
+        // Resists motion like heavy damping
+        return -Math.sign(velocity) * effect.torque
+      case "proportional":
+        return -effect.stiffness * 0.01 * (angle - effect.target)
+      case "inertial":
+        // Extra virtual mass shows up as torque opposing velocity changes
+        return -effect.factor * 0.001 * velocity
+      case "latch": {
+        const nearest = angle < 0 ? LATCH_POSITIONS[0] : LATCH_POSITIONS[1]
+        return -0.008 * (angle - nearest)
+      }
+      case "endstops": {
+        const min = effect.center - effect.turns * 180
+        const max = effect.center + effect.turns * 180
+        let torque = 0
+        if (angle > max) torque = -ENDSTOP_STIFFNESS * (angle - max)
+        if (angle < min) torque = ENDSTOP_STIFFNESS * (min - angle)
+        if (torque !== 0 && this.isSticky) torque -= Math.sign(velocity) * 0.1
+
+        switch (effect.variant) {
+          case "proportional":
+            return torque - 0.002 * (angle - effect.center)
+          case "ultra":
+          case "fine":
+          case "coarse":
+            return torque + detentTorque(angle, DETENTS[effect.variant].spacing, DETENTS[effect.variant].strength)
+          case "center":
+            return torque + (Math.abs(angle - effect.center) < 20 ? detentTorque(angle - effect.center, 40, 0.3) : 0)
+          default:
+            return torque
+        }
+      }
+      default:
+        return 0
+    }
+  }
+
+  // Timers drift, so integrate the real elapsed time in fixed sub-steps
+  tick() {
+    const now = Date.now()
+    let remainingMs = Math.min(now - this.lastTick, 100)
+    this.lastTick = now
+
+    while (remainingMs > 0) {
+      const stepMs = Math.min(TICK_MS, remainingMs)
+      this.step(stepMs / 1000)
+      remainingMs -= stepMs
+    }
+  }
+
+  step(dt) {
+    this.elapsedMs += dt * 1000
+
+    const handTarget = HAND_SWEEP_DEG * Math.sin((2 * Math.PI * this.elapsedMs) / HAND_PERIOD_MS)
+    const handTorque = clamp(HAND_STIFFNESS * (handTarget - this.angle), -HAND_MAX_TORQUE, HAND_MAX_TORQUE)
+
+    this.torque = clamp(this.effectTorque(), -MAX_TORQUE, MAX_TORQUE)
+
+    // Lock holds the shaft in place regardless of the hand
+    if (this.effect.type === "constant" && this.effect.torque >= 1.0) {
+      this.velocity = 0
+      return
+    }
+
+    const inertia = this.effect.type === "inertial" ? INERTIA * (1 + this.effect.factor * 4) : INERTIA
+    const acceleration = ((handTorque + this.torque - FRICTION * this.velocity) / inertia) * DEG_PER_RAD
+    this.velocity += acceleration * dt
+    this.angle += this.velocity * dt
+  }
+}
+
+module.exports = { SimulatedTFD, SIMULATOR_PORT_PATH, SIMULATOR_PORT_INFO }
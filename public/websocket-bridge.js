@@ -0,0 +1,353 @@
+// Localhost WebSocket server that lets other applications read telemetry and send commands.
+// The serial ports stay with the device manager: telemetry is published here by the control
+// surfaces, and client requests are handed to the surface that owns the device (the "request"
+// event) and answered through respond(). Only the handful of RFC 6455 features the bridge needs
+// are implemented: text frames, fragmentation, ping/pong and close.
+const { EventEmitter } = require("events")
+const crypto = require("crypto")
+const fs = require("fs")
+const http = require("http")
+
+const BRIDGE_PROTOCOL_VERSION = 1
+const DEFAULT_BRIDGE_PORT = 8765
+const HANDSHAKE_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11"
+const MAX_MESSAGE_BYTES = 1024 * 1024
+// A surface that doesn't answer (e.g. it was closed mid-request) fails the request
+const REQUEST_TIMEOUT_MS = 5000
+
+const OPCODES = { continuation: 0x0, text: 0x1, binary: 0x2, close: 0x8, ping: 0x9, pong: 0xa }
+
+const createToken = () => crypto.randomBytes(16).toString("hex")
+
+// { enabled, port, token }, kept next to the app's other per-user files. Without a file the
+// bridge starts disabled with a fresh token, which is stored once the settings are saved.
+function loadBridgeConfig(filePath) {
+  try {
+    const stored = JSON.parse(fs.readFileSync(filePath, "utf8"))
+    return {
+      enabled: stored.enabled === true,
+      port: Number.isInteger(stored.port) ? stored.port : DEFAULT_BRIDGE_PORT,
+      token: typeof stored.token === "string" && stored.token ? stored.token : createToken(),
+    }
+  } catch {
+    return { enabled: false, port: DEFAULT_BRIDGE_PORT, token: createToken() }
+  }
+}
+
+function saveBridgeConfig(filePath, config) {
+  fs.writeFileSync(filePath, JSON.stringify(config, null, 2))
+}
+
+function encodeFrame(opcode, payload) {
+  const length = payload.length
+  const header =
+    length < 126 ? Buffer.alloc(2) : length < 0x10000 ? Buffer.alloc(4) : Buffer.alloc(10)
+  header[0] = 0x80 | opcode
+  if (length < 126) {
+    header[1] = length
+  } else if (length < 0x10000) {
+    header[1] = 126
+    header.writeUInt16BE(length, 2)
+  } else {
+    header[1] = 127
+    header.writeBigUInt64BE(BigInt(length), 2)
+  }
+  return Buffer.concat([header, payload])
+}
+
+// One connected client: frames in, JSON messages out
+class BridgeClient extends EventEmitter {
+  constructor(id, socket) {
+    super()
+    this.id = id
+    this.socket = socket
+    this.buffer = Buffer.alloc(0)
+    this.fragments = []
+    // Device ids whose telemetry this client wants ("*" for all), and the most it wants per second
+    this.subscription = { devices: [], rateHz: 0 }
+    this.lastSentAt = new Map()
+    this.isClosed = false
+
+    socket.on("data", (chunk) => this.receive(chunk))
+    socket.on("close", () => this.handleClose())
+    socket.on("error", () => socket.destroy())
+  }
+
+  send(message) {
+    if (this.isClosed) return
+    this.socket.write(encodeFrame(OPCODES.text, Buffer.from(JSON.stringify(message))))
+  }
+
+  close(code = 1000, reason = "") {
+    if (this.isClosed) return
+    const payload = Buffer.alloc(2 + Buffer.byteLength(reason))
+    payload.writeUInt16BE(code, 0)
+    payload.write(reason, 2)
+    this.socket.end(encodeFrame(OPCODES.close, payload))
+    this.handleClose()
+  }
+
+  wantsTelemetry(deviceId, now) {
+    const { devices, rateHz } = this.subscription
+    if (!devices.includes("*") && !devices.includes(deviceId)) return false
+    if (rateHz > 0 && now - (this.lastSentAt.get(deviceId) ?? 0) < 1000 / rateHz) return false
+    this.lastSentAt.set(deviceId, now)
+    return true
+  }
+
+  handleClose() {
+    if (this.isClosed) return
+    this.isClosed = true
+    this.emit("close")
+  }
+
+  receive(chunk) {
+    this.buffer = Buffer.concat([this.buffer, chunk])
+
+    while (this.buffer.length >= 2) {
+      const isFinal = (this.buffer[0] & 0x80) !== 0
+      const opcode = this.buffer[0] & 0x0f
+      const isMasked = (this.buffer[1] & 0x80) !== 0
+      let length = this.buffer[1] & 0x7f
+      let offset = 2
+
+      if (length === 126) {
+        if (this.buffer.length < 4) return
+        length = this.buffer.readUInt16BE(2)
+        offset = 4
+      } else if (length === 127) {
+        if (this.buffer.length < 10) return
+        length = Number(this.buffer.readBigUInt64BE(2))
+        offset = 10
+      }
+
+      // Clients must mask every frame
+      if (!isMasked) return this.close(1002, "Frames must be masked")
+      if (length > MAX_MESSAGE_BYTES) return this.close(1009, "Message too large")
+      if (this.buffer.length < offset + 4 + length) return
+
+      const mask = this.buffer.subarray(offset, offset + 4)
+      const payload = Buffer.from(this.buffer.subarray(offset + 4, offset + 4 + length))
+      for (let index = 0; index < payload.length; index++) payload[index] ^= mask[index % 4]
+      this.buffer = this.buffer.subarray(offset + 4 + length)
+
+      this.handleFrame(isFinal, opcode, payload)
+      if (this.isClosed) return
+    }
+  }
+
+  handleFrame(isFinal, opcode, payload) {
+    switch (opcode) {
+      case OPCODES.ping:
+        this.socket.write(encodeFrame(OPCODES.pong, payload))
+        return
+      case OPCODES.pong:
+        return
+      case OPCODES.close:
+        this.close()
+        return
+      case OPCODES.binary:
+        this.close(1003, "Only text (JSON) messages are accepted")
+        return
+      case OPCODES.text:
+      case OPCODES.continuation: {
+        this.fragments.push(payload)
+        const size = this.fragments.reduce((total, fragment) => total + fragment.length, 0)
+        if (size > MAX_MESSAGE_BYTES) return this.close(1009, "Message too large")
+        if (!isFinal) return
+
+        const text = Buffer.concat(this.fragments).toString("utf8")
+        this.fragments = []
+        let message
+        try {
+          message = JSON.parse(text)
+        } catch {
+          this.send({ type: "error", error: "Messages must be JSON" })
+          return
+        }
+        this.emit("message", message)
+        return
+      }
+      default:
+        this.close(1002, "Unknown opcode")
+    }
+  }
+}
+
+class WebSocketBridge extends EventEmitter {
+  // listDevices returns the open devices as { id, path, baudRate }
+  constructor(listDevices) {
+    super()
+    this.listDevices = listDevices
+    this.server = null
+    this.port = null
+    this.token = null
+    this.clients = new Map()
+    this.nextClientId = 1
+    this.nextRequestId = 1
+    this.pendingRequests = new Map()
+  }
+
+  get isRunning() {
+    return this.server !== null
+  }
+
+  status() {
+    return {
+      running: this.isRunning,
+      port: this.port,
+      clients: Array.from(this.clients.values()).map((client) => ({
+        id: client.id,
+        devices: client.subscription.devices,
+        rateHz: client.subscription.rateHz,
+      })),
+    }
+  }
+
+  // Restarts on a new port or token; connected clients are dropped
+  async start({ port, token }) {
+    await this.stop()
+
+    const server = http.createServer((request, response) => {
+      response.writeHead(426, { "Content-Type": "text/plain" })
+      response.end("WebSocket connections only\n")
+    })
+    server.on("upgrade", (request, socket) => this.handleUpgrade(request, socket))
+
+    await new Promise((resolve, reject) => {
+      server.once("error", reject)
+      // Loopback only: the bridge is for applications on this machine
+      server.listen(port, "127.0.0.1", () => {
+        server.off("error", reject)
+        resolve()
+      })
+    })
+
+    this.server = server
+    this.port = port
+    this.token = token
+    console.log(`WebSocket bridge listening on ws://127.0.0.1:${port}`)
+    this.emit("status")
+  }
+
+  async stop() {
+    if (!this.server) return
+    const server = this.server
+    this.server = null
+    this.port = null
+    this.clients.forEach((client) => client.close(1001, "Bridge stopped"))
+    this.clients.clear()
+    this.pendingRequests.forEach(({ timer }) => clearTimeout(timer))
+    this.pendingRequests.clear()
+    await new Promise((resolve) => server.close(() => resolve()))
+    console.log("WebSocket bridge stopped")
+    this.emit("status")
+  }
+
+  publish(deviceId, sample) {
+    const now = Date.now()
+    this.clients.forEach((client) => {
+      if (client.wantsTelemetry(deviceId, now)) {
+        client.send({ type: "telemetry", deviceId, ...sample })
+      }
+    })
+  }
+
+  // Answer to a "request" event: { ok: true } or { ok: false, error }
+  respond(requestId, result) {
+    const pending = this.pendingRequests.get(requestId)
+    if (!pending) return
+    clearTimeout(pending.timer)
+    this.pendingRequests.delete(requestId)
+    pending.client.send({ type: "result", id: pending.messageId, ...result })
+  }
+
+  handleUpgrade(request, socket) {
+    const url = new URL(request.url, "http://127.0.0.1")
+    const bearer = (request.headers.authorization || "").replace(/^Bearer\s+/i, "")
+    const token = url.searchParams.get("token") || bearer
+    const key = request.headers["sec-websocket-key"]
+
+    const reject = (status, message) => {
+      socket.end(`HTTP/1.1 ${status} ${message}\r\nConnection: close\r\n\r\n`)
+    }
+    if (!key || (request.headers.upgrade || "").toLowerCase() !== "websocket") return reject(400, "Bad Request")
+    if (!this.token || !timingSafeEqual(token, this.token)) return reject(401, "Unauthorized")
+
+    const accept = crypto.createHash("sha1").update(key + HANDSHAKE_GUID).digest("base64")
+    socket.write(
+      [
+        "HTTP/1.1 101 Switching Protocols",
+        "Upgrade: websocket",
+        "Connection: Upgrade",
+        `Sec-WebSocket-Accept: ${accept}`,
+        "",
+        "",
+      ].join("\r\n"),
+    )
+    socket.setNoDelay(true)
+
+    const client = new BridgeClient(`client-${this.nextClientId++}`, socket)
+    this.clients.set(client.id, client)
+    client.on("message", (message) => this.handleMessage(client, message))
+    client.on("close", () => {
+      this.clients.delete(client.id)
+      this.emit("status")
+    })
+    client.send({ type: "hello", version: BRIDGE_PROTOCOL_VERSION, clientId: client.id, devices: this.listDevices() })
+    this.emit("status")
+  }
+
+  handleMessage(client, message) {
+    const messageId = message && message.id
+    const fail = (error) => client.send({ type: "result", id: messageId, ok: false, error })
+
+    switch (message && message.type) {
+      case "list-devices":
+        client.send({ type: "devices", id: messageId, devices: this.listDevices() })
+        return
+      case "subscribe": {
+        const devices = message.devices === "*" ? ["*"] : message.devices
+        const rateHz = message.rateHz === undefined ? 0 : message.rateHz
+        if (!Array.isArray(devices) || !devices.every((device) => typeof device === "string")) {
+          return fail('devices must be "*" or a list of device ids')
+        }
+        if (typeof rateHz !== "number" || !(rateHz >= 0)) return fail("rateHz must be a number of at least 0")
+        client.subscription = { devices, rateHz }
+        client.send({ type: "result", id: messageId, ok: true })
+        this.emit("status")
+        return
+      }
+      case "unsubscribe":
+        client.subscription = { devices: [], rateHz: 0 }
+        client.send({ type: "result", id: messageId, ok: true })
+        this.emit("status")
+        return
+      case "command":
+      case "settings": {
+        const deviceId = message.deviceId
+        if (!this.listDevices().some((device) => device.id === deviceId)) {
+          return fail(`No connected device ${JSON.stringify(deviceId)}`)
+        }
+        const requestId = this.nextRequestId++
+        const timer = setTimeout(() => {
+          this.pendingRequests.delete(requestId)
+          fail("The device's control surface did not respond")
+        }, REQUEST_TIMEOUT_MS)
+        this.pendingRequests.set(requestId, { client, messageId, timer })
+        this.emit("request", requestId, deviceId, message)
+        return
+      }
+      default:
+        fail("type must be one of list-devices, subscribe, unsubscribe, command, settings")
+    }
+  }
+}
+
+function timingSafeEqual(a, b) {
+  const left = Buffer.from(String(a))
+  const right = Buffer.from(String(b))
+  return left.length === right.length && crypto.timingSafeEqual(left, right)
+}
+
+module.exports = { WebSocketBridge, loadBridgeConfig, saveBridgeConfig, DEFAULT_BRIDGE_PORT }
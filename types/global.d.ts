@@ -3,31 +3,145 @@ interface Window {
     electronAPI?: {
       // Serial port methods
       serialListPorts: () => Promise<any[]>
-      serialConnect: (portPath: string, baudRate: number) => Promise<{ success: boolean; error?: string }>
-      serialDisconnect: () => Promise<{ success: boolean; error?: string }>
-      serialWrite: (data: string) => Promise<{ success: boolean; error?: string }>
-      serialIsConnected: () => Promise<boolean>
+      // Passing a device id reuses it for the new connection
+      serialConnect: (
+        portPath: string,
+        baudRate: number,
+        deviceId?: string,
+      ) => Promise<{ success: boolean; deviceId?: string; error?: string }>
+      serialDisconnect: (deviceId: string) => Promise<{ success: boolean; error?: string }>
+      serialWrite: (deviceId: string, data: string) => Promise<{ success: boolean; error?: string }>
+      serialIsConnected: (deviceId: string) => Promise<boolean>
+      serialListDevices: () => Promise<{ id: string; path: string; baudRate: number }[]>
   
-      // Serial port event listeners
-      onSerialData: (callback: (event: any, data: string) => void) => void
-      onSerialError: (callback: (event: any, error: string) => void) => void
-      onSerialDisconnected: (callback: () => void) => void
+      // Serial port event listeners, tagged with the device id; each returns an unsubscribe function
+      onSerialData: (callback: (event: any, deviceId: string, data: string) => void) => () => void
+      onSerialError: (callback: (event: any, deviceId: string | null, error: string) => void) => () => void
+      onSerialDisconnected: (callback: (event: any, deviceId: string) => void) => () => void
+      // Hot-plug: the full port list plus the ports that appeared and disappeared since the last change
+      onPortsChanged: (
+        callback: (event: any, change: { ports: any[]; added: any[]; removed: any[] }) => void,
+      ) => () => void
   
       // Remove listeners
       removeAllListeners: (channel: string) => void
   
       // App methods
       getAppPath: () => string
+
+      // Writes renderer-generated content to a file chosen in a native save dialog
+      saveFile: (options: {
+        title: string
+        defaultPath: string
+        filters: { name: string; extensions: string[] }[]
+        content: string
+      }) => Promise<{ success: boolean; canceled?: boolean; filePath?: string; error?: string }>
+
+      // Reads a file chosen in a native open dialog
+      openFile: (options: {
+        title: string
+        filters: { name: string; extensions: string[] }[]
+      }) => Promise<{ success: boolean; canceled?: boolean; filePath?: string; content?: string; error?: string }>
+
+      // Configuration files chosen from the File menu
+      readConfigFile: (filePath: string) => Promise<{ success: boolean; content?: string; error?: string }>
+      writeConfigFile: (filePath: string, content: string) => Promise<{ success: boolean; error?: string }>
+
+      // WebSocket bridge: settings, the server's status, telemetry out and answers to client requests
+      bridgeGetConfig: () => Promise<{
+        config: { enabled: boolean; port: number; token: string }
+        status: {
+          running: boolean
+          port: number | null
+          clients: { id: string; devices: string[]; rateHz: number }[]
+          error: string | null
+        }
+      }>
+      bridgeSetConfig: (config: {
+        enabled: boolean
+        port: number
+        token: string
+      }) => Promise<{ success: boolean; error?: string }>
+      bridgePublish: (
+        deviceId: string,
+        sample: { time: number; angle: number; velocity: number; torque: number },
+      ) => void
+      bridgeRespond: (requestId: number, result: { ok: boolean; error?: string }) => void
+      onBridgeStatus: (
+        callback: (
+          event: any,
+          status: {
+            running: boolean
+            port: number | null
+            clients: { id: string; devices: string[]; rateHz: number }[]
+            error: string | null
+          },
+        ) => void,
+      ) => () => void
+      // Client messages of type "command" or "settings" for a connected device, still unvalidated
+      onBridgeRequest: (callback: (event: any, requestId: number, deviceId: string, message: any) => void) => () => void
+
+      // OSC over UDP; the config matches OscConfig in lib/osc.ts
+      oscGetConfig: () => Promise<{
+        config: {
+          enabled: boolean
+          listenAddress: string
+          listenPort: number
+          targetHost: string
+          targetPort: number
+          sendRateHz: number
+          receiveRateHz: number
+          addresses: Record<"angle" | "velocity" | "torque" | "mode" | "detents" | "targetAngle", string>
+        }
+        status: {
+          running: boolean
+          sent: number
+          received: number
+          coalesced: number
+          rejected: number
+          lastReceived: { address: string; args: unknown[]; from: string } | null
+          error: string | null
+        }
+      }>
+      oscSetConfig: (config: {
+        enabled: boolean
+        listenAddress: string
+        listenPort: number
+        targetHost: string
+        targetPort: number
+        sendRateHz: number
+        receiveRateHz: number
+        addresses: Record<"angle" | "velocity" | "torque" | "mode" | "detents" | "targetAngle", string>
+      }) => Promise<{ success: boolean; error?: string }>
+      oscPublish: (sample: { angle: number; velocity: number; torque: number }) => void
+      onOscStatus: (
+        callback: (
+          event: any,
+          status: {
+            running: boolean
+            sent: number
+            received: number
+            coalesced: number
+            rejected: number
+            lastReceived: { address: string; args: unknown[]; from: string } | null
+            error: string | null
+          },
+        ) => void,
+      ) => () => void
+      // A mapped input and the arguments of the message, after rate limiting
+      onOscInput: (
+        callback: (event: any, input: "mode" | "detents" | "targetAngle", args: unknown[]) => void,
+      ) => () => void
   
       // Menu event listeners
-      onResetConfig: (callback: () => void) => void
-      onSaveConfig: (callback: (event: any, filePath: string) => void) => void
-      onLoadConfig: (callback: (event: any, filePath: string) => void) => void
-      onScanPorts: (callback: () => void) => void
-      onConnectDevice: (callback: () => void) => void
-      onDisconnectDevice: (callback: () => void) => void
-      onResetDevice: (callback: () => void) => void
-      onCalibrateDevice: (callback: () => void) => void
+      onResetConfig: (callback: () => void) => () => void
+      onSaveConfig: (callback: (event: any, filePath: string) => void) => () => void
+      onLoadConfig: (callback: (event: any, filePath: string) => void) => () => void
+      onScanPorts: (callback: () => void) => () => void
+      onConnectDevice: (callback: () => void) => () => void
+      onDisconnectDevice: (callback: () => void) => () => void
+      onResetDevice: (callback: () => void) => () => void
+      onCalibrateDevice: (callback: () => void) => () => void
     }
   }
   
\ No newline at end of file